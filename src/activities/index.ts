@@ -1,21 +1,47 @@
 import {
+  applyStockChangeActivity,
+  assessRiskActivity,
+  authorizePaymentActivity,
   cancelOrderActivity,
+  capturePaymentActivity,
   createOrderActivity,
-  processPaymentActivity,
+  deliverWebhookActivity,
+  findBackorderedOrdersActivity,
+  getStockLevelActivity,
+  priceOrderActivity,
+  recordSagaEventActivity,
+  recordWebhookDeadLetterActivity,
   refundPaymentActivity,
   releaseInventoryActivity,
+  repriceOrderActivity,
   reserveInventoryActivity,
   sendCancellationEmailActivity,
   sendConfirmationEmailActivity,
+  sendLowStockAlertActivity,
+  sweepInventoryHoldsActivity,
+  voidPaymentActivity,
 } from './order-activities.js';
 
 export const activities = {
+  priceOrder: priceOrderActivity,
   createOrder: createOrderActivity,
+  assessRisk: assessRiskActivity,
+  authorizePayment: authorizePaymentActivity,
   reserveInventory: reserveInventoryActivity,
-  processPayment: processPaymentActivity,
+  repriceOrder: repriceOrderActivity,
   sendConfirmationEmail: sendConfirmationEmailActivity,
+  capturePayment: capturePaymentActivity,
   cancelOrder: cancelOrderActivity,
   releaseInventory: releaseInventoryActivity,
+  voidPayment: voidPaymentActivity,
   refundPayment: refundPaymentActivity,
   sendCancellationEmail: sendCancellationEmailActivity,
+  sweepInventoryHolds: sweepInventoryHoldsActivity,
+  applyStockChange: applyStockChangeActivity,
+  getStockLevel: getStockLevelActivity,
+  sendLowStockAlert: sendLowStockAlertActivity,
+  findBackorderedOrders: findBackorderedOrdersActivity,
+  deliverWebhook: deliverWebhookActivity,
+  recordWebhookDeadLetter: recordWebhookDeadLetterActivity,
+  recordSagaEvent: recordSagaEventActivity,
 };
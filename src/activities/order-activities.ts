@@ -1,24 +1,207 @@
-import { log } from '@temporalio/activity';
+import { Context, log } from '@temporalio/activity';
+import { ApplicationFailure } from '@temporalio/common';
+import { durationToMs } from '../config/duration.js';
+import { loadConfig } from '../config/index.js';
+import {
+  AmountLimitExceededError,
+  NotificationFailedError,
+  ReservationExpiredError,
+  UnsupportedCurrencyError,
+} from '../errors/index.js';
+import {
+  applyStockChange,
+  commitHold,
+  findExpiredHolds,
+  holdsOf,
+  placeHold,
+  planReservation,
+  reconcileReserved,
+  releaseHold,
+  settleHold,
+  stockLevel,
+} from '../inventory/index.js';
+import { type Money, compare, formatMoney } from '../money/index.js';
+import { createNotifier } from '../notifications/index.js';
+import { createPaymentProvider, paymentLimit } from '../payments/index.js';
+import { createRepositories } from '../persistence/index.js';
+import { priceOrder, repriceOrder } from '../pricing/index.js';
+import { type RiskInput, assessRisk } from '../risk/index.js';
 import type {
+  ApplyStockChangeResult,
+  AssessRiskResult,
+  AuthorizePaymentResult,
+  CapturePaymentResult,
   CreateOrderResult,
-  InventoryItem,
+  DeliverWebhookResult,
+  Fulfillment,
+  FulfillmentPolicy,
+  NotificationDelivery,
   Order,
   OrderData,
+  OrderEvent,
   OrderItem,
   Payment,
-  ProcessPaymentResult,
+  PriceBreakdown,
+  PriceOrderResult,
+  ReleaseInventoryResult,
+  ReservationLine,
   ReserveInventoryResult,
-  SendEmailResult,
+  SagaEventRequest,
+  SagaEventType,
+  SendNotificationResult,
+  StockChange,
+  StockLevel,
+  SweepInventoryResult,
+  WebhookDeadLetter,
 } from '../types/index.js';
+import { createWebhookDispatcher } from '../webhooks/index.js';
+
+// Storage (in-memory by default, STORAGE_DRIVER=file to share it between workers)
+const config = loadConfig();
+const { orders, inventory, payments, idempotency, outbox } = createRepositories(config.storage);
+const paymentProvider = createPaymentProvider(config.payments, config.storage);
+const notifier = createNotifier(config.notifications, config.storage, log);
+const webhooks = createWebhookDispatcher(config.webhooks, config.storage);
+
+// Idempotency key of a step in the current workflow run: every retry of the activity shares
+// it, a new run reusing the workflow ID (e.g. an order submitted again) gets its own
+function idempotencyKey(step: string): string {
+  const { workflowExecution, activityId } = Context.current().info;
+  return workflowExecution
+    ? `${workflowExecution.workflowId}:${workflowExecution.runId}:${step}`
+    : `${activityId}:${step}`;
+}
+
+/**
+ * Look up the result of a previous execution of this step (e.g. a retry after a lost response)
+ */
+async function findRecordedResult<T>(step: string): Promise<T | undefined> {
+  const record = await idempotency.get(idempotencyKey(step));
+  if (record) {
+    log.info('♻️ Step already executed, returning recorded result', {
+      key: record.key,
+      recordedAttempt: record.attempt,
+    });
+    return record.result as T;
+  }
+  return undefined;
+}
 
-// Simulate database/storage
-const orders = new Map<string, Order>();
-const inventory = new Map<string, InventoryItem>([
-  ['item-1', { name: 'Product 1', quantity: 10 }],
-  ['item-2', { name: 'Product 2', quantity: 5 }],
-  ['item-3', { name: 'Product 3', quantity: 8 }],
-]);
-const payments = new Map<string, Payment>();
+/**
+ * Log a failed payment provider call with whether Temporal will retry it, then rethrow it
+ */
+function paymentFailed(err: unknown, context: Record<string, unknown>): never {
+  const failure = err instanceof ApplicationFailure ? err : undefined;
+  log.error(`❌ Payment failed: ${failure?.nonRetryable === false ? 'will retry' : 'no retry'}`, {
+    ...context,
+    attempt: Context.current().info.attempt,
+    type: failure?.type,
+    message: (err as Error).message,
+  });
+  throw err;
+}
+
+/**
+ * Record the result of this step so later executions return it instead of re-applying it
+ */
+async function recordResult<T>(step: string, orderId: string, result: T): Promise<T> {
+  await idempotency.save({
+    key: idempotencyKey(step),
+    orderId,
+    step,
+    result,
+    attempt: Context.current().info.attempt,
+    recordedAt: new Date().toISOString(),
+  });
+  return result;
+}
+
+/**
+ * Append the saga event of this step to the outbox
+ * Appended before the step records its result, so a retry after a crash in between appends it
+ * again (kept once, the event ID is derived from the idempotency key) instead of losing it
+ * `attempt` tells apart the transitions a step can make more than once
+ */
+async function appendEvent(
+  step: string,
+  type: SagaEventType,
+  orderId: string,
+  data: Record<string, unknown> = {},
+  attempt?: number
+): Promise<void> {
+  const { workflowExecution, activityId } = Context.current().info;
+  const eventId = `${idempotencyKey(step)}:${type}`;
+  await outbox.append({
+    eventId: attempt === undefined ? eventId : `${eventId}:${attempt}`,
+    type,
+    orderId,
+    workflowId: workflowExecution?.workflowId ?? activityId,
+    step,
+    data,
+    occurredAt: new Date().toISOString(),
+  });
+}
+
+// Keep the order record in line with what is actually held for it
+async function recordFulfillment(orderId: string, fulfillment: Fulfillment): Promise<void> {
+  await orders.update(orderId, (order) => {
+    order.fulfillment = fulfillment;
+  });
+}
+
+/**
+ * Activity: Price order
+ * Computes the price breakdown (promotions, coupon, shipping, tax) from the pricing rules
+ * in the configuration; the breakdown is stored on the order and drives the payment amount
+ */
+export async function priceOrderActivity({
+  orderId,
+  items,
+  couponCode,
+  region,
+}: OrderData): Promise<PriceOrderResult> {
+  log.info('🏷️ Activity: Pricing order', { orderId, couponCode, region });
+
+  const pricing = priceOrder({ items, couponCode, region }, config.pricing, config.exchangeRates);
+
+  log.info('✅ Order priced', {
+    orderId,
+    subtotal: formatMoney(pricing.subtotal),
+    discountTotal: formatMoney(pricing.discountTotal),
+    total: formatMoney(pricing.total),
+  });
+  return { success: true, attempt: Context.current().info.attempt, pricing };
+}
+
+/**
+ * Activity: Reprice the lines of a partial order that ship; a coupon that no longer applies
+ * is dropped rather than failing the authorized order
+ */
+export async function repriceOrderActivity({
+  orderId,
+  items,
+  couponCode,
+  region,
+}: OrderData): Promise<PriceOrderResult> {
+  log.info('🏷️ Activity: Repricing order', { orderId, couponCode, region });
+
+  const { pricing, droppedCoupon } = repriceOrder(
+    { items, couponCode, region },
+    config.pricing,
+    config.exchangeRates
+  );
+  if (droppedCoupon) {
+    log.warn('⚠️ Coupon dropped', { orderId, reason: droppedCoupon });
+  }
+
+  log.info('✅ Order repriced', { orderId, total: formatMoney(pricing.total) });
+  return {
+    success: true,
+    message: droppedCoupon,
+    attempt: Context.current().info.attempt,
+    pricing,
+  };
+}
 
 /**
  * Activity: Create order
@@ -28,9 +211,15 @@ export async function createOrderActivity({
   userId,
   items,
   totalAmount,
-}: OrderData): Promise<CreateOrderResult> {
+  pricing,
+}: OrderData & { pricing?: PriceBreakdown }): Promise<CreateOrderResult> {
   log.info('📝 Activity: Creating order', { orderId, userId, items, totalAmount });
 
+  const recorded = await findRecordedResult<CreateOrderResult>('createOrder');
+  if (recorded) {
+    return recorded;
+  }
+
   // Simulate delay
   await new Promise((resolve) => setTimeout(resolve, 1000));
 
@@ -40,157 +229,279 @@ export async function createOrderActivity({
     items,
     totalAmount,
     status: 'created',
+    pricing,
     createdAt: new Date().toISOString(),
   };
 
-  orders.set(orderId, order);
+  await orders.save(order);
+  await appendEvent('createOrder', 'order.created', orderId, { userId, items, totalAmount });
   log.info('✅ Order created', { orderId });
 
-  return {
+  return recordResult('createOrder', orderId, {
     success: true,
+    attempt: Context.current().info.attempt,
     ...order,
-  };
+  });
+}
+
+/**
+ * Activity: Assess risk
+ * Checks the order against the risk rules of the configuration (blocklist, quantity caps,
+ * order velocity, daily spend, high value) using the user's order history, and records the
+ * decision and matched rules on the order. Runs before any payment is attempted.
+ */
+export async function assessRiskActivity(input: RiskInput): Promise<AssessRiskResult> {
+  const { orderId, userId } = input;
+  log.info('🕵️ Activity: Assessing risk', { orderId, userId, total: formatMoney(input.total) });
+
+  const recorded = await findRecordedResult<AssessRiskResult>('assessRisk');
+  if (recorded) {
+    return recorded;
+  }
+
+  const history = await orders.findByUser(userId);
+  const assessment = assessRisk(input, history, config.risk, config.exchangeRates, new Date());
+  await orders.update(orderId, (order) => {
+    order.risk = assessment;
+  });
+
+  const { decision, matchedRules } = assessment;
+  if (decision === 'approve') {
+    log.info('✅ Risk check passed', { orderId });
+  } else {
+    log.warn(`⚠️ Risk check: ${decision}`, { orderId, matchedRules });
+  }
+  return recordResult('assessRisk', orderId, {
+    success: true,
+    attempt: Context.current().info.attempt,
+    assessment,
+  });
 }
 
 /**
  * Activity: Reserve inventory
+ * Short lines fail the reservation (all-or-nothing, backorder) or are dropped (partial); the
+ * outcome is recorded on the order as its fulfillment
  */
 export async function reserveInventoryActivity({
   orderId,
   items,
+  policy = 'all-or-nothing',
 }: {
   orderId: string;
   items: OrderItem[];
+  policy?: FulfillmentPolicy;
 }): Promise<ReserveInventoryResult> {
-  log.info('📦 Activity: Reserving inventory', { orderId, items });
+  log.info('📦 Activity: Reserving inventory', { orderId, items, policy });
+
+  const recorded = await findRecordedResult<ReserveInventoryResult>('reserveInventory');
+  if (recorded) {
+    return recorded;
+  }
 
   await new Promise((resolve) => setTimeout(resolve, 1000));
 
-  // Check and reserve inventory
+  // Merge lines of the same product so stock is checked against the total quantity
+  const lines = new Map<string, number>();
   for (const item of items) {
-    const stock = inventory.get(item.itemId);
-    if (!stock || stock.quantity < item.quantity) {
-      log.error('❌ Insufficient inventory', {
-        itemId: item.itemId,
-        required: item.quantity,
-        available: stock?.quantity,
-      });
-      return {
-        success: false,
-        message: `Insufficient inventory for product ${item.itemId}`,
-      };
+    lines.set(item.itemId, (lines.get(item.itemId) || 0) + item.quantity);
+  }
+  const requested: ReservationLine[] = [...lines].map(([itemId, quantity]) => ({
+    itemId,
+    quantity,
+  }));
+
+  // Check every line first, only then hold stock for this order
+  const now = new Date();
+  const ttlMs = durationToMs(config.inventory.holdTtl);
+  const { hold, shortages } = await inventory.transaction((stockByItem) => {
+    const plan = planReservation(stockByItem, requested, policy);
+    for (const { itemId, quantity } of plan.hold) {
+      placeHold(stockByItem[itemId], orderId, quantity, now, ttlMs);
     }
-    stock.quantity -= item.quantity;
-    stock.reserved = (stock.reserved || 0) + item.quantity;
+    return plan;
+  });
+
+  if (hold.length === 0) {
+    log.error('❌ Insufficient inventory', { orderId, shortages });
+    if (policy === 'backorder') {
+      await recordFulfillment(orderId, { policy, status: 'backordered', reserved: [], shortages });
+    }
+    // Not recorded: nothing is held, and a backordered order retries once restocked
+    return {
+      success: false,
+      attempt: Context.current().info.attempt,
+      message: `Insufficient inventory for product ${shortages.map((line) => line.itemId).join(', ')}`,
+      reserved: [],
+      shortages,
+    };
   }
 
-  log.info('✅ Inventory reserved', { orderId });
-  return { success: true, message: 'Inventory reserved successfully' };
+  await recordFulfillment(orderId, {
+    policy,
+    status: shortages.length > 0 ? 'partial' : 'fulfilled',
+    reserved: hold,
+    shortages,
+  });
+  await appendEvent('reserveInventory', 'inventory.reserved', orderId, {
+    policy,
+    reserved: hold,
+    shortages,
+  });
+  if (shortages.length > 0) {
+    log.warn('⚠️ Inventory partially reserved', { orderId, reserved: hold, shortages });
+  } else {
+    log.info('✅ Inventory reserved', {
+      orderId,
+      reserved: hold,
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    });
+  }
+  return recordResult('reserveInventory', orderId, {
+    success: true,
+    attempt: Context.current().info.attempt,
+    message:
+      shortages.length > 0 ? 'Inventory partially reserved' : 'Inventory reserved successfully',
+    reserved: hold,
+    shortages,
+  });
 }
 
 /**
- * Activity: Process payment
- * Simulates payment API call with various failure scenarios
- * 
- * Scenarios (random, realistic probabilities):
- * 1. ✅ Success (~67% of valid amounts) - Payment processed successfully
- * 2. 🔄 Network/Timeout (15%) - Will retry (transient error)
- * 3. 🔄 Server Error 500 (10%) - Will retry (transient error)
- * 4. ❌ Client Error 400 (5%) - No retry (validation error)
- * 5. ❌ Client Error 401 (3%) - No retry (auth error)
- * 6. ❌ Business Logic Error (amount > 1000) - No retry, checked first
- * 
+ * Activity: Authorize payment
+ * Holds the amount on the customer's account through the configured payment provider
+ * (PAYMENT_PROVIDER=simulated by default, or http for a PSP such as the local stub).
+ * Nothing is charged until capturePayment; voidPayment releases the hold.
+ *
+ * Outcomes of the simulated gateway (see payments/gateway-simulator.ts):
+ * 1. ✅ Success (~67% of valid amounts) - Funds authorized
+ * 2. 🔄 GatewayTimeoutError (15%) - Will retry (transient error)
+ * 3. 🔄 GatewayServerError 500 (10%) - Will retry (transient error)
+ * 4. ❌ PaymentValidationError 400 (5%) - No retry (validation error)
+ * 5. ❌ PaymentAuthError 401 (3%) - No retry (auth error)
+ * 6. ❌ AmountLimitExceededError (above `payments.limits` of the currency, 1,000.00 USD by default)
+ *    or UnsupportedCurrencyError (no limit for the currency) - No retry, checked first
+ * Set PAYMENT_SIMULATOR_SEED to replay the same outcomes, or force outcomes per order,
+ * user or amount with `payments.simulator.forcedOutcomes` in the config file
+ *
  * Retry behavior:
+ * - Every failure is thrown as an ApplicationFailure whose `type` is the error code
  * - Network/Server errors → Temporal auto-retry (3 attempts with backoff)
- * - Client/Business errors → No retry, return failure immediately
+ * - Client/Business errors → nonRetryable, the workflow compensates immediately
+ * - The provider call carries an idempotency key, so a retry never authorizes twice
  */
-export async function processPaymentActivity({
+export async function authorizePaymentActivity({
   orderId,
   userId,
   amount,
+  approvedBy,
 }: {
   orderId: string;
   userId: string;
-  amount: number;
-}): Promise<ProcessPaymentResult> {
-  log.info('💳 Activity: Processing payment', { orderId, userId, amount });
-
-  // Simulate API call delay (1-2 seconds)
-  const delay = 1000 + Math.random() * 1000;
-  await new Promise((resolve) => setTimeout(resolve, delay));
-
-  // Generate random scenario (0-100)
-  const random = Math.random() * 100;
+  amount: Money;
+  // Operator who approved the order in manual review, lifting the amount limit
+  approvedBy?: string;
+}): Promise<AuthorizePaymentResult> {
+  log.info('💳 Activity: Authorizing payment', { orderId, userId, amount: formatMoney(amount) });
+
+  const recorded = await findRecordedResult<AuthorizePaymentResult>('authorizePayment');
+  if (recorded) {
+    return recorded;
+  }
 
-  // Scenario 1: Business Logic Error (7%) - No retry
+  // Scenario 1: Business Logic Error - No retry
   // Check business rules first (before API call)
-  if (amount > 1000) {
-    log.error('❌ Payment failed: Amount exceeds limit (business rule)', {
-      amount,
-      limit: 1000,
+  const maximum = paymentLimit(config.payments.limits, amount.currency);
+  if (maximum === undefined) {
+    log.error('❌ Payment failed: No payment limit for the currency', {
+      currency: amount.currency,
     });
-    return {
-      success: false,
-      message: 'Payment failed: Amount exceeds limit of 1000',
-    };
+    throw new UnsupportedCurrencyError(amount.currency, 'no payment limit configured');
   }
-
-  // Scenario 2: Network Timeout (15%) - Will retry
-  if (random < 15) {
-    log.error('❌ Payment failed: Network timeout (will retry)', {
-      orderId,
-      attempt: 'will be retried by Temporal',
+  if (compare(amount, maximum) > 0 && approvedBy) {
+    log.warn('⚠️ Amount above the limit, approved in manual review', {
+      amount: formatMoney(amount),
+      limit: formatMoney(maximum),
+      approvedBy,
     });
-    // Throw error → Temporal will retry
-    throw new Error('Payment API timeout - network connection failed');
-  }
-
-  // Scenario 3: Server Error 500 (10%) - Will retry
-  if (random >= 15 && random < 25) {
-    log.error('❌ Payment failed: Server error 500 (will retry)', {
-      orderId,
-      status: 500,
+  } else if (compare(amount, maximum) > 0) {
+    log.error('❌ Payment failed: Amount exceeds limit (business rule)', {
+      amount: formatMoney(amount),
+      limit: formatMoney(maximum),
     });
-    // Throw error → Temporal will retry
-    throw new Error('Payment API server error 500 - Internal server error');
+    throw new AmountLimitExceededError(amount, maximum);
   }
 
-  // Scenario 4: Client Error 400 - Bad Request (5%) - No retry
-  if (random >= 25 && random < 30) {
-    log.error('❌ Payment failed: Client error 400 (no retry)', {
-      orderId,
-      status: 400,
-      reason: 'Invalid request format',
-    });
-    // Return failure (not throw) → No retry
-    return {
-      success: false,
-      message: 'Payment failed: Invalid request format (400 Bad Request)',
-    };
+  const authorization = await paymentProvider
+    .authorize({ orderId, userId, amount, idempotencyKey: idempotencyKey('authorizePayment') })
+    .catch((err) => paymentFailed(err, { orderId, step: 'authorize' }));
+
+  await appendEvent('authorizePayment', 'payment.authorized', orderId, {
+    authorizationId: authorization.authorizationId,
+    amount,
+  });
+  log.info('✅ Payment authorized', { orderId, authorizationId: authorization.authorizationId });
+  return recordResult('authorizePayment', orderId, {
+    success: true,
+    attempt: Context.current().info.attempt,
+    authorizationId: authorization.authorizationId,
+    amount,
+  });
+}
+
+/**
+ * Activity: Capture payment
+ * Charges the authorized amount, only once the order is reserved and confirmed, then
+ * completes the order and commits its inventory holds (the stock is sold)
+ */
+export async function capturePaymentActivity({
+  orderId,
+  userId,
+  authorizationId,
+  amount: requested,
+}: {
+  orderId: string;
+  userId: string;
+  authorizationId: string;
+  // Less than authorized when only part of the order is fulfilled
+  amount?: Money;
+}): Promise<CapturePaymentResult> {
+  log.info('💳 Activity: Capturing payment', {
+    orderId,
+    authorizationId,
+    amount: requested && formatMoney(requested),
+  });
+
+  // A retry after a lost response must not charge the customer twice
+  const recorded = await findRecordedResult<CapturePaymentResult>('capturePayment');
+  if (recorded) {
+    return recorded;
   }
 
-  // Scenario 5: Client Error 401 - Unauthorized (3%) - No retry
-  if (random >= 30 && random < 33) {
-    log.error('❌ Payment failed: Client error 401 (no retry)', {
-      orderId,
-      status: 401,
-      reason: 'Invalid API credentials',
-    });
-    // Return failure (not throw) → No retry
-    return {
-      success: false,
-      message: 'Payment failed: Invalid API credentials (401 Unauthorized)',
-    };
+  // Never charge for stock the sweeper already gave back: the holds are checked and committed
+  // in one transaction, the sweeper leaves committed holds alone. A completed order (a retry
+  // after a crash below) has already settled them
+  const completed = (await orders.get(orderId))?.status === 'completed';
+  const committed = await inventory.transaction((stockByItem) => {
+    const now = new Date();
+    const lines = holdsOf(stockByItem, orderId);
+    for (const { itemId } of lines) {
+      commitHold(stockByItem[itemId], orderId, now);
+    }
+    return lines;
+  });
+  if (!completed && committed.length === 0) {
+    log.error('❌ Inventory hold expired before capture', { orderId });
+    throw new ReservationExpiredError(orderId);
   }
 
-  // Scenario 6: Success (~67% remaining, but we'll make it ~60% overall)
-  // After all error scenarios (33%), remaining 67% should be success
-  // But to get ~60% success rate overall, we adjust:
-  // If random >= 33, it's success (67% of cases where amount <= 1000)
-  // Overall: ~60% success (accounting for business rule failures)
-  const paymentId = `payment-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+  const { paymentId, amount } = await paymentProvider
+    .capture(authorizationId, requested)
+    .catch((err) => paymentFailed(err, { orderId, authorizationId, step: 'capture' }));
+
   const payment: Payment = {
     paymentId,
+    authorizationId,
     orderId,
     userId,
     amount,
@@ -198,40 +509,85 @@ export async function processPaymentActivity({
     processedAt: new Date().toISOString(),
   };
 
-  payments.set(paymentId, payment);
-  log.info('✅ Payment successful', {
+  await payments.save(payment);
+  await appendEvent('capturePayment', 'payment.captured', orderId, { paymentId, amount });
+  log.info('✅ Payment captured', {
     paymentId,
-    amount,
+    amount: formatMoney(amount),
     orderId,
   });
 
-  return { success: true, paymentId, amount };
+  // Completed first: a hold left behind by a crash here is settled by the sweeper
+  await orders.update(orderId, (order) => {
+    order.status = 'completed';
+    order.completedAt = new Date().toISOString();
+  });
+  await inventory.transaction((stockByItem) => {
+    for (const stock of Object.values(stockByItem)) {
+      settleHold(stock, orderId);
+    }
+  });
+  await appendEvent('capturePayment', 'order.completed', orderId);
+
+  return recordResult('capturePayment', orderId, {
+    success: true,
+    attempt: Context.current().info.attempt,
+    paymentId,
+    amount,
+  });
+}
+
+// Result of a notification activity; a skipped channel (no contact, no address) is not an
+// error, a failed one fails the attempt so Temporal retries it (the notifier only sends the
+// failed channels again)
+function notificationResult(deliveries: NotificationDelivery[]): SendNotificationResult {
+  const failed = deliveries.filter((delivery) => delivery.status === 'failed');
+  const sent = deliveries.filter((delivery) => delivery.status === 'sent');
+  for (const { channel, recipient, error } of failed) {
+    log.error('❌ Notification failed', { channel, recipient, error });
+  }
+  if (failed.length > 0) {
+    throw new NotificationFailedError(deliveries);
+  }
+  return {
+    success: true,
+    attempt: Context.current().info.attempt,
+    message: `${sent.length} sent, ${failed.length} failed, ${deliveries.length - sent.length - failed.length} skipped`,
+    deliveries,
+  };
 }
 
 /**
  * Activity: Send confirmation email
+ * Notifies the customer over the channels of their contact, in their language
+ * @throws NotificationFailedError (retried) while a channel fails
  */
 export async function sendConfirmationEmailActivity({
   orderId,
   userId,
-  totalAmount,
+  pricing,
+  fulfillment,
 }: {
   orderId: string;
   userId: string;
-  totalAmount: number;
-}): Promise<SendEmailResult> {
-  log.info('📧 Activity: Sending confirmation email', { orderId, userId, totalAmount });
-
-  await new Promise((resolve) => setTimeout(resolve, 800));
-
-  // Simulate sending email
-  log.info('✅ Confirmation email sent', {
-    to: `user-${userId}@example.com`,
-    subject: `Order Confirmation #${orderId}`,
-    body: `Your order has been confirmed. Total: ${totalAmount} VND`,
+  // Of the fulfilled items only
+  pricing: PriceBreakdown;
+  fulfillment?: Fulfillment;
+}): Promise<SendNotificationResult> {
+  log.info('📧 Activity: Sending confirmation email', {
+    orderId,
+    userId,
+    total: formatMoney(pricing.total),
   });
 
-  return { success: true, message: 'Email sent' };
+  const deliveries = await notifier.notify({
+    key: idempotencyKey('sendConfirmationEmail'),
+    template: 'orderConfirmation',
+    userId,
+    orderId,
+    data: { orderId, pricing, fulfillment },
+  });
+  return notificationResult(deliveries);
 }
 
 /**
@@ -246,10 +602,13 @@ export async function cancelOrderActivity({
 
   await new Promise((resolve) => setTimeout(resolve, 1000));
 
-  const order = orders.get(orderId);
-  if (order) {
+  const order = await orders.update(orderId, (order) => {
     order.status = 'cancelled';
     order.cancelledAt = new Date().toISOString();
+  });
+  await appendEvent('cancelOrder', 'compensation.executed', orderId);
+  if (order) {
+    await appendEvent('cancelOrder', 'order.cancelled', orderId);
     log.info('✅ Order cancelled', { orderId });
   }
 
@@ -258,29 +617,69 @@ export async function cancelOrderActivity({
 
 /**
  * Compensation Activity: Release inventory
+ * Only returns what this order actually holds, so it is safe even if the reservation failed
  */
 export async function releaseInventoryActivity({
   orderId,
-  items,
 }: {
   orderId: string;
-  items: OrderItem[];
-}): Promise<{ success: boolean; message: string }> {
-  log.info('🔄 Compensation: Releasing inventory', { orderId, items });
+}): Promise<ReleaseInventoryResult> {
+  log.info('🔄 Compensation: Releasing inventory', { orderId });
+
+  const recorded = await findRecordedResult<ReleaseInventoryResult>('releaseInventory');
+  if (recorded) {
+    return recorded;
+  }
 
   await new Promise((resolve) => setTimeout(resolve, 1000));
 
-  // Return items to inventory
-  for (const item of items) {
-    const stock = inventory.get(item.itemId);
-    if (stock) {
-      stock.quantity += item.quantity;
-      stock.reserved = Math.max(0, (stock.reserved || 0) - item.quantity);
+  // Return the quantities held by this order to inventory
+  const released = await inventory.transaction((stockByItem) => {
+    const lines = holdsOf(stockByItem, orderId);
+    for (const { itemId } of lines) {
+      releaseHold(stockByItem[itemId], orderId);
     }
+    return lines;
+  });
+
+  await appendEvent('releaseInventory', 'compensation.executed', orderId, { released });
+  log.info('✅ Inventory released', { orderId, released });
+  return recordResult('releaseInventory', orderId, {
+    success: true,
+    message: released.length > 0 ? 'Inventory released' : 'No inventory held for this order',
+    released,
+  });
+}
+
+/**
+ * Compensation Activity: Void payment
+ * Releases the held funds of an authorization that was never captured, nothing was charged
+ */
+export async function voidPaymentActivity({
+  orderId,
+  authorizationId,
+}: {
+  orderId: string;
+  authorizationId: string;
+}): Promise<{ success: boolean; message: string }> {
+  log.info('🔄 Compensation: Voiding payment authorization', { orderId, authorizationId });
+
+  const recorded = await findRecordedResult<{ success: boolean; message: string }>('voidPayment');
+  if (recorded) {
+    return recorded;
   }
 
-  log.info('✅ Inventory released', { orderId });
-  return { success: true, message: 'Inventory released' };
+  // The provider may have voided already if a previous attempt lost its response
+  if ((await paymentProvider.getStatus(authorizationId)) !== 'voided') {
+    await paymentProvider.void(authorizationId);
+  }
+
+  await appendEvent('voidPayment', 'compensation.executed', orderId, { authorizationId });
+  log.info('✅ Payment authorization voided', { orderId, authorizationId });
+  return recordResult('voidPayment', orderId, {
+    success: true,
+    message: 'Payment authorization voided',
+  });
 }
 
 /**
@@ -295,20 +694,31 @@ export async function refundPaymentActivity({
 }): Promise<{ success: boolean; message: string }> {
   log.info('🔄 Compensation: Refunding payment', { orderId, paymentId });
 
-  await new Promise((resolve) => setTimeout(resolve, 1500));
+  const recorded = await findRecordedResult<{ success: boolean; message: string }>('refundPayment');
+  if (recorded) {
+    return recorded;
+  }
 
-  const payment = payments.get(paymentId);
-  if (payment) {
+  // The provider may have refunded already if a previous attempt lost its response
+  if ((await paymentProvider.getStatus(paymentId)) !== 'refunded') {
+    await paymentProvider.refund(paymentId);
+  }
+
+  const payment = await payments.update(paymentId, (payment) => {
     payment.status = 'refunded';
     payment.refundedAt = new Date().toISOString();
-    log.info('✅ Payment refunded', { paymentId, amount: payment.amount });
+  });
+  await appendEvent('refundPayment', 'compensation.executed', orderId, { paymentId });
+  if (payment) {
+    log.info('✅ Payment refunded', { paymentId, amount: formatMoney(payment.amount) });
   }
 
-  return { success: true, message: 'Payment refunded' };
+  return recordResult('refundPayment', orderId, { success: true, message: 'Payment refunded' });
 }
 
 /**
  * Compensation Activity: Send cancellation email
+ * @throws NotificationFailedError (retried) while a channel fails
  */
 export async function sendCancellationEmailActivity({
   orderId,
@@ -318,16 +728,214 @@ export async function sendCancellationEmailActivity({
   orderId: string;
   userId: string;
   reason: string;
-}): Promise<{ success: boolean; message: string }> {
+}): Promise<SendNotificationResult> {
   log.info('🔄 Compensation: Sending cancellation email', { orderId, userId, reason });
 
-  await new Promise((resolve) => setTimeout(resolve, 800));
+  const deliveries = await notifier.notify({
+    key: idempotencyKey('sendCancellationEmail'),
+    template: 'orderCancellation',
+    userId,
+    orderId,
+    data: { orderId, reason },
+  });
+  return notificationResult(deliveries);
+}
+
+/**
+ * Activity: Sweep inventory holds (run by the scheduled inventory sweeper workflow)
+ * Releases the expired holds of orders that never completed, e.g. a stuck or terminated
+ * workflow whose compensation never ran, commits the holds of completed orders and
+ * repairs `reserved` counts that drifted from the holds
+ */
+export async function sweepInventoryHoldsActivity(): Promise<SweepInventoryResult> {
+  const now = new Date();
+  log.info('🧹 Activity: Sweeping inventory holds', { now: now.toISOString() });
+
+  const expired = await inventory.transaction((stockByItem) => findExpiredHolds(stockByItem, now));
+  // Orders whose status was checked, and those of them that completed
+  const checked = new Set(expired.map((hold) => hold.orderId));
+  const completed = new Set<string>();
+  for (const orderId of checked) {
+    if ((await orders.get(orderId))?.status === 'completed') {
+      completed.add(orderId);
+    }
+  }
+
+  const result = await inventory.transaction((stockByItem) => {
+    const sweep: SweepInventoryResult = { released: [], committed: [], corrected: [] };
+    // Re-read under the lock: a hold may have been released or committed meanwhile. A committed
+    // hold is being captured, the order's compensation returns it if the capture fails
+    for (const hold of findExpiredHolds(stockByItem, now)) {
+      const stock = stockByItem[hold.itemId];
+      if (completed.has(hold.orderId)) {
+        const quantity = settleHold(stock, hold.orderId);
+        sweep.committed.push({ orderId: hold.orderId, itemId: hold.itemId, quantity });
+      } else if (checked.has(hold.orderId) && !stock.holds?.[hold.orderId]?.committedAt) {
+        releaseHold(stock, hold.orderId);
+        sweep.released.push(hold);
+      }
+    }
+    for (const [itemId, stock] of Object.entries(stockByItem)) {
+      if (reconcileReserved(stock)) {
+        sweep.corrected.push(itemId);
+      }
+    }
+    return sweep;
+  });
+
+  if (result.released.length > 0) {
+    log.warn('⚠️ Released expired inventory holds', { released: result.released });
+  }
+  if (result.committed.length > 0 || result.corrected.length > 0) {
+    log.warn('⚠️ Reconciled inventory', {
+      committed: result.committed,
+      corrected: result.corrected,
+    });
+  }
+  log.info('✅ Inventory sweep done', {
+    released: result.released.length,
+    committed: result.committed.length,
+    corrected: result.corrected.length,
+  });
+  return result;
+}
+
+/**
+ * Activity: Apply a restock or an adjustment (run by the inventory workflow of the product)
+ * Goes through the same inventory transaction as the reservations, so a change and an order
+ * never read the same stock; a rejected change leaves the stock untouched
+ */
+export async function applyStockChangeActivity({
+  itemId,
+  change,
+}: {
+  itemId: string;
+  change: StockChange;
+}): Promise<ApplyStockChangeResult> {
+  log.info('📦 Activity: Applying stock change', { itemId, change });
+
+  const step = `stockChange:${change.changeId}`;
+  const recorded = await findRecordedResult<ApplyStockChangeResult>(step);
+  if (recorded) {
+    return recorded;
+  }
+
+  const { rejected, stock } = await inventory.transaction((stockByItem) => {
+    const rejected = applyStockChange(stockByItem, itemId, change);
+    const item = stockByItem[itemId];
+    return { rejected, stock: item ? stockLevel(itemId, item) : undefined };
+  });
+
+  if (rejected) {
+    log.warn('⚠️ Stock change rejected', { itemId, changeId: change.changeId, reason: rejected });
+  } else {
+    log.info('✅ Stock changed', { itemId, changeId: change.changeId, stock });
+  }
+  return recordResult(step, itemId, {
+    success: rejected === undefined,
+    attempt: Context.current().info.attempt,
+    message: rejected ?? (change.type === 'restock' ? 'Restocked' : 'Stock adjusted'),
+    stock,
+  });
+}
 
-  log.info('✅ Cancellation email sent', {
-    to: `user-${userId}@example.com`,
-    subject: `Order Cancellation #${orderId}`,
-    body: `Your order has been cancelled. Reason: ${reason}`,
+/**
+ * Activity: Read the stock of a product
+ * @returns undefined for an unknown product
+ */
+export async function getStockLevelActivity({
+  itemId,
+}: {
+  itemId: string;
+}): Promise<StockLevel | undefined> {
+  const item = await inventory.get(itemId);
+  return item ? stockLevel(itemId, item) : undefined;
+}
+
+/**
+ * Activity: Send a low-stock alert to purchasing (the `notifications.opsUserId` contact)
+ */
+export async function sendLowStockAlertActivity({
+  alertId,
+  stock,
+  threshold,
+}: {
+  // Generated by the inventory workflow, one per alert
+  alertId: string;
+  stock: StockLevel;
+  threshold: number;
+}): Promise<SendNotificationResult> {
+  log.warn('📉 Activity: Sending low-stock alert', { ...stock, threshold });
+
+  const deliveries = await notifier.notify({
+    key: `lowStockAlert:${alertId}`,
+    template: 'lowStockAlert',
+    userId: config.notifications.opsUserId,
+    data: { stock, threshold },
+  });
+  return notificationResult(deliveries);
+}
+
+/**
+ * Activity: Open orders backordered on the item, to be signalled after a restock
+ */
+export async function findBackorderedOrdersActivity({
+  itemId,
+}: {
+  itemId: string;
+}): Promise<string[]> {
+  const backordered = await orders.findBackordered(itemId);
+  return backordered.map((order) => order.orderId);
+}
+
+/**
+ * Activity: Append a saga event decided by the workflow itself (e.g. a failed compensation)
+ */
+export async function recordSagaEventActivity({
+  orderId,
+  type,
+  step,
+  data,
+  attempt,
+}: SagaEventRequest): Promise<void> {
+  await appendEvent(step, type, orderId, data, attempt);
+}
+
+/**
+ * Activity: Deliver an order event to one webhook subscriber (one attempt, retried by Temporal)
+ */
+export async function deliverWebhookActivity({
+  subscriberId,
+  event,
+}: {
+  subscriberId: string;
+  event: OrderEvent;
+}): Promise<DeliverWebhookResult> {
+  const { attempt } = Context.current().info;
+  log.info('📤 Activity: Delivering webhook', {
+    subscriberId,
+    eventId: event.eventId,
+    type: event.type,
+    attempt,
   });
 
-  return { success: true, message: 'Cancellation email sent' };
+  const status = await webhooks.deliver(subscriberId, event);
+
+  log.info('✅ Webhook delivered', { subscriberId, eventId: event.eventId, status });
+  return { success: true, attempt, status };
+}
+
+/**
+ * Activity: Record a webhook delivery that was given up
+ */
+export async function recordWebhookDeadLetterActivity(
+  record: Omit<WebhookDeadLetter, 'deliveryId' | 'deadAt'>
+): Promise<WebhookDeadLetter> {
+  const deadLetter = await webhooks.deadLetter(record);
+  log.error('☠️ Webhook delivery dead-lettered', {
+    deliveryId: deadLetter.deliveryId,
+    error: deadLetter.error,
+    retryState: deadLetter.retryState,
+  });
+  return deadLetter;
 }
@@ -0,0 +1,37 @@
+import { Client, Connection } from '@temporalio/client';
+import { InventoryService } from './api/inventory.js';
+import { OrderService } from './api/orders.js';
+import { createApiServer } from './api/server.js';
+import { connectionOptions, loadConfig } from './config/index.js';
+
+/**
+ * HTTP API for submitting and tracking orders (see api/server.ts for the routes)
+ */
+async function run(): Promise<void> {
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
+  const client = new Client({ connection, namespace: config.temporal.namespace });
+
+  const server = createApiServer({
+    orders: new OrderService(client, config),
+    inventory: new InventoryService(client, config),
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.api.port, resolve);
+  });
+
+  console.log(`🌐 Order API listening on http://localhost:${config.api.port}`);
+  console.log(`📋 Starting workflows on task queue: ${config.temporal.taskQueue}\n`);
+
+  const shutdown = () => {
+    server.close(() => connection.close().finally(() => process.exit(0)));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+run().catch((err) => {
+  console.error('❌ Error running API server:', err);
+  process.exit(1);
+});
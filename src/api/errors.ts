@@ -0,0 +1,14 @@
+/**
+ * Error answered by the HTTP API with its status code and {error: {code, message, details}}
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
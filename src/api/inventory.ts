@@ -0,0 +1,117 @@
+import {
+  type Client,
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
+import { type AppConfig, inventoryWorkflowOptions } from '../config/index.js';
+import type {
+  InventoryWorkflowOptions,
+  InventoryWorkflowState,
+  RestockRequest,
+  StockAdjustmentRequest,
+} from '../types/index.js';
+import {
+  adjustStockSignal,
+  getStockQuery,
+  inventoryWorkflow,
+  inventoryWorkflowId,
+  restockSignal,
+} from '../workflows/inventory-workflow.js';
+import { ApiError } from './errors.js';
+
+/**
+ * Stock operations behind the HTTP API and the inventory CLI, on top of the Temporal client
+ * Every product is managed by its own inventoryWorkflow, started on first use
+ */
+
+export interface InventoryWorkflowRef {
+  itemId: string;
+  workflowId: string;
+}
+
+export class InventoryService {
+  constructor(
+    private readonly client: Client,
+    private readonly config: AppConfig
+  ) {}
+
+  /**
+   * Start the inventory workflow of a product (low-stock alerts, restock notifications)
+   * unless it is already running
+   */
+  async watch(itemId: string): Promise<InventoryWorkflowRef> {
+    const options = this.startOptions(itemId);
+    try {
+      await this.client.workflow.start(inventoryWorkflow, options);
+    } catch (err) {
+      if (!(err instanceof WorkflowExecutionAlreadyStartedError)) {
+        throw err;
+      }
+    }
+    return { itemId, workflowId: options.workflowId };
+  }
+
+  async get(itemId: string): Promise<InventoryWorkflowState> {
+    try {
+      return await this.client.workflow.getHandle(inventoryWorkflowId(itemId)).query(getStockQuery);
+    } catch (err) {
+      if (err instanceof WorkflowNotFoundError) {
+        throw new ApiError(
+          404,
+          'InventoryNotWatched',
+          `No inventory workflow for product ${itemId}, watch or restock it first`
+        );
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Queue a restock; a new product is added to the inventory
+   */
+  async restock(itemId: string, request: RestockRequest): Promise<InventoryWorkflowRef> {
+    if (!Number.isInteger(request.quantity) || request.quantity < 1) {
+      throw new ApiError(400, 'InvalidStockChange', 'quantity must be a positive integer');
+    }
+    const options = this.startOptions(itemId);
+    await this.client.workflow.signalWithStart(inventoryWorkflow, {
+      ...options,
+      signal: restockSignal,
+      signalArgs: [request],
+    });
+    return { itemId, workflowId: options.workflowId };
+  }
+
+  /**
+   * Queue a correction of the available quantity; it is rejected by the workflow if it would
+   * remove more units than are available
+   */
+  async adjust(itemId: string, request: StockAdjustmentRequest): Promise<InventoryWorkflowRef> {
+    if (!Number.isInteger(request.delta) || request.delta === 0) {
+      throw new ApiError(400, 'InvalidStockChange', 'delta must be a non-zero integer');
+    }
+    if (typeof request.reason !== 'string' || request.reason.trim() === '') {
+      throw new ApiError(400, 'InvalidStockChange', 'reason must be a non-empty string');
+    }
+    const options = this.startOptions(itemId);
+    await this.client.workflow.signalWithStart(inventoryWorkflow, {
+      ...options,
+      signal: adjustStockSignal,
+      signalArgs: [request],
+    });
+    return { itemId, workflowId: options.workflowId };
+  }
+
+  // Options of the product's workflow, for starting it or signalling it with start
+  private startOptions(itemId: string): {
+    args: [string, InventoryWorkflowOptions];
+    taskQueue: string;
+    workflowId: string;
+  } {
+    return {
+      args: [itemId, inventoryWorkflowOptions(this.config, itemId)],
+      taskQueue: this.config.temporal.taskQueue,
+      workflowId: inventoryWorkflowId(itemId),
+    };
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  type Client,
+  WorkflowExecutionAlreadyStartedError,
+  type WorkflowExecutionInfo,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
+import { type AppConfig, orderWorkflowOptions } from '../config/index.js';
+import { type Money, fromMajor } from '../money/index.js';
+import { type OutboxRepository, createRepositories } from '../persistence/index.js';
+import {
+  CURRENCY,
+  ORDER_STATUS,
+  ORDER_STATUS_VALUES,
+  type OrderStatusValue,
+  TOTAL_AMOUNT,
+  USER_ID,
+} from '../search-attributes.js';
+import type {
+  CancelOrderRequest,
+  CompensationRequest,
+  ManualReview,
+  OrderData,
+  OrderWorkflowState,
+  ReviewRequest,
+  SagaEvent,
+  WorkflowResult,
+} from '../types/index.js';
+import {
+  ORDER_WORKFLOW_ID_PREFIX,
+  approveOrderSignal,
+  cancelOrderSignal,
+  getOrderStatusQuery,
+  markResolvedSignal,
+  orderWorkflow,
+  rejectOrderSignal,
+  retryCompensationSignal,
+  workflowIdFor,
+} from '../workflows/order-workflow.js';
+import { ApiError } from './errors.js';
+
+/**
+ * Order operations behind the HTTP API, on top of the Temporal client
+ */
+
+export interface OrderSummary {
+  orderId: string;
+  workflowId: string;
+  // Temporal execution status (RUNNING, COMPLETED, ...)
+  workflowStatus: string;
+  // Business status from the OrderStatus search attribute
+  orderStatus?: string;
+  userId?: string;
+  totalAmount?: Money;
+  startTime: string;
+  closeTime?: string;
+}
+
+export interface OrderDetails extends OrderSummary {
+  // Saga progress, only while the workflow is running
+  state?: OrderWorkflowState;
+  // Final outcome once the workflow has completed
+  result?: WorkflowResult;
+}
+
+export interface PendingReview extends OrderSummary {
+  review: ManualReview;
+}
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export type CompensationAction = 'retry' | 'resolve';
+
+function summarize(info: Omit<WorkflowExecutionInfo, 'raw'>): OrderSummary {
+  const total = info.typedSearchAttributes.get(TOTAL_AMOUNT);
+  const currency = info.typedSearchAttributes.get(CURRENCY);
+  return {
+    orderId: info.workflowId.slice(ORDER_WORKFLOW_ID_PREFIX.length),
+    workflowId: info.workflowId,
+    workflowStatus: info.status.name,
+    orderStatus: info.typedSearchAttributes.get(ORDER_STATUS),
+    userId: info.typedSearchAttributes.get(USER_ID),
+    totalAmount: total !== undefined && currency ? fromMajor(total, currency) : undefined,
+    startTime: info.startTime.toISOString(),
+    closeTime: info.closeTime?.toISOString(),
+  };
+}
+
+export class OrderService {
+  constructor(
+    private readonly client: Client,
+    private readonly config: AppConfig,
+    // The workers outbox, shared with the API only with STORAGE_DRIVER=file
+    private readonly outbox: OutboxRepository = createRepositories(config.storage).outbox
+  ) {}
+
+  async submit(
+    orderData: OrderData
+  ): Promise<{ orderId: string; workflowId: string; runId: string }> {
+    const workflowId = workflowIdFor(orderData.orderId);
+    try {
+      const handle = await this.client.workflow.start(orderWorkflow, {
+        args: [orderData, orderWorkflowOptions(this.config)],
+        taskQueue: this.config.temporal.taskQueue,
+        workflowId,
+        workflowIdReusePolicy: 'REJECT_DUPLICATE',
+      });
+      return { orderId: orderData.orderId, workflowId, runId: handle.firstExecutionRunId };
+    } catch (err) {
+      if (err instanceof WorkflowExecutionAlreadyStartedError) {
+        throw new ApiError(409, 'OrderExists', `Order ${orderData.orderId} was already submitted`, {
+          workflowId,
+        });
+      }
+      throw err;
+    }
+  }
+
+  async get(orderId: string): Promise<OrderDetails> {
+    const handle = this.client.workflow.getHandle(workflowIdFor(orderId));
+    const description = await handle.describe().catch((err) => this.notFound(err, orderId));
+    const details: OrderDetails = summarize(description);
+
+    if (description.status.name === 'RUNNING') {
+      details.state = await handle.query(getOrderStatusQuery);
+    } else if (description.status.name === 'COMPLETED') {
+      details.result = await handle.result();
+    }
+    return details;
+  }
+
+  /**
+   * Saga events of the order from the outbox, oldest first
+   * An order without events yet (or whose worker keeps them in memory) answers an empty list
+   */
+  async timeline(orderId: string): Promise<SagaEvent[]> {
+    const events = await this.outbox.findByOrder(orderId);
+    if (events.length === 0) {
+      await this.client.workflow
+        .getHandle(workflowIdFor(orderId))
+        .describe()
+        .catch((err) => this.notFound(err, orderId));
+    }
+    return events;
+  }
+
+  async cancel(orderId: string, request: CancelOrderRequest): Promise<OrderSummary> {
+    const handle = this.client.workflow.getHandle(workflowIdFor(orderId));
+    const description = await handle.describe().catch((err) => this.notFound(err, orderId));
+    if (description.status.name !== 'RUNNING') {
+      throw new ApiError(409, 'OrderClosed', `Order ${orderId} is no longer running`, {
+        workflowStatus: description.status.name,
+      });
+    }
+    // Past the payment capture (or already rolling back) the workflow ignores the signal
+    const state = await handle.query(getOrderStatusQuery);
+    if (!state.cancellable) {
+      throw new ApiError(409, 'CancelTooLate', `Order ${orderId} can no longer be cancelled`, {
+        workflowStatus: description.status.name,
+        status: state.status,
+        currentStep: state.currentStep,
+      });
+    }
+
+    await handle.signal(cancelOrderSignal, request);
+    return summarize(description);
+  }
+
+  /**
+   * Approve or reject an order waiting for a manual review
+   */
+  async review(
+    orderId: string,
+    decision: ReviewDecision,
+    request: ReviewRequest
+  ): Promise<OrderSummary> {
+    const handle = this.client.workflow.getHandle(workflowIdFor(orderId));
+    const description = await handle.describe().catch((err) => this.notFound(err, orderId));
+    const state =
+      description.status.name === 'RUNNING' ? await handle.query(getOrderStatusQuery) : undefined;
+    if (state?.review?.status !== 'pending') {
+      throw new ApiError(409, 'NoPendingReview', `Order ${orderId} is not waiting for a review`, {
+        workflowStatus: description.status.name,
+        review: state?.review?.status,
+      });
+    }
+
+    await handle.signal(decision === 'approve' ? approveOrderSignal : rejectOrderSignal, request);
+    return summarize(description);
+  }
+
+  /**
+   * Retry or close the failed compensations of an order that needs attention
+   */
+  async resolveCompensation(
+    orderId: string,
+    action: CompensationAction,
+    request: CompensationRequest
+  ): Promise<OrderSummary> {
+    const handle = this.client.workflow.getHandle(workflowIdFor(orderId));
+    const description = await handle.describe().catch((err) => this.notFound(err, orderId));
+    const state =
+      description.status.name === 'RUNNING' ? await handle.query(getOrderStatusQuery) : undefined;
+    if (state?.status !== 'needs-attention') {
+      throw new ApiError(
+        409,
+        'NothingToCompensate',
+        `Order ${orderId} is not waiting for an operator to compensate it`,
+        { workflowStatus: description.status.name, status: state?.status }
+      );
+    }
+
+    await handle.signal(action === 'retry' ? retryCompensationSignal : markResolvedSignal, request);
+    return summarize(description);
+  }
+
+  /**
+   * Orders waiting for an operator, oldest first, with the rules that flagged them
+   */
+  async listPendingReviews(limit: number): Promise<PendingReview[]> {
+    const pending: PendingReview[] = [];
+    for (const summary of await this.list({ status: 'PENDING_REVIEW', limit })) {
+      const handle = this.client.workflow.getHandle(summary.workflowId);
+      const { review } = await handle.query(getOrderStatusQuery);
+      // The decision may have arrived since the listing
+      if (review?.status === 'pending') {
+        pending.push({ ...summary, review });
+      }
+    }
+    return pending.reverse();
+  }
+
+  async list({ status, limit }: { status?: string; limit: number }): Promise<OrderSummary[]> {
+    const conditions = [`WorkflowType = '${orderWorkflow.name}'`];
+    if (status !== undefined) {
+      const orderStatus = status.toUpperCase() as OrderStatusValue;
+      if (!ORDER_STATUS_VALUES.includes(orderStatus)) {
+        throw new ApiError(
+          400,
+          'InvalidQuery',
+          `status must be one of ${ORDER_STATUS_VALUES.join(', ')}, got "${status}"`
+        );
+      }
+      conditions.push(`${ORDER_STATUS.name} = '${orderStatus}'`);
+    }
+
+    const orders: OrderSummary[] = [];
+    for await (const info of this.client.workflow.list({ query: conditions.join(' AND ') })) {
+      orders.push(summarize(info));
+      if (orders.length >= limit) {
+        break;
+      }
+    }
+    return orders;
+  }
+
+  private notFound(err: unknown, orderId: string): never {
+    if (err instanceof WorkflowNotFoundError) {
+      throw new ApiError(404, 'OrderNotFound', `Order ${orderId} not found`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,259 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import type {
+  CancelOrderRequest,
+  CompensationRequest,
+  OrderData,
+  RestockRequest,
+  ReviewRequest,
+  StockAdjustmentRequest,
+} from '../types/index.js';
+import { ApiError } from './errors.js';
+import type { InventoryService } from './inventory.js';
+import type { OrderService } from './orders.js';
+import { createApiServer } from './server.js';
+
+const orderData: OrderData = {
+  orderId: 'order-api-1',
+  userId: 'user-1',
+  items: [
+    { itemId: 'item-1', name: 'Product 1', quantity: 2, price: { minor: 10_000, currency: 'USD' } },
+  ],
+  totalAmount: { minor: 20_000, currency: 'USD' },
+};
+
+// Records the calls the routes make, the Temporal client itself is not involved
+const calls: Array<[string, unknown]> = [];
+const orders = {
+  submit: async (data: OrderData) => {
+    calls.push(['submit', data]);
+    return { orderId: data.orderId, workflowId: `order-workflow-${data.orderId}`, runId: 'run-1' };
+  },
+  get: async (orderId: string) => {
+    throw new ApiError(404, 'OrderNotFound', `Order ${orderId} not found`);
+  },
+  timeline: async (orderId: string) => [
+    {
+      sequence: 1,
+      eventId: `order-workflow-${orderId}:createOrder:order.created`,
+      type: 'order.created',
+      orderId,
+      workflowId: `order-workflow-${orderId}`,
+      step: 'createOrder',
+      data: {},
+      occurredAt: '2024-01-01T00:00:00Z',
+    },
+  ],
+  cancel: async (orderId: string, request: CancelOrderRequest) => {
+    calls.push(['cancel', { orderId, ...request }]);
+    return { orderId };
+  },
+  list: async (query: { status?: string; limit: number }) => {
+    calls.push(['list', query]);
+    return [];
+  },
+  review: async (orderId: string, decision: string, request: ReviewRequest) => {
+    calls.push(['review', { orderId, decision, ...request }]);
+    return { orderId };
+  },
+  resolveCompensation: async (orderId: string, action: string, request: CompensationRequest) => {
+    calls.push(['resolveCompensation', { orderId, action, ...request }]);
+    return { orderId };
+  },
+} as unknown as OrderService;
+
+const inventory = {
+  restock: async (itemId: string, request: RestockRequest) => {
+    calls.push(['restock', { itemId, ...request }]);
+    return { itemId, workflowId: `inventory-${itemId}` };
+  },
+  adjust: async (itemId: string, request: StockAdjustmentRequest) => {
+    calls.push(['adjust', { itemId, ...request }]);
+    return { itemId, workflowId: `inventory-${itemId}` };
+  },
+} as unknown as InventoryService;
+
+const server = createApiServer({ orders, inventory });
+let baseUrl: string;
+
+interface ApiResponse {
+  status: number;
+  body: { workflowId?: string; error?: { code: string; details?: unknown } };
+}
+
+async function request(method: string, path: string, body?: unknown): Promise<ApiResponse> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'content-type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as ApiResponse['body'] };
+}
+
+describe('order API', () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('accepts a valid order with 202 and its workflow id', async () => {
+    const response = await request('POST', '/orders', { ...orderData, extra: 'ignored' });
+
+    assert.equal(response.status, 202);
+    assert.equal(response.body.workflowId, 'order-workflow-order-api-1');
+    assert.deepEqual(calls.at(-1), ['submit', orderData]);
+  });
+
+  it('rejects an invalid order listing every problem', async () => {
+    const response = await request('POST', '/orders', {
+      orderId: 'order 1',
+      items: [{ itemId: 'item-1', quantity: '2' }],
+    });
+
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'InvalidOrder');
+    assert.deepEqual(
+      (response.body.error?.details as Array<{ field: string }>).map(({ field }) => field),
+      ['orderId', 'userId', 'items[0].name', 'items[0].quantity', 'items[0].price']
+    );
+  });
+
+  it('recomputes the total from the items', async () => {
+    const { totalAmount: _ignored, ...withoutTotal } = orderData;
+
+    const response = await request('POST', '/orders', withoutTotal);
+
+    assert.equal(response.status, 202);
+    assert.deepEqual(calls.at(-1), ['submit', orderData]);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const response = await request('POST', '/orders', '{"orderId":');
+
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'InvalidJson');
+  });
+
+  it('passes the status filter and limit to the order listing', async () => {
+    const response = await request('GET', '/orders?status=completed&limit=10');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { orders: [] });
+    assert.deepEqual(calls.at(-1), ['list', { status: 'completed', limit: 10 }]);
+
+    assert.equal((await request('GET', '/orders?limit=0')).status, 400);
+  });
+
+  it('answers the saga events of an order', async () => {
+    const response = await request('GET', '/orders/order-api-1/events');
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      (response.body as { events: Array<{ type: string; orderId: string }> }).events.map(
+        ({ type, orderId }) => [type, orderId]
+      ),
+      [['order.created', 'order-api-1']]
+    );
+  });
+
+  it('forwards cancellation requests', async () => {
+    const response = await request('POST', '/orders/order-api-1/cancel', { reason: 'Too slow' });
+
+    assert.equal(response.status, 202);
+    assert.deepEqual(calls.at(-1), [
+      'cancel',
+      { orderId: 'order-api-1', reason: 'Too slow', requestedBy: 'api' },
+    ]);
+  });
+
+  it('forwards review decisions and requires a reviewer', async () => {
+    const response = await request('POST', '/orders/order-api-1/review', {
+      decision: 'approve',
+      reviewer: 'ops-1',
+    });
+
+    assert.equal(response.status, 202);
+    assert.deepEqual(calls.at(-1), [
+      'review',
+      { orderId: 'order-api-1', decision: 'approve', reviewer: 'ops-1', note: undefined },
+    ]);
+
+    const invalid = await request('POST', '/orders/order-api-1/review', { decision: 'maybe' });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error?.code, 'InvalidReview');
+  });
+
+  it('forwards operator actions on failed compensations and requires an operator', async () => {
+    const retried = await request('POST', '/orders/order-api-1/compensation/retry', {
+      operator: 'alice',
+    });
+    assert.equal(retried.status, 202);
+    assert.deepEqual(calls.at(-1), [
+      'resolveCompensation',
+      { orderId: 'order-api-1', action: 'retry', operator: 'alice', note: undefined },
+    ]);
+
+    const resolved = await request('POST', '/orders/order-api-1/compensation/resolve', {
+      operator: 'bob',
+      note: 'Refunded by bank transfer',
+    });
+    assert.equal(resolved.status, 202);
+    assert.deepEqual(calls.at(-1), [
+      'resolveCompensation',
+      {
+        orderId: 'order-api-1',
+        action: 'resolve',
+        operator: 'bob',
+        note: 'Refunded by bank transfer',
+      },
+    ]);
+
+    const anonymous = await request('POST', '/orders/order-api-1/compensation/retry', {});
+    assert.equal(anonymous.status, 400);
+    assert.equal(anonymous.body.error?.code, 'InvalidCompensationRequest');
+  });
+
+  it('forwards restocks and stock adjustments to the inventory workflow', async () => {
+    const restock = await request('POST', '/inventory/item-9/restock', {
+      quantity: 12,
+      name: 'Product 9',
+    });
+    assert.equal(restock.status, 202);
+    assert.equal(restock.body.workflowId, 'inventory-item-9');
+    assert.deepEqual(calls.at(-1), [
+      'restock',
+      { itemId: 'item-9', quantity: 12, name: 'Product 9', requestedBy: 'api' },
+    ]);
+
+    const adjust = await request('POST', '/inventory/item-9/adjust', {
+      delta: -2,
+      reason: 'Damaged',
+      requestedBy: 'ops-1',
+    });
+    assert.equal(adjust.status, 202);
+    assert.deepEqual(calls.at(-1), [
+      'adjust',
+      { itemId: 'item-9', delta: -2, reason: 'Damaged', requestedBy: 'ops-1' },
+    ]);
+  });
+
+  it('answers API errors and unknown routes with their status code', async () => {
+    const missing = await request('GET', '/orders/order-unknown');
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error?.code, 'OrderNotFound');
+
+    assert.equal((await request('DELETE', '/orders/order-api-1')).status, 404);
+  });
+
+  it('rejects an id that is not valid URL encoding with 400', async () => {
+    const response = await request('GET', '/orders/order-%E0%A4%A');
+
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'InvalidPath');
+  });
+});
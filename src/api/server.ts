@@ -0,0 +1,256 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import type {
+  CancelOrderRequest,
+  CompensationRequest,
+  OrderData,
+  RestockRequest,
+  ReviewRequest,
+  StockAdjustmentRequest,
+} from '../types/index.js';
+import { normalizeOrderData, validateOrderData } from '../validation/index.js';
+import { ApiError } from './errors.js';
+import type { InventoryService } from './inventory.js';
+import type { CompensationAction, OrderService, ReviewDecision } from './orders.js';
+
+/**
+ * HTTP API for submitting and tracking orders, and managing stock, without the Temporal SDK
+ *
+ * POST /orders                   body OrderData → 202 {orderId, workflowId, runId}
+ *                                 (totalAmount is optional and recomputed from the items)
+ * GET  /orders?status=&limit=    → {orders: OrderSummary[]}
+ * GET  /orders/:id               → OrderDetails (saga state while running, result once completed)
+ * GET  /orders/:id/events        → {events: SagaEvent[]} (saga transitions from the outbox)
+ * POST /orders/:id/cancel        body {reason?, requestedBy?} → 202 OrderSummary
+ * POST /orders/:id/review        body {decision: approve|reject, reviewer, note?} → 202 OrderSummary
+ * POST /orders/:id/compensation/retry|resolve body {operator, note?} → 202 OrderSummary
+ *                                 (failed compensations of an order that needs attention)
+ * GET  /reviews?limit=           → {reviews: PendingReview[]} (orders waiting for an operator)
+ * GET  /inventory/:itemId        → InventoryWorkflowState (stock, pending changes, low stock)
+ * POST /inventory/:itemId/restock body {quantity, name?, requestedBy?} → 202
+ * POST /inventory/:itemId/adjust  body {delta, reason, requestedBy?} → 202
+ *
+ * Errors are answered as {error: {code, message, details?}}
+ */
+
+const MAX_LIST_LIMIT = 200;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ApiServices {
+  orders: OrderService;
+  inventory: InventoryService;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (
+    services: ApiServices,
+    id: string,
+    url: URL,
+    body: unknown
+  ) => Promise<[number, unknown]>;
+}
+
+const REVIEW_DECISIONS: ReviewDecision[] = ['approve', 'reject'];
+
+function parseLimit(url: URL): number {
+  const limit = Number(url.searchParams.get('limit') ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ApiError(400, 'InvalidQuery', `limit must be between 1 and ${MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+function decodePathId(raw: string): string {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    throw new ApiError(400, 'InvalidPath', `"${raw}" is not a valid URL-encoded id`);
+  }
+}
+
+const ROUTES: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/orders$/,
+    handle: async ({ orders }, _id, _url, body) => [202, await orders.submit(parseOrderData(body))],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/orders$/,
+    handle: async ({ orders }, _id, url) => {
+      const limit = parseLimit(url);
+      const status = url.searchParams.get('status') ?? undefined;
+      return [200, { orders: await orders.list({ status, limit }) }];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/orders\/([^/]+)$/,
+    handle: async ({ orders }, id) => [200, await orders.get(id)],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/orders\/([^/]+)\/events$/,
+    handle: async ({ orders }, id) => [200, { events: await orders.timeline(id) }],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/orders\/([^/]+)\/cancel$/,
+    handle: async ({ orders }, id, _url, body) => {
+      const { reason, requestedBy } = (body ?? {}) as Record<string, unknown>;
+      const request: CancelOrderRequest = {
+        reason: typeof reason === 'string' ? reason : undefined,
+        requestedBy: typeof requestedBy === 'string' ? requestedBy : 'api',
+      };
+      return [202, await orders.cancel(id, request)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/orders\/([^/]+)\/review$/,
+    handle: async ({ orders }, id, _url, body) => {
+      const { decision, reviewer, note } = (body ?? {}) as Record<string, unknown>;
+      if (!REVIEW_DECISIONS.includes(decision as ReviewDecision)) {
+        throw new ApiError(
+          400,
+          'InvalidReview',
+          `decision must be one of ${REVIEW_DECISIONS.join(', ')}`
+        );
+      }
+      if (typeof reviewer !== 'string' || reviewer.trim() === '') {
+        throw new ApiError(400, 'InvalidReview', 'reviewer must be a non-empty string');
+      }
+      const request: ReviewRequest = {
+        reviewer,
+        note: typeof note === 'string' ? note : undefined,
+      };
+      return [202, await orders.review(id, decision as ReviewDecision, request)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/orders\/([^/]+)\/compensation\/(retry|resolve)$/,
+    handle: async ({ orders }, id, url, body) => {
+      const action: CompensationAction = url.pathname.endsWith('/retry') ? 'retry' : 'resolve';
+      const { operator, note } = (body ?? {}) as Record<string, unknown>;
+      if (typeof operator !== 'string' || operator.trim() === '') {
+        throw new ApiError(
+          400,
+          'InvalidCompensationRequest',
+          'operator must be a non-empty string'
+        );
+      }
+      const request: CompensationRequest = {
+        operator,
+        note: typeof note === 'string' ? note : undefined,
+      };
+      return [202, await orders.resolveCompensation(id, action, request)];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/reviews$/,
+    handle: async ({ orders }, _id, url) => [
+      200,
+      { reviews: await orders.listPendingReviews(parseLimit(url)) },
+    ],
+  },
+  {
+    method: 'GET',
+    pattern: /^\/inventory\/([^/]+)$/,
+    handle: async ({ inventory }, itemId) => [200, await inventory.get(itemId)],
+  },
+  {
+    method: 'POST',
+    pattern: /^\/inventory\/([^/]+)\/restock$/,
+    handle: async ({ inventory }, itemId, _url, body) => {
+      const { quantity, name, requestedBy } = (body ?? {}) as Record<string, unknown>;
+      const request: RestockRequest = {
+        quantity: quantity as number,
+        name: typeof name === 'string' ? name : undefined,
+        requestedBy: typeof requestedBy === 'string' ? requestedBy : 'api',
+      };
+      return [202, await inventory.restock(itemId, request)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/inventory\/([^/]+)\/adjust$/,
+    handle: async ({ inventory }, itemId, _url, body) => {
+      const { delta, reason, requestedBy } = (body ?? {}) as Record<string, unknown>;
+      const request: StockAdjustmentRequest = {
+        delta: delta as number,
+        reason: reason as string,
+        requestedBy: typeof requestedBy === 'string' ? requestedBy : 'api',
+      };
+      return [202, await inventory.adjust(itemId, request)];
+    },
+  },
+];
+
+/**
+ * Validate a POST /orders body, answering 400 with every violation
+ */
+function parseOrderData(body: unknown): OrderData {
+  const violations = validateOrderData(body);
+  if (violations.length > 0) {
+    throw new ApiError(400, 'InvalidOrder', 'Invalid order', violations);
+  }
+  return normalizeOrderData(body as OrderData);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, 'PayloadTooLarge', `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ApiError(400, 'InvalidJson', 'Request body is not valid JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create (but do not start) the API server; call listen() on the result
+ */
+export function createApiServer(services: ApiServices): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      const route = ROUTES.find(
+        ({ method, pattern }) => method === req.method && pattern.test(url.pathname)
+      );
+      if (!route) {
+        throw new ApiError(404, 'NotFound', `No route for ${req.method} ${url.pathname}`);
+      }
+
+      const id = decodePathId(route.pattern.exec(url.pathname)?.[1] ?? '');
+      const [status, body] = await route.handle(services, id, url, await readJson(req));
+      send(res, status, body);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        const { code, message, details } = err;
+        send(res, err.status, { error: { code, message, details } });
+        return;
+      }
+      console.error(`❌ ${req.method} ${url.pathname} failed:`, err);
+      send(res, 500, { error: { code: 'InternalError', message: 'Internal server error' } });
+    }
+  });
+}
@@ -1,19 +1,22 @@
 import { Client, Connection } from '@temporalio/client';
+import { connectionOptions, loadConfig, orderWorkflowOptions } from './config/index.js';
+import { fromMajor } from './money/index.js';
 import type { OrderData } from './types/index.js';
 import { orderWorkflow } from './workflows/order-workflow.js';
 
+const vnd = (amount: number) => fromMajor(amount, 'VND');
+
 /**
  * Test script to demonstrate various payment scenarios
  * Runs multiple orders to see different payment outcomes
  */
 async function run(): Promise<void> {
-  const connection = await Connection.connect({
-    address: 'localhost:7233',
-  });
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
 
   const client = new Client({
     connection,
-    namespace: 'default',
+    namespace: config.temporal.namespace,
   });
 
   console.log('🔗 Connected to Temporal Server\n');
@@ -23,6 +26,7 @@ async function run(): Promise<void> {
   console.log('  ✅ Success: ~60%');
   console.log('  🔄 Retry (Network/Server): ~25%');
   console.log('  ❌ No Retry (Client/Business): ~15%');
+  console.log('💡 Start the worker with PAYMENT_SIMULATOR_SEED=<seed> for reproducible outcomes');
   console.log('═══════════════════════════════════════════════════════\n\n');
 
   const testOrders: OrderData[] = [
@@ -31,45 +35,47 @@ async function run(): Promise<void> {
       orderId: `order-${Date.now()}-1`,
       userId: 'user-001',
       items: [
-        { itemId: 'item-1', name: 'Product 1', quantity: 2, price: 50 },
+        { itemId: 'item-1', name: 'Product 1', quantity: 2, price: vnd(500_000) },
       ],
-      totalAmount: 100, // < 1000, no business rule failure
+      totalAmount: vnd(1_000_000), // far below the risk thresholds, no business rule failure
     },
     // Test 2: Medium amount
     {
       orderId: `order-${Date.now()}-2`,
       userId: 'user-002',
       items: [
-        { itemId: 'item-2', name: 'Product 2', quantity: 3, price: 150 },
+        { itemId: 'item-2', name: 'Product 2', quantity: 3, price: vnd(1_500_000) },
       ],
-      totalAmount: 450,
+      totalAmount: vnd(4_500_000),
     },
     // Test 3: Another medium amount
     {
       orderId: `order-${Date.now()}-3`,
       userId: 'user-003',
       items: [
-        { itemId: 'item-3', name: 'Product 3', quantity: 1, price: 300 },
+        { itemId: 'item-3', name: 'Product 3', quantity: 1, price: vnd(3_000_000) },
       ],
-      totalAmount: 300,
+      totalAmount: vnd(3_000_000),
     },
-    // Test 4: Business rule failure (amount > 1000)
+    // Test 4: Business rule failure (above the high-value threshold and the payment limit)
     {
       orderId: `order-${Date.now()}-4`,
       userId: 'user-004',
       items: [
-        { itemId: 'item-1', name: 'Product 1', quantity: 10, price: 200 },
+        { itemId: 'item-1', name: 'Product 1', quantity: 10, price: vnd(3_000_000) },
       ],
-      totalAmount: 2000, // > 1000, will fail business rule
+      // > 20,000,000 VND high-value threshold (and 25,000,000 VND payment limit), held for
+      // review and rejected when nobody approves it
+      totalAmount: vnd(30_000_000),
     },
     // Test 5: Another small amount
     {
       orderId: `order-${Date.now()}-5`,
       userId: 'user-005',
       items: [
-        { itemId: 'item-2', name: 'Product 2', quantity: 1, price: 80 },
+        { itemId: 'item-2', name: 'Product 2', quantity: 1, price: vnd(800_000) },
       ],
-      totalAmount: 80,
+      totalAmount: vnd(800_000),
     },
   ];
 
@@ -88,8 +94,9 @@ async function run(): Promise<void> {
 
     try {
       const handle = await client.workflow.start(orderWorkflow, {
-        args: [orderData],
-        taskQueue: 'order-task-queue',
+        // Nobody works the review queue here, flagged orders expire quickly
+        args: [orderData, { ...orderWorkflowOptions(config), reviewTimeout: '10s' }],
+        taskQueue: config.temporal.taskQueue,
         workflowId: `order-workflow-${orderData.orderId}`,
       });
 
@@ -101,7 +108,9 @@ async function run(): Promise<void> {
         console.log(`   ✅ SUCCESS: Payment ID ${result.paymentId}`);
         results.push({ orderId: orderData.orderId, status: 'success', result });
       } else {
-        console.log(`   ❌ FAILED: ${result.error || result.message}`);
+        console.log(
+          `   ❌ FAILED [${result.errorCode ?? 'UNKNOWN'}]: ${result.error || result.message}`
+        );
         results.push({
           orderId: orderData.orderId,
           status: 'failed',
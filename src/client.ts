@@ -1,20 +1,28 @@
 import { Client, Connection } from '@temporalio/client';
+import { connectionOptions, loadConfig, orderWorkflowOptions } from './config/index.js';
+import { fromMajor } from './money/index.js';
 import type { OrderData } from './types/index.js';
-import { orderWorkflow } from './workflows/order-workflow.js';
+import {
+  cancelOrderSignal,
+  getOrderStatusQuery,
+  orderWorkflow,
+  rejectOrderSignal,
+} from './workflows/order-workflow.js';
+
+const vnd = (amount: number) => fromMajor(amount, 'VND');
 
 async function run(): Promise<void> {
-  const connection = await Connection.connect({
-    address: 'localhost:7233',
-  });
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
 
   const client = new Client({
     connection,
-    namespace: 'default',
+    namespace: config.temporal.namespace,
   });
 
   console.log('🔗 Connected to Temporal Server\n');
 
-  // Test case 1: Successful order (amount < 1000)
+  // Test case 1: Successful order (below the 20,000,000 VND high-value threshold)
   console.log('═══════════════════════════════════════════════════════');
   console.log('📦 TEST CASE 1: Successful Order');
   console.log('═══════════════════════════════════════════════════════\n');
@@ -23,22 +31,28 @@ async function run(): Promise<void> {
     orderId: `order-${Date.now()}-1`,
     userId: 'user-123',
     items: [
-      { itemId: 'item-1', name: 'Product 1', quantity: 2, price: 100 },
-      { itemId: 'item-2', name: 'Product 2', quantity: 1, price: 200 },
+      { itemId: 'item-1', name: 'Product 1', quantity: 2, price: vnd(100_000) },
+      { itemId: 'item-2', name: 'Product 2', quantity: 1, price: vnd(200_000) },
     ],
-    totalAmount: 400, // < 1000, will succeed
+    totalAmount: vnd(400_000), // < 20,000,000, will succeed
+    couponCode: 'WELCOME10', // 10% off, shipping and tax are added by the pricing step
   };
 
   try {
     const handle = await client.workflow.start(orderWorkflow, {
-      args: [orderData1],
-      taskQueue: 'order-task-queue',
+      args: [orderData1, orderWorkflowOptions(config)],
+      taskQueue: config.temporal.taskQueue,
       workflowId: `order-workflow-${orderData1.orderId}`,
     });
 
     console.log(`🚀 Started workflow: ${handle.workflowId}`);
     console.log(`📋 Workflow Run ID: ${handle.firstExecutionRunId}\n`);
 
+    // Peek at the saga while it is still in flight
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    const status = await handle.query(getOrderStatusQuery);
+    console.log('🔍 Status:', JSON.stringify(status, null, 2));
+
     const result = await handle.result();
     console.log('✅ Result:', JSON.stringify(result, null, 2));
   } catch (error) {
@@ -59,7 +73,7 @@ async function run(): Promise<void> {
   // Wait a bit before running test case 2
   await new Promise((resolve) => setTimeout(resolve, 3000));
 
-  // Test case 2: Failed order (amount > 1000) - will trigger compensation
+  // Test case 2: High-value order held for review and rejected - will trigger compensation
   console.log('═══════════════════════════════════════════════════════');
   console.log('📦 TEST CASE 2: Failed Order (Compensation)');
   console.log('═══════════════════════════════════════════════════════\n');
@@ -68,22 +82,78 @@ async function run(): Promise<void> {
     orderId: `order-${Date.now()}-2`,
     userId: 'user-456',
     items: [
-      { itemId: 'item-1', name: 'Product 1', quantity: 5, price: 300 },
-      { itemId: 'item-3', name: 'Product 3', quantity: 3, price: 400 },
+      { itemId: 'item-1', name: 'Product 1', quantity: 5, price: vnd(3_000_000) },
+      { itemId: 'item-3', name: 'Product 3', quantity: 3, price: vnd(4_000_000) },
     ],
-    totalAmount: 2700, // > 1000, will fail and trigger compensation
+    totalAmount: vnd(27_000_000), // above the 20,000,000 VND high-value threshold, held for review
   };
 
   try {
     const handle = await client.workflow.start(orderWorkflow, {
-      args: [orderData2],
-      taskQueue: 'order-task-queue',
+      args: [orderData2, orderWorkflowOptions(config)],
+      taskQueue: config.temporal.taskQueue,
       workflowId: `order-workflow-${orderData2.orderId}`,
     });
 
     console.log(`🚀 Started workflow: ${handle.workflowId}`);
     console.log(`📋 Workflow Run ID: ${handle.firstExecutionRunId}\n`);
 
+    // Play the operator working the review queue
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    const { review } = await handle.query(getOrderStatusQuery);
+    console.log('🧑‍⚖️ Review:', JSON.stringify(review, null, 2));
+    await handle.signal(rejectOrderSignal, { reviewer: 'ops-demo', note: 'Unusual basket' });
+    console.log('🛑 Sent rejectOrder signal');
+
+    const result = await handle.result();
+    console.log('✅ Result:', JSON.stringify(result, null, 2));
+  } catch (error) {
+    console.error('❌ Error starting workflow:');
+    if (error instanceof Error) {
+      console.error('   Message:', error.message);
+      console.error('   Stack:', error.stack);
+      if ('cause' in error && error.cause) {
+        console.error('   Cause:', error.cause);
+      }
+    } else {
+      console.error('   Unknown error:', error);
+    }
+  }
+
+  console.log('\n\n');
+
+  // Wait a bit before running test case 3
+  await new Promise((resolve) => setTimeout(resolve, 3000));
+
+  // Test case 3: Order cancelled by the customer while in flight - will trigger compensation
+  console.log('═══════════════════════════════════════════════════════');
+  console.log('📦 TEST CASE 3: Cancelled Order (Signal)');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const orderData3: OrderData = {
+    orderId: `order-${Date.now()}-3`,
+    userId: 'user-789',
+    items: [{ itemId: 'item-2', name: 'Product 2', quantity: 1, price: vnd(200_000) }],
+    totalAmount: vnd(200_000),
+  };
+
+  try {
+    const handle = await client.workflow.start(orderWorkflow, {
+      args: [orderData3, orderWorkflowOptions(config)],
+      taskQueue: config.temporal.taskQueue,
+      workflowId: `order-workflow-${orderData3.orderId}`,
+    });
+
+    console.log(`🚀 Started workflow: ${handle.workflowId}`);
+    console.log(`📋 Workflow Run ID: ${handle.firstExecutionRunId}\n`);
+
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await handle.signal(cancelOrderSignal, {
+      reason: 'Customer changed their mind',
+      requestedBy: orderData3.userId,
+    });
+    console.log('🛑 Sent cancelOrder signal');
+
     const result = await handle.result();
     console.log('✅ Result:', JSON.stringify(result, null, 2));
   } catch (error) {
@@ -0,0 +1,39 @@
+import type { Duration } from '@temporalio/common';
+import type {
+  ActivityConfig,
+  BackorderOptions,
+  CompensationWorkflowOptions,
+} from '../types/index.js';
+
+/**
+ * Default settings, free of Node APIs so the workflow bundle can import them
+ */
+
+export const DEFAULT_ACTIVITY_CONFIG: ActivityConfig = {
+  scheduleToCloseTimeout: '30s',
+  retry: {
+    initialInterval: '1s', // Đợi 1s trước lần retry đầu tiên
+    backoffCoefficient: 2.0, // Tăng dần: 1s → 2s → 4s
+    maximumInterval: '10s', // Tối đa đợi 10s giữa các lần retry
+    maximumAttempts: 3, // Retry tối đa 3 lần
+  },
+};
+
+// A flagged order waiting longer than this for an operator is rejected
+export const DEFAULT_REVIEW_TIMEOUT: Duration = '24h';
+
+// Backordered orders give up after 3 days, the payment authorization would lapse soon after
+export const DEFAULT_BACKORDER_OPTIONS: BackorderOptions = { timeout: '3d', recheckInterval: '1h' };
+
+// Compensations retry for an hour (without an attempt limit) before an operator is needed;
+// the workflow records the failure and finishes unless awaitOperator is set
+export const DEFAULT_COMPENSATION_OPTIONS: CompensationWorkflowOptions = {
+  timeout: '1h',
+  retry: {
+    initialInterval: '5s',
+    backoffCoefficient: 2,
+    maximumInterval: '5m',
+    maximumAttempts: 0,
+  },
+  awaitOperator: false,
+};
@@ -0,0 +1,31 @@
+import type { Duration } from '@temporalio/common';
+
+/**
+ * Durations of the configuration ("500ms", "30s", "5m", "1h", "3d" or milliseconds)
+ * Free of Node APIs so the workflow bundle can import it
+ */
+
+export const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/;
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Milliseconds of a duration
+ * @throws TypeError for a string that is not a duration, loadConfig() rejects those upfront
+ */
+export function durationToMs(duration: Duration): number {
+  if (typeof duration === 'number') {
+    return duration;
+  }
+  const match = DURATION_PATTERN.exec(duration.trim());
+  if (!match) {
+    throw new TypeError(`Invalid duration "${duration}"`);
+  }
+  return Math.round(Number(match[1]) * UNIT_MS[match[2]]);
+}
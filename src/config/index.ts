@@ -0,0 +1,846 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { TLSConfig } from '@temporalio/client';
+import type { Duration } from '@temporalio/common';
+import {
+  CURRENCY_DIGITS,
+  DEFAULT_EXCHANGE_RATES,
+  type ExchangeRates,
+  isSupportedCurrency,
+} from '../money/index.js';
+import { LOCALES, type Locale } from '../notifications/templates.js';
+import {
+  DEFAULT_SCENARIO_PROFILE,
+  type GatewayOutcome,
+  type ScenarioProfile,
+} from '../payments/gateway-simulator.js';
+import type { HttpProviderOptions } from '../payments/http-provider.js';
+import type { StorageDriver, StorageOptions } from '../persistence/index.js';
+import { DEFAULT_PRICING_RULES, type PricingRules } from '../pricing/index.js';
+import { DEFAULT_RISK_RULES, type RiskRules } from '../risk/index.js';
+import type {
+  ActivityConfig,
+  ActivityRetryConfig,
+  BackorderOptions,
+  CompensationWorkflowOptions,
+  InventoryWorkflowOptions,
+  OrderWorkflowOptions,
+  RiskAction,
+} from '../types/index.js';
+import { ORDER_EVENT_TYPES, type WebhookSubscriber } from '../webhooks/dispatcher.js';
+import {
+  DEFAULT_ACTIVITY_CONFIG,
+  DEFAULT_BACKORDER_OPTIONS,
+  DEFAULT_COMPENSATION_OPTIONS,
+  DEFAULT_REVIEW_TIMEOUT,
+} from './defaults.js';
+import { DURATION_PATTERN } from './duration.js';
+
+export { DEFAULT_ACTIVITY_CONFIG } from './defaults.js';
+
+/**
+ * Shared configuration for the worker, the worker cluster and the clients
+ *
+ * Sources, later ones win:
+ * 1. Defaults (local docker-compose setup)
+ * 2. JSON file named by CONFIG_FILE (same shape as AppConfig, every field optional)
+ * 3. Environment variables (see readEnv below)
+ */
+
+export interface TlsOptions {
+  enabled: boolean;
+  serverNameOverride?: string;
+  serverRootCACertPath?: string;
+  clientCertPath?: string;
+  clientKeyPath?: string;
+}
+
+export interface TemporalOptions {
+  address: string;
+  namespace: string;
+  taskQueue: string;
+  tls: TlsOptions;
+  apiKey?: string;
+}
+
+export interface WorkerOptions {
+  // Processes started by worker-cluster.ts
+  count: number;
+  maxConcurrentActivityTaskExecutions: number;
+  maxConcurrentWorkflowTaskExecutions: number;
+}
+
+export type PaymentProviderKind = 'simulated' | 'http';
+
+export interface PaymentOptions {
+  provider: PaymentProviderKind;
+  // Scenario profile of the simulated provider and of the local stub server
+  simulator: ScenarioProfile;
+  http: HttpProviderOptions;
+  stub: { port: number };
+  // Currency → maximum amount of a single payment, in minor units of the currency (cents,
+  // dong); orders in a currency without a limit are rejected
+  limits: Record<string, number>;
+}
+
+export interface InventoryOptions {
+  // Lifetime of the stock held for an order, so a stuck or terminated order cannot leak it
+  holdTtl: Duration;
+  // How often the scheduled sweeper releases expired holds
+  sweepInterval: Duration;
+  // Available quantity at or below which the inventory workflow of a product sends an alert
+  lowStockThreshold: number;
+  // itemId → threshold of that product, overriding lowStockThreshold
+  lowStockThresholds: Record<string, number>;
+  // How often the inventory workflow of a product re-reads its stock
+  stockCheckInterval: Duration;
+}
+
+export interface ReviewOptions {
+  // How long a flagged order waits for an operator decision before it is rejected
+  timeout: Duration;
+}
+
+export type EmailTransport = 'log' | 'smtp';
+
+export interface NotificationOptions {
+  // log: write the emails to the worker log; smtp: send them to `smtp`
+  emailTransport: EmailTransport;
+  smtp: { host: string; port: number; from: string };
+  // SMS are skipped while no gateway is configured
+  sms: { gatewayUrl?: string; apiKey?: string };
+  // Language of the users whose contact has none
+  defaultLocale: Locale;
+  // Per channel request (the whole SMTP session for email)
+  timeoutMs: number;
+  // Contact receiving the low-stock alerts
+  opsUserId: string;
+}
+
+export interface WebhookOptions {
+  // Receivers of the order lifecycle events
+  subscribers: WebhookSubscriber[];
+  // Per request, a timed out request is retried
+  timeoutMs: number;
+  // Retry policy of a delivery, given up deliveries are recorded as dead letters
+  retry: ActivityRetryConfig;
+  // Local receiver started by npm run start:webhook-receiver
+  receiver: { port: number; secret: string };
+}
+
+export type OutboxSinkKind = 'file' | 'broker';
+
+export interface OutboxOptions {
+  // Where npm run start:outbox-relay publishes the saga events
+  sink: OutboxSinkKind;
+  file: { path: string };
+  // Local broker started by npm run start:broker, `port` is the one it listens on
+  broker: { url: string; topic: string; port: number };
+  // Per publish request to the broker
+  timeoutMs: number;
+  // Events published per pass of the relay, a full batch is followed without waiting
+  batchSize: number;
+  pollInterval: Duration;
+}
+
+export interface ApiOptions {
+  port: number;
+}
+
+export interface AppConfig {
+  temporal: TemporalOptions;
+  worker: WorkerOptions;
+  activities: ActivityConfig;
+  storage: StorageOptions;
+  payments: PaymentOptions;
+  pricing: PricingRules;
+  exchangeRates: ExchangeRates;
+  risk: RiskRules;
+  review: ReviewOptions;
+  inventory: InventoryOptions;
+  backorder: BackorderOptions;
+  compensation: CompensationWorkflowOptions;
+  notifications: NotificationOptions;
+  webhooks: WebhookOptions;
+  outbox: OutboxOptions;
+  api: ApiOptions;
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/**
+ * Thrown at startup when the configuration is invalid, listing every problem at once
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+  temporal: {
+    address: 'localhost:7233',
+    namespace: 'default',
+    taskQueue: 'order-task-queue',
+    tls: { enabled: false },
+  },
+  worker: {
+    count: 4,
+    maxConcurrentActivityTaskExecutions: 100,
+    maxConcurrentWorkflowTaskExecutions: 40,
+  },
+  activities: DEFAULT_ACTIVITY_CONFIG,
+  storage: { driver: 'memory', dataDir: 'data' },
+  payments: {
+    provider: 'simulated',
+    simulator: DEFAULT_SCENARIO_PROFILE,
+    http: { baseUrl: 'http://localhost:4010', timeoutMs: 5000 },
+    stub: { port: 4010 },
+    // About the same value in every currency: 25,000,000 VND, 1,000.00 USD and EUR
+    limits: { VND: 25_000_000, USD: 100_000, EUR: 100_000 },
+  },
+  pricing: DEFAULT_PRICING_RULES,
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+  risk: DEFAULT_RISK_RULES,
+  review: { timeout: DEFAULT_REVIEW_TIMEOUT },
+  inventory: {
+    holdTtl: '1h',
+    sweepInterval: '5m',
+    lowStockThreshold: 3,
+    lowStockThresholds: {},
+    stockCheckInterval: '5m',
+  },
+  backorder: DEFAULT_BACKORDER_OPTIONS,
+  compensation: DEFAULT_COMPENSATION_OPTIONS,
+  notifications: {
+    emailTransport: 'log',
+    smtp: { host: 'localhost', port: 1025, from: 'orders@example.com' },
+    sms: {},
+    defaultLocale: 'en',
+    timeoutMs: 5000,
+    opsUserId: 'ops',
+  },
+  webhooks: {
+    subscribers: [],
+    timeoutMs: 5000,
+    retry: {
+      initialInterval: '2s',
+      backoffCoefficient: 2,
+      maximumInterval: '1m',
+      maximumAttempts: 5,
+    },
+    receiver: { port: 4020, secret: 'local-webhook-secret' },
+  },
+  outbox: {
+    sink: 'file',
+    file: { path: 'data/order-events.jsonl' },
+    broker: { url: 'http://localhost:4030', topic: 'order-events', port: 4030 },
+    timeoutMs: 5000,
+    batchSize: 100,
+    pollInterval: '1s',
+  },
+  api: { port: 3000 },
+};
+
+const STORAGE_DRIVERS: StorageDriver[] = ['memory', 'file'];
+const PAYMENT_PROVIDERS: PaymentProviderKind[] = ['simulated', 'http'];
+const RISK_ACTIONS: RiskAction[] = ['review', 'reject'];
+const EMAIL_TRANSPORTS: EmailTransport[] = ['log', 'smtp'];
+const GATEWAY_OUTCOMES: GatewayOutcome[] = [
+  'success',
+  'timeout',
+  'serverError',
+  'badRequest',
+  'unauthorized',
+];
+
+function readConfigFile(path: string, problems: string[]): DeepPartial<AppConfig> {
+  if (!existsSync(path)) {
+    problems.push(`CONFIG_FILE "${path}" does not exist`);
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    problems.push(`CONFIG_FILE "${path}" is not valid JSON: ${(err as Error).message}`);
+    return {};
+  }
+}
+
+function readEnv(env: NodeJS.ProcessEnv, problems: string[]): DeepPartial<AppConfig> {
+  function number(name: string): number | undefined {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (Number.isNaN(value)) {
+      problems.push(`${name} must be a number, got "${raw}"`);
+      return undefined;
+    }
+    return value;
+  }
+
+  function bool(name: string): boolean | undefined {
+    const raw = env[name];
+    return raw === undefined || raw === '' ? undefined : raw === 'true' || raw === '1';
+  }
+
+  return {
+    temporal: {
+      address: env.TEMPORAL_ADDRESS,
+      namespace: env.TEMPORAL_NAMESPACE,
+      taskQueue: env.TEMPORAL_TASK_QUEUE,
+      apiKey: env.TEMPORAL_API_KEY,
+      tls: {
+        enabled: bool('TEMPORAL_TLS'),
+        serverNameOverride: env.TEMPORAL_TLS_SERVER_NAME,
+        serverRootCACertPath: env.TEMPORAL_TLS_CA_PATH,
+        clientCertPath: env.TEMPORAL_TLS_CERT_PATH,
+        clientKeyPath: env.TEMPORAL_TLS_KEY_PATH,
+      },
+    },
+    worker: {
+      count: number('WORKER_COUNT'),
+      maxConcurrentActivityTaskExecutions: number('WORKER_MAX_CONCURRENT_ACTIVITIES'),
+      maxConcurrentWorkflowTaskExecutions: number('WORKER_MAX_CONCURRENT_WORKFLOW_TASKS'),
+    },
+    activities: {
+      scheduleToCloseTimeout: env.ACTIVITY_TIMEOUT as Duration | undefined,
+      retry: {
+        initialInterval: env.ACTIVITY_RETRY_INITIAL_INTERVAL as Duration | undefined,
+        backoffCoefficient: number('ACTIVITY_RETRY_BACKOFF'),
+        maximumInterval: env.ACTIVITY_RETRY_MAX_INTERVAL as Duration | undefined,
+        maximumAttempts: number('ACTIVITY_RETRY_MAX_ATTEMPTS'),
+      },
+    },
+    storage: {
+      driver: env.STORAGE_DRIVER as StorageDriver | undefined,
+      dataDir: env.STORAGE_DIR,
+    },
+    payments: {
+      provider: env.PAYMENT_PROVIDER as PaymentProviderKind | undefined,
+      simulator: { seed: env.PAYMENT_SIMULATOR_SEED },
+      http: {
+        baseUrl: env.PAYMENT_API_URL,
+        apiKey: env.PAYMENT_API_KEY,
+        timeoutMs: number('PAYMENT_API_TIMEOUT_MS'),
+      },
+      stub: { port: number('PAYMENT_STUB_PORT') },
+    },
+    pricing: {
+      currency: env.PRICING_CURRENCY,
+      defaultRegion: env.PRICING_DEFAULT_REGION,
+    },
+    risk: {
+      blocklist: { userIds: env.RISK_BLOCKLISTED_USERS?.split(',').filter(Boolean) },
+      velocity: {
+        maxOrders: number('RISK_VELOCITY_MAX_ORDERS'),
+        windowMinutes: number('RISK_VELOCITY_WINDOW_MINUTES'),
+      },
+    },
+    review: { timeout: env.REVIEW_TIMEOUT as Duration | undefined },
+    inventory: {
+      holdTtl: env.INVENTORY_HOLD_TTL as Duration | undefined,
+      sweepInterval: env.INVENTORY_SWEEP_INTERVAL as Duration | undefined,
+      lowStockThreshold: number('INVENTORY_LOW_STOCK_THRESHOLD'),
+      stockCheckInterval: env.INVENTORY_STOCK_CHECK_INTERVAL as Duration | undefined,
+    },
+    backorder: {
+      timeout: env.BACKORDER_TIMEOUT as Duration | undefined,
+      recheckInterval: env.BACKORDER_RECHECK_INTERVAL as Duration | undefined,
+    },
+    compensation: {
+      timeout: env.COMPENSATION_TIMEOUT as Duration | undefined,
+      retry: { maximumAttempts: number('COMPENSATION_MAX_ATTEMPTS') },
+      awaitOperator: bool('COMPENSATION_AWAIT_OPERATOR'),
+    },
+    notifications: {
+      emailTransport: env.NOTIFY_EMAIL_TRANSPORT as EmailTransport | undefined,
+      smtp: { host: env.SMTP_HOST, port: number('SMTP_PORT'), from: env.NOTIFY_EMAIL_FROM },
+      sms: { gatewayUrl: env.SMS_GATEWAY_URL, apiKey: env.SMS_API_KEY },
+      defaultLocale: env.NOTIFY_DEFAULT_LOCALE as Locale | undefined,
+      timeoutMs: number('NOTIFY_TIMEOUT_MS'),
+      opsUserId: env.NOTIFY_OPS_USER,
+    },
+    webhooks: {
+      // A single subscriber of every event, more can be listed in CONFIG_FILE
+      subscribers: env.WEBHOOK_URL
+        ? [
+            {
+              id: 'default',
+              url: env.WEBHOOK_URL,
+              secret: env.WEBHOOK_SECRET ?? '',
+              events: ORDER_EVENT_TYPES,
+            },
+          ]
+        : undefined,
+      timeoutMs: number('WEBHOOK_TIMEOUT_MS'),
+      retry: { maximumAttempts: number('WEBHOOK_MAX_ATTEMPTS') },
+      receiver: { port: number('WEBHOOK_RECEIVER_PORT'), secret: env.WEBHOOK_RECEIVER_SECRET },
+    },
+    outbox: {
+      sink: env.OUTBOX_SINK as OutboxSinkKind | undefined,
+      file: { path: env.OUTBOX_FILE },
+      broker: {
+        url: env.OUTBOX_BROKER_URL,
+        topic: env.OUTBOX_TOPIC,
+        port: number('BROKER_PORT'),
+      },
+      timeoutMs: number('OUTBOX_TIMEOUT_MS'),
+      batchSize: number('OUTBOX_BATCH_SIZE'),
+      pollInterval: env.OUTBOX_POLL_INTERVAL as Duration | undefined,
+    },
+    api: { port: number('API_PORT') },
+  };
+}
+
+// Merge `override` into `base`, ignoring undefined and empty values
+function merge<T>(base: T, override: DeepPartial<T> | undefined): T {
+  if (!override) {
+    return base;
+  }
+  const result = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined || value === '') {
+      continue;
+    }
+    const current = result[key];
+    result[key] =
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      typeof current === 'object'
+        ? merge(current, value as DeepPartial<typeof current>)
+        : value;
+  }
+  return result as T;
+}
+
+function validate(config: AppConfig, problems: string[]): void {
+  const {
+    temporal,
+    worker,
+    activities,
+    storage,
+    payments,
+    pricing,
+    exchangeRates,
+    risk,
+    review,
+    inventory,
+    backorder,
+    compensation,
+    notifications,
+    webhooks,
+    outbox,
+    api,
+  } = config;
+  const currencies = Object.keys(CURRENCY_DIGITS).join(', ');
+
+  if (!/^[^:\s]+:\d+$/.test(temporal.address)) {
+    problems.push(`temporal.address must be "host:port", got "${temporal.address}"`);
+  }
+  if (!temporal.namespace) {
+    problems.push('temporal.namespace must not be empty');
+  }
+  if (!temporal.taskQueue) {
+    problems.push('temporal.taskQueue must not be empty');
+  }
+
+  const { tls } = temporal;
+  if (Boolean(tls.clientCertPath) !== Boolean(tls.clientKeyPath)) {
+    problems.push('temporal.tls.clientCertPath and clientKeyPath must be set together');
+  }
+  for (const key of ['serverRootCACertPath', 'clientCertPath', 'clientKeyPath'] as const) {
+    const path = tls[key];
+    if (path && !existsSync(path)) {
+      problems.push(`temporal.tls.${key} "${path}" does not exist`);
+    }
+  }
+
+  for (const key of Object.keys(worker) as Array<keyof WorkerOptions>) {
+    if (!Number.isInteger(worker[key]) || worker[key] < 1) {
+      problems.push(`worker.${key} must be a positive integer, got ${worker[key]}`);
+    }
+  }
+
+  const durations = {
+    'activities.scheduleToCloseTimeout': activities.scheduleToCloseTimeout,
+    'activities.retry.initialInterval': activities.retry.initialInterval,
+    'activities.retry.maximumInterval': activities.retry.maximumInterval,
+    'review.timeout': review.timeout,
+    'inventory.holdTtl': inventory.holdTtl,
+    'inventory.sweepInterval': inventory.sweepInterval,
+    'inventory.stockCheckInterval': inventory.stockCheckInterval,
+    'backorder.timeout': backorder.timeout,
+    'backorder.recheckInterval': backorder.recheckInterval,
+    'compensation.timeout': compensation.timeout,
+    'compensation.retry.initialInterval': compensation.retry.initialInterval,
+    'compensation.retry.maximumInterval': compensation.retry.maximumInterval,
+    'webhooks.retry.initialInterval': webhooks.retry.initialInterval,
+    'webhooks.retry.maximumInterval': webhooks.retry.maximumInterval,
+    'outbox.pollInterval': outbox.pollInterval,
+  };
+  for (const [key, value] of Object.entries(durations)) {
+    if (typeof value !== 'number' && !DURATION_PATTERN.test(value)) {
+      problems.push(`${key} must be a duration such as "30s" or "500ms", got "${value}"`);
+    }
+  }
+  if (!(activities.retry.backoffCoefficient >= 1)) {
+    problems.push('activities.retry.backoffCoefficient must be >= 1');
+  }
+  if (!Number.isInteger(activities.retry.maximumAttempts) || activities.retry.maximumAttempts < 0) {
+    problems.push('activities.retry.maximumAttempts must be an integer >= 0 (0 = unlimited)');
+  }
+  if (!(compensation.retry.backoffCoefficient >= 1)) {
+    problems.push('compensation.retry.backoffCoefficient must be >= 1');
+  }
+  const { maximumAttempts: compensationAttempts } = compensation.retry;
+  if (!Number.isInteger(compensationAttempts) || compensationAttempts < 0) {
+    problems.push('compensation.retry.maximumAttempts must be an integer >= 0 (0 = unlimited)');
+  }
+
+  if (!STORAGE_DRIVERS.includes(storage.driver)) {
+    problems.push(
+      `storage.driver must be one of ${STORAGE_DRIVERS.join(', ')}, got "${storage.driver}"`
+    );
+  }
+
+  if (!PAYMENT_PROVIDERS.includes(payments.provider)) {
+    problems.push(
+      `payments.provider must be one of ${PAYMENT_PROVIDERS.join(', ')}, got "${payments.provider}"`
+    );
+  }
+  if (!URL.canParse(payments.http.baseUrl)) {
+    problems.push(`payments.http.baseUrl must be a URL, got "${payments.http.baseUrl}"`);
+  }
+  if (!Number.isInteger(payments.http.timeoutMs) || payments.http.timeoutMs < 1) {
+    problems.push('payments.http.timeoutMs must be a positive integer');
+  }
+  if (
+    !Number.isInteger(payments.stub.port) ||
+    payments.stub.port < 0 ||
+    payments.stub.port > 65535
+  ) {
+    problems.push(`payments.stub.port must be a port number, got ${payments.stub.port}`);
+  }
+  for (const [currency, limit] of Object.entries(payments.limits)) {
+    if (!isSupportedCurrency(currency)) {
+      problems.push(`payments.limits.${currency} must be one of ${currencies}`);
+    } else if (!Number.isInteger(limit) || limit < 1) {
+      problems.push(`payments.limits.${currency} must be a positive integer of minor units`);
+    }
+  }
+
+  if (!isSupportedCurrency(pricing.currency)) {
+    problems.push(`pricing.currency must be one of ${currencies}, got "${pricing.currency}"`);
+  } else if (exchangeRates.rates[pricing.currency] === undefined) {
+    problems.push(`pricing.currency "${pricing.currency}" has no entry in exchangeRates.rates`);
+  }
+  for (const [region, rate] of Object.entries(pricing.taxRates)) {
+    if (!(rate >= 0 && rate <= 1)) {
+      problems.push(`pricing.taxRates.${region} must be between 0 and 1`);
+    }
+  }
+  if (pricing.taxRates[pricing.defaultRegion] === undefined) {
+    problems.push(`pricing.defaultRegion "${pricing.defaultRegion}" has no entry in taxRates`);
+  }
+  // Fixed amounts, in minor units of pricing.currency
+  const pricingAmounts: Record<string, number | undefined> = {
+    'shipping.flatFee': pricing.shipping.flatFee,
+    'shipping.freeShippingThreshold': pricing.shipping.freeShippingThreshold,
+    ...Object.fromEntries(
+      Object.entries(pricing.coupons).flatMap(([code, { amountOff, minSubtotal }]) => [
+        [`coupons.${code}.amountOff`, amountOff],
+        [`coupons.${code}.minSubtotal`, minSubtotal],
+      ])
+    ),
+  };
+  for (const [key, amount] of Object.entries(pricingAmounts)) {
+    if (amount !== undefined && (!Number.isInteger(amount) || amount < 0)) {
+      problems.push(`pricing.${key} must be an integer >= 0 of minor units`);
+    }
+  }
+  const discounts = [
+    ...pricing.promotions.map((promotion) => [`promotions ${promotion.id}`, promotion] as const),
+    ...Object.entries(pricing.coupons).map(
+      ([code, coupon]) => [`coupons.${code}`, coupon] as const
+    ),
+  ];
+  for (const [key, { percentOff }] of discounts) {
+    if (percentOff !== undefined && !(percentOff > 0 && percentOff <= 100)) {
+      problems.push(`pricing.${key}.percentOff must be between 0 and 100`);
+    }
+  }
+  for (const code of Object.keys(pricing.coupons)) {
+    if (code !== code.toUpperCase()) {
+      problems.push(`pricing.coupons.${code} must be upper case`);
+    }
+  }
+
+  if (exchangeRates.rates[exchangeRates.base] !== 1) {
+    problems.push(`exchangeRates.rates.${exchangeRates.base} (the base currency) must be 1`);
+  }
+  for (const [currency, rate] of Object.entries(exchangeRates.rates)) {
+    if (!isSupportedCurrency(currency)) {
+      problems.push(`exchangeRates.rates.${currency} must be one of ${currencies}`);
+    } else if (!(rate > 0)) {
+      problems.push(`exchangeRates.rates.${currency} must be > 0`);
+    }
+  }
+
+  for (const [rule, { action }] of Object.entries(risk)) {
+    if (!RISK_ACTIONS.includes(action)) {
+      problems.push(`risk.${rule}.action must be one of ${RISK_ACTIONS.join(', ')}`);
+    }
+  }
+  for (const [itemId, cap] of Object.entries(risk.itemQuantityCaps.caps)) {
+    if (!Number.isInteger(cap) || cap < 1) {
+      problems.push(`risk.itemQuantityCaps.caps.${itemId} must be a positive integer`);
+    }
+  }
+  for (const key of ['maxOrders', 'windowMinutes'] as const) {
+    if (!Number.isInteger(risk.velocity[key]) || risk.velocity[key] < 1) {
+      problems.push(`risk.velocity.${key} must be a positive integer`);
+    }
+  }
+  const riskAmounts = {
+    'dailySpend.limits': risk.dailySpend.limits,
+    'highValue.thresholds': risk.highValue.thresholds,
+  };
+  for (const [key, amounts] of Object.entries(riskAmounts)) {
+    for (const [currency, amount] of Object.entries(amounts)) {
+      if (!isSupportedCurrency(currency)) {
+        problems.push(`risk.${key}.${currency} must be one of ${currencies}`);
+      } else if (!Number.isInteger(amount) || amount < 1) {
+        problems.push(`risk.${key}.${currency} must be a positive integer of minor units`);
+      }
+    }
+  }
+
+  const lowStockThresholds = {
+    lowStockThreshold: inventory.lowStockThreshold,
+    ...Object.fromEntries(
+      Object.entries(inventory.lowStockThresholds).map(([itemId, threshold]) => [
+        `lowStockThresholds.${itemId}`,
+        threshold,
+      ])
+    ),
+  };
+  for (const [key, threshold] of Object.entries(lowStockThresholds)) {
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      problems.push(`inventory.${key} must be an integer >= 0`);
+    }
+  }
+
+  if (!EMAIL_TRANSPORTS.includes(notifications.emailTransport)) {
+    problems.push(
+      `notifications.emailTransport must be one of ${EMAIL_TRANSPORTS.join(', ')}, got "${notifications.emailTransport}"`
+    );
+  }
+  const { smtp, sms } = notifications;
+  if (!smtp.host) {
+    problems.push('notifications.smtp.host must not be empty');
+  }
+  if (!Number.isInteger(smtp.port) || smtp.port < 1 || smtp.port > 65535) {
+    problems.push(`notifications.smtp.port must be a port number, got ${smtp.port}`);
+  }
+  if (!/^[^@\s]+@[^@\s]+$/.test(smtp.from)) {
+    problems.push(`notifications.smtp.from must be an email address, got "${smtp.from}"`);
+  }
+  if (sms.gatewayUrl !== undefined && !URL.canParse(sms.gatewayUrl)) {
+    problems.push(`notifications.sms.gatewayUrl must be a URL, got "${sms.gatewayUrl}"`);
+  }
+  if (!LOCALES.includes(notifications.defaultLocale)) {
+    problems.push(
+      `notifications.defaultLocale must be one of ${LOCALES.join(', ')}, got "${notifications.defaultLocale}"`
+    );
+  }
+  if (!Number.isInteger(notifications.timeoutMs) || notifications.timeoutMs < 1) {
+    problems.push('notifications.timeoutMs must be a positive integer');
+  }
+  if (!notifications.opsUserId) {
+    problems.push('notifications.opsUserId must not be empty');
+  }
+
+  const subscriberIds = new Set<string>();
+  for (const [index, subscriber] of webhooks.subscribers.entries()) {
+    const key = `webhooks.subscribers[${index}]`;
+    if (!subscriber.id) {
+      problems.push(`${key}.id must not be empty`);
+    } else if (subscriberIds.has(subscriber.id)) {
+      problems.push(`${key}.id "${subscriber.id}" is used by another subscriber`);
+    }
+    subscriberIds.add(subscriber.id);
+    if (!URL.canParse(subscriber.url)) {
+      problems.push(`${key}.url must be a URL, got "${subscriber.url}"`);
+    }
+    if (!subscriber.secret) {
+      problems.push(`${key}.secret must not be empty (WEBHOOK_SECRET)`);
+    }
+    const unknown = (subscriber.events ?? []).filter((type) => !ORDER_EVENT_TYPES.includes(type));
+    if (!subscriber.events?.length || unknown.length > 0) {
+      problems.push(`${key}.events must list some of ${ORDER_EVENT_TYPES.join(', ')}`);
+    }
+  }
+  if (!Number.isInteger(webhooks.timeoutMs) || webhooks.timeoutMs < 1) {
+    problems.push('webhooks.timeoutMs must be a positive integer');
+  }
+  if (!(webhooks.retry.backoffCoefficient >= 1)) {
+    problems.push('webhooks.retry.backoffCoefficient must be >= 1');
+  }
+  if (!Number.isInteger(webhooks.retry.maximumAttempts) || webhooks.retry.maximumAttempts < 1) {
+    problems.push('webhooks.retry.maximumAttempts must be a positive integer');
+  }
+  const { receiver } = webhooks;
+  if (!Number.isInteger(receiver.port) || receiver.port < 0 || receiver.port > 65535) {
+    problems.push(`webhooks.receiver.port must be a port number, got ${receiver.port}`);
+  }
+
+  if (outbox.sink !== 'file' && outbox.sink !== 'broker') {
+    problems.push(`outbox.sink must be "file" or "broker", got "${outbox.sink}"`);
+  }
+  if (!outbox.file.path) {
+    problems.push('outbox.file.path must not be empty');
+  }
+  if (!URL.canParse(outbox.broker.url)) {
+    problems.push(`outbox.broker.url must be a URL, got "${outbox.broker.url}"`);
+  }
+  if (!outbox.broker.topic) {
+    problems.push('outbox.broker.topic must not be empty');
+  }
+  const { port: brokerPort } = outbox.broker;
+  if (!Number.isInteger(brokerPort) || brokerPort < 0 || brokerPort > 65535) {
+    problems.push(`outbox.broker.port must be a port number, got ${brokerPort}`);
+  }
+  for (const key of ['timeoutMs', 'batchSize'] as const) {
+    if (!Number.isInteger(outbox[key]) || outbox[key] < 1) {
+      problems.push(`outbox.${key} must be a positive integer, got ${outbox[key]}`);
+    }
+  }
+
+  if (!Number.isInteger(api.port) || api.port < 0 || api.port > 65535) {
+    problems.push(`api.port must be a port number, got ${api.port}`);
+  }
+
+  const { simulator } = payments;
+  const failureProbabilities = Object.entries(simulator.probabilities);
+  for (const [outcome, probability] of failureProbabilities) {
+    if (!(probability >= 0 && probability <= 1)) {
+      problems.push(`payments.simulator.probabilities.${outcome} must be between 0 and 1`);
+    }
+  }
+  if (failureProbabilities.reduce((sum, [, probability]) => sum + probability, 0) > 1) {
+    problems.push('payments.simulator.probabilities must add up to at most 1');
+  }
+  for (const [index, rule] of simulator.forcedOutcomes.entries()) {
+    if (!GATEWAY_OUTCOMES.includes(rule.outcome)) {
+      problems.push(
+        `payments.simulator.forcedOutcomes[${index}].outcome must be one of ${GATEWAY_OUTCOMES.join(', ')}`
+      );
+    }
+    const { amount } = rule.match;
+    if (amount !== undefined && (!Number.isInteger(amount) || amount < 1)) {
+      problems.push(
+        `payments.simulator.forcedOutcomes[${index}].match.amount must be a positive integer of minor units`
+      );
+    }
+  }
+  if (!(simulator.latencyMs.min >= 0 && simulator.latencyMs.min <= simulator.latencyMs.max)) {
+    problems.push('payments.simulator.latencyMs must satisfy 0 <= min <= max');
+  }
+}
+
+let cachedConfig: AppConfig | undefined;
+
+/**
+ * Load and validate the configuration (cached for the lifetime of the process)
+ * @throws ConfigError listing every invalid setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  if (cachedConfig && env === process.env) {
+    return cachedConfig;
+  }
+
+  const problems: string[] = [];
+  const fromFile = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, problems) : {};
+  const config = merge(merge(DEFAULT_CONFIG, fromFile), readEnv(env, problems));
+
+  validate(config, problems);
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  if (env === process.env) {
+    cachedConfig = config;
+  }
+  return config;
+}
+
+/**
+ * Second argument of orderWorkflow, so the timeouts are recorded in the workflow history
+ */
+export function orderWorkflowOptions(config: AppConfig): OrderWorkflowOptions {
+  return {
+    activities: config.activities,
+    reviewTimeout: config.review.timeout,
+    backorder: config.backorder,
+    compensation: config.compensation,
+    webhooks:
+      config.webhooks.subscribers.length > 0
+        ? {
+            subscriptions: config.webhooks.subscribers.map(({ id, events }) => ({
+              subscriberId: id,
+              events,
+            })),
+            // Longer than the request, so a slow subscriber fails with a retryable delivery error
+            timeout: config.webhooks.timeoutMs + 5000,
+            retry: config.webhooks.retry,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Second argument of inventoryWorkflow for a product, with its own low-stock threshold if any
+ */
+export function inventoryWorkflowOptions(
+  config: AppConfig,
+  itemId: string
+): InventoryWorkflowOptions {
+  const { lowStockThreshold, lowStockThresholds, stockCheckInterval } = config.inventory;
+  return {
+    lowStockThreshold: lowStockThresholds[itemId] ?? lowStockThreshold,
+    stockCheckInterval,
+  };
+}
+
+/**
+ * Connection options for Connection.connect (client) and NativeConnection.connect (worker)
+ */
+export function connectionOptions(temporal: TemporalOptions): {
+  address: string;
+  tls?: TLSConfig | boolean;
+  apiKey?: string;
+} {
+  const { tls } = temporal;
+  const useTls = tls.enabled || Boolean(tls.clientCertPath || tls.serverRootCACertPath);
+
+  return {
+    address: temporal.address,
+    apiKey: temporal.apiKey,
+    tls: useTls
+      ? {
+          serverNameOverride: tls.serverNameOverride,
+          serverRootCACertificate: tls.serverRootCACertPath
+            ? readFileSync(tls.serverRootCACertPath)
+            : undefined,
+          clientCertPair:
+            tls.clientCertPath && tls.clientKeyPath
+              ? { crt: readFileSync(tls.clientCertPath), key: readFileSync(tls.clientKeyPath) }
+              : undefined,
+        }
+      : undefined,
+  };
+}
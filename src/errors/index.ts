@@ -0,0 +1,302 @@
+import { ApplicationFailure, type Duration } from '@temporalio/common';
+import { type Money, formatMoney } from '../money/index.js';
+import { formatRiskMatches } from '../risk/index.js';
+import type { InventoryShortage, NotificationDelivery, RiskRuleMatch } from '../types/index.js';
+import { type OrderViolation, formatViolations } from '../validation/index.js';
+
+/**
+ * Error taxonomy for the order service
+ * Errors are raised as ApplicationFailures so the failure `type` survives serialization
+ * and can be used as a machine-readable error code by the workflow and its callers
+ */
+
+export type PaymentErrorType =
+  | 'PaymentValidationError'
+  | 'PaymentAuthError'
+  | 'PaymentDeclinedError'
+  | 'PaymentNotFoundError'
+  | 'AmountLimitExceededError'
+  | 'GatewayTimeoutError'
+  | 'GatewayServerError';
+
+export type OrderErrorType =
+  | 'InvalidOrderError'
+  | 'InvalidCouponError'
+  | 'UnsupportedRegionError'
+  | 'UnsupportedCurrencyError'
+  | 'RiskRejectedError'
+  | 'ReviewRejectedError'
+  | 'ReviewExpiredError'
+  | 'InsufficientInventoryError'
+  | 'ReservationExpiredError'
+  | 'BackorderExpiredError'
+  | 'OrderCancelledError'
+  | 'NotificationFailedError'
+  | 'SagaStepTimeoutError'
+  | 'SagaCompensationError';
+
+export type ErrorCode = PaymentErrorType | OrderErrorType;
+
+/**
+ * Base class for payment failures, only instantiated through its subclasses
+ */
+export class PaymentError extends ApplicationFailure {
+  protected constructor(
+    message: string,
+    type: PaymentErrorType,
+    nonRetryable: boolean,
+    details?: unknown[]
+  ) {
+    super(message, type, nonRetryable, details);
+  }
+}
+
+/**
+ * Client error 400: the request was rejected by the gateway (no retry)
+ */
+export class PaymentValidationError extends PaymentError {
+  constructor(message = 'Invalid request format (400 Bad Request)') {
+    super(message, 'PaymentValidationError', true);
+  }
+}
+
+/**
+ * Client error 401: the gateway rejected our credentials (no retry)
+ */
+export class PaymentAuthError extends PaymentError {
+  constructor(message = 'Invalid API credentials (401 Unauthorized)') {
+    super(message, 'PaymentAuthError', true);
+  }
+}
+
+/**
+ * Client error 402: the payment method was declined (no retry)
+ */
+export class PaymentDeclinedError extends PaymentError {
+  constructor(message = 'Payment declined (402 Payment Required)') {
+    super(message, 'PaymentDeclinedError', true);
+  }
+}
+
+/**
+ * Client error 404: the gateway does not know the authorization or payment (no retry)
+ */
+export class PaymentNotFoundError extends PaymentError {
+  constructor(message = 'Payment not found (404 Not Found)') {
+    super(message, 'PaymentNotFoundError', true);
+  }
+}
+
+/**
+ * Business rule: the amount is above the allowed limit (no retry)
+ */
+export class AmountLimitExceededError extends PaymentError {
+  constructor(amount: Money, limit: Money) {
+    super(
+      `Amount ${formatMoney(amount)} exceeds limit of ${formatMoney(limit)}`,
+      'AmountLimitExceededError',
+      true,
+      [{ amount, limit }]
+    );
+  }
+}
+
+/**
+ * Transient: the gateway did not answer in time (retried by Temporal)
+ */
+export class GatewayTimeoutError extends PaymentError {
+  constructor(message = 'Payment API timeout - network connection failed') {
+    super(message, 'GatewayTimeoutError', false);
+  }
+}
+
+/**
+ * Transient: the gateway answered with a 5xx (retried by Temporal)
+ */
+export class GatewayServerError extends PaymentError {
+  constructor(message = 'Payment API server error 500 - Internal server error') {
+    super(message, 'GatewayServerError', false);
+  }
+}
+
+/**
+ * The order failed validation before the saga started (no retry)
+ * Every violation is listed in the message and in details[0].violations
+ */
+export class InvalidOrderError extends ApplicationFailure {
+  constructor(violations: OrderViolation[]) {
+    super(`Invalid order: ${formatViolations(violations)}`, 'InvalidOrderError', true, [
+      { violations },
+    ]);
+  }
+}
+
+/**
+ * Pricing: the coupon does not exist or its conditions are not met (no retry)
+ */
+export class InvalidCouponError extends ApplicationFailure {
+  constructor(code: string, reason: string) {
+    super(`Coupon ${code}: ${reason}`, 'InvalidCouponError', true, [{ code }]);
+  }
+}
+
+/**
+ * Pricing: no tax rate is configured for the order's region (no retry)
+ */
+export class UnsupportedRegionError extends ApplicationFailure {
+  constructor(region: string) {
+    super(`No tax rate configured for region ${region}`, 'UnsupportedRegionError', true, [
+      { region },
+    ]);
+  }
+}
+
+/**
+ * The order currency has no exchange rate or payment limit configured (no retry)
+ */
+export class UnsupportedCurrencyError extends ApplicationFailure {
+  constructor(currency: string, reason: string) {
+    super(`Currency ${currency} is not supported: ${reason}`, 'UnsupportedCurrencyError', true, [
+      { currency },
+    ]);
+  }
+}
+
+/**
+ * The risk check rejected the order (no retry)
+ * The matched rules are listed in the message and in details[0].matchedRules
+ */
+export class RiskRejectedError extends ApplicationFailure {
+  constructor(matchedRules: RiskRuleMatch[]) {
+    super(
+      `Order rejected by the risk check: ${formatRiskMatches(matchedRules)}`,
+      'RiskRejectedError',
+      true,
+      [{ matchedRules }]
+    );
+  }
+}
+
+/**
+ * An operator rejected the order during its manual review (no retry)
+ */
+export class ReviewRejectedError extends ApplicationFailure {
+  constructor(reviewer: string, note?: string) {
+    super(
+      `Order rejected in manual review by ${reviewer}${note ? `: ${note}` : ''}`,
+      'ReviewRejectedError',
+      true,
+      [{ reviewer, note }]
+    );
+  }
+}
+
+/**
+ * Nobody reviewed the order in time, it is rejected (no retry)
+ */
+export class ReviewExpiredError extends ApplicationFailure {
+  constructor(timeout: Duration) {
+    super(`Manual review not completed within ${timeout}`, 'ReviewExpiredError', true, [
+      { timeout },
+    ]);
+  }
+}
+
+/**
+ * The inventory held for the order expired and was released by the sweeper before the
+ * payment was captured (no retry)
+ */
+export class ReservationExpiredError extends ApplicationFailure {
+  constructor(orderId: string) {
+    super(
+      `Inventory reservation of order ${orderId} expired before the payment was captured`,
+      'ReservationExpiredError',
+      true,
+      [{ orderId }]
+    );
+  }
+}
+
+/**
+ * The missing items of a backordered order were not restocked in time (no retry)
+ */
+export class BackorderExpiredError extends ApplicationFailure {
+  constructor(shortages: InventoryShortage[], timeout: Duration) {
+    super(
+      `Items not restocked within ${timeout}: ${shortages.map(({ itemId }) => itemId).join(', ')}`,
+      'BackorderExpiredError',
+      true,
+      [{ shortages }]
+    );
+  }
+}
+
+/**
+ * A webhook subscriber did not accept a delivery
+ * Retried for network errors, timeouts, 408, 429 and 5xx; other answers are not retried and
+ * the delivery goes straight to the dead-letter records
+ */
+export class WebhookDeliveryError extends ApplicationFailure {
+  constructor(subscriberId: string, reason: string, nonRetryable: boolean) {
+    super(
+      `Webhook delivery to ${subscriberId} failed: ${reason}`,
+      'WebhookDeliveryError',
+      nonRetryable,
+      [{ subscriberId }]
+    );
+  }
+}
+
+/**
+ * A notification channel the user opted into failed (retried)
+ * The deliveries of every channel are in details[0].deliveries; a retry only sends the failed
+ * channels again
+ */
+export class NotificationFailedError extends ApplicationFailure {
+  constructor(deliveries: NotificationDelivery[]) {
+    const failed = deliveries.filter(({ status }) => status === 'failed');
+    super(
+      `Notification failed: ${failed.map(({ channel, error }) => `${channel} (${error})`).join(', ')}`,
+      'NotificationFailedError',
+      false,
+      [{ deliveries }]
+    );
+  }
+}
+
+/**
+ * A saga step or compensation did not finish within its own timeout (no retry)
+ */
+export class SagaStepTimeoutError extends ApplicationFailure {
+  constructor(step: string, timeout: Duration) {
+    super(`Saga step ${step} did not finish within ${timeout}`, 'SagaStepTimeoutError', true, [
+      { step, timeout },
+    ]);
+  }
+}
+
+/**
+ * A fail-fast saga stopped compensating at a failed compensation (no retry)
+ * The compensations after it were not run and are still pending on the saga
+ */
+export class SagaCompensationError extends ApplicationFailure {
+  constructor(failed: Array<{ step: string; message: string }>) {
+    super(
+      `Compensation failed: ${failed.map(({ step, message }) => `${step} (${message})`).join(', ')}`,
+      'SagaCompensationError',
+      true,
+      [{ failed }]
+    );
+  }
+}
+
+/**
+ * Payment error types that must never be retried, for the activity retry policy
+ */
+export const NON_RETRYABLE_PAYMENT_ERRORS: PaymentErrorType[] = [
+  'PaymentValidationError',
+  'PaymentAuthError',
+  'PaymentDeclinedError',
+  'PaymentNotFoundError',
+  'AmountLimitExceededError',
+];
@@ -0,0 +1,81 @@
+import { userInfo } from 'node:os';
+import { Client, Connection } from '@temporalio/client';
+import { ApiError } from './api/errors.js';
+import { InventoryService } from './api/inventory.js';
+import { connectionOptions, loadConfig } from './config/index.js';
+
+/**
+ * Manage stock from the command line, through the inventory workflow of each product
+ *
+ *   npm run inventory -- watch <itemId...>
+ *   npm run inventory -- stock <itemId...>
+ *   npm run inventory -- restock <itemId> <quantity> [name]
+ *   npm run inventory -- adjust <itemId> <delta> <reason>
+ *
+ * Changes are signed with OPERATOR, or the OS user name when it is not set
+ */
+
+const USAGE =
+  'Usage: npm run inventory -- watch <itemId...> | stock <itemId...> | ' +
+  'restock <itemId> <quantity> [name] | adjust <itemId> <delta> <reason>';
+
+async function run(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
+  const client = new Client({ connection, namespace: config.temporal.namespace });
+  const inventory = new InventoryService(client, config);
+  const requestedBy = process.env.OPERATOR || userInfo().username;
+  const [itemId, amount, ...words] = args;
+
+  try {
+    if (command === 'watch' && args.length > 0) {
+      for (const id of args) {
+        const { workflowId } = await inventory.watch(id);
+        console.log(`👀 Watching ${id} (${workflowId})`);
+      }
+    } else if (command === 'stock' && args.length > 0) {
+      for (const id of args) {
+        const { stock, lowStock, lowStockThreshold, pendingChanges, lastChange } =
+          await inventory.get(id);
+        if (!stock) {
+          console.log(`${id}  unknown product`);
+          continue;
+        }
+        const low = lowStock ? `  📉 low (threshold ${lowStockThreshold})` : '';
+        console.log(
+          `${id}  ${stock.name}  available=${stock.available}  reserved=${stock.reserved}${low}`
+        );
+        if (pendingChanges.length > 0) {
+          console.log(`   ${pendingChanges.length} change(s) pending`);
+        }
+        if (lastChange) {
+          console.log(
+            `   last ${lastChange.type} at ${lastChange.appliedAt}: ${lastChange.message}`
+          );
+        }
+      }
+    } else if (command === 'restock' && itemId && amount) {
+      const name = words.join(' ') || undefined;
+      await inventory.restock(itemId, { quantity: Number(amount), name, requestedBy });
+      console.log(`✅ Restock of ${amount} × ${itemId} queued`);
+    } else if (command === 'adjust' && itemId && amount && words.length > 0) {
+      await inventory.adjust(itemId, {
+        delta: Number(amount),
+        reason: words.join(' '),
+        requestedBy,
+      });
+      console.log(`✅ Adjustment of ${amount} × ${itemId} queued`);
+    } else {
+      console.error(USAGE);
+      process.exitCode = 1;
+    }
+  } finally {
+    await connection.close();
+  }
+}
+
+run().catch((err) => {
+  console.error(`❌ ${err instanceof ApiError ? err.message : err}`);
+  process.exit(1);
+});
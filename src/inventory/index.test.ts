@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fromMajor } from '../money/index.js';
+import type { InventoryItem, OrderItem } from '../types/index.js';
+import {
+  applyStockChange,
+  commitHold,
+  findExpiredHolds,
+  fulfilledItems,
+  holdsOf,
+  isLowStock,
+  placeHold,
+  planReservation,
+  reconcileReserved,
+  releaseHold,
+  settleHold,
+  stockLevel,
+} from './index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2024-06-01T12:00:00Z');
+
+function stock(): Record<string, InventoryItem> {
+  return {
+    'item-1': { name: 'Product 1', quantity: 10 },
+    'item-2': { name: 'Product 2', quantity: 5 },
+  };
+}
+
+describe('inventory holds', () => {
+  it('moves held stock into reserved with an expiry per order', () => {
+    const stockByItem = stock();
+
+    placeHold(stockByItem['item-1'], 'order-1', 2, now, HOUR_MS);
+    placeHold(stockByItem['item-1'], 'order-1', 1, now, HOUR_MS);
+    placeHold(stockByItem['item-2'], 'order-2', 4, now, HOUR_MS);
+
+    assert.deepEqual(stockByItem['item-1'], {
+      name: 'Product 1',
+      quantity: 7,
+      reserved: 3,
+      holds: {
+        'order-1': {
+          quantity: 3,
+          reservedAt: '2024-06-01T12:00:00.000Z',
+          expiresAt: '2024-06-01T13:00:00.000Z',
+        },
+      },
+    });
+    assert.deepEqual(holdsOf(stockByItem, 'order-2'), [{ itemId: 'item-2', quantity: 4 }]);
+  });
+
+  it('returns released stock but not settled stock', () => {
+    const stockByItem = stock();
+    placeHold(stockByItem['item-1'], 'order-1', 2, now, HOUR_MS);
+    placeHold(stockByItem['item-1'], 'order-2', 3, now, HOUR_MS);
+
+    assert.equal(releaseHold(stockByItem['item-1'], 'order-1'), 2);
+    assert.equal(commitHold(stockByItem['item-1'], 'order-2', now), 3);
+    assert.equal(stockByItem['item-1'].holds?.['order-2'].committedAt, now.toISOString());
+    assert.equal(settleHold(stockByItem['item-1'], 'order-2'), 3);
+    assert.equal(releaseHold(stockByItem['item-1'], 'order-1'), 0);
+    assert.equal(commitHold(stockByItem['item-1'], 'order-1', now), 0);
+
+    assert.equal(stockByItem['item-1'].quantity, 7);
+    assert.equal(stockByItem['item-1'].reserved, 0);
+    assert.deepEqual(stockByItem['item-1'].holds, {});
+  });
+
+  it('finds the holds expired at a given time, oldest first', () => {
+    const stockByItem = stock();
+    placeHold(stockByItem['item-1'], 'order-1', 1, now, 2 * HOUR_MS);
+    placeHold(stockByItem['item-2'], 'order-2', 1, now, HOUR_MS);
+    placeHold(stockByItem['item-2'], 'order-3', 1, now, 3 * HOUR_MS);
+
+    const expired = findExpiredHolds(stockByItem, new Date(now.getTime() + 2 * HOUR_MS));
+
+    assert.deepEqual(
+      expired.map(({ orderId, itemId }) => [orderId, itemId]),
+      [
+        ['order-2', 'item-2'],
+        ['order-1', 'item-1'],
+      ]
+    );
+  });
+
+  it('repairs a reserved count that drifted from the holds', () => {
+    const item: InventoryItem = { name: 'Product 1', quantity: 4, reserved: 9 };
+    placeHold(item, 'order-1', 2, now, HOUR_MS);
+
+    assert.equal(reconcileReserved(item), true);
+    assert.equal(item.reserved, 2);
+    assert.equal(reconcileReserved(item), false);
+  });
+});
+
+describe('fulfillment', () => {
+  const requested = [
+    { itemId: 'item-1', quantity: 4 },
+    { itemId: 'item-2', quantity: 8 },
+  ];
+
+  it('holds nothing when a line is short, unless the policy is partial', () => {
+    const shortages = [{ itemId: 'item-2', quantity: 8, available: 5 }];
+
+    assert.deepEqual(planReservation(stock(), requested, 'all-or-nothing'), {
+      hold: [],
+      shortages,
+    });
+    assert.deepEqual(planReservation(stock(), requested, 'backorder').hold, []);
+    assert.deepEqual(planReservation(stock(), requested, 'partial'), {
+      hold: [
+        { itemId: 'item-1', quantity: 4 },
+        { itemId: 'item-2', quantity: 5 },
+      ],
+      shortages,
+    });
+  });
+
+  it('serves the lines of an order from the held quantities, in order', () => {
+    const price = fromMajor(10, 'USD');
+    const items: OrderItem[] = [
+      { itemId: 'item-1', name: 'Product 1', quantity: 2, price },
+      { itemId: 'item-2', name: 'Product 2', quantity: 3, price },
+      { itemId: 'item-1', name: 'Product 1 (gift)', quantity: 2, price },
+    ];
+
+    assert.deepEqual(fulfilledItems(items, [{ itemId: 'item-1', quantity: 3 }]), [
+      { itemId: 'item-1', name: 'Product 1', quantity: 2, price },
+      { itemId: 'item-1', name: 'Product 1 (gift)', quantity: 1, price },
+    ]);
+  });
+});
+
+describe('stock changes', () => {
+  it('restocks a product, adding it when it is new', () => {
+    const stockByItem = stock();
+
+    applyStockChange(stockByItem, 'item-1', { changeId: 'c1', type: 'restock', quantity: 5 });
+    applyStockChange(stockByItem, 'item-9', {
+      changeId: 'c2',
+      type: 'restock',
+      quantity: 3,
+      name: 'Product 9',
+    });
+
+    assert.equal(stockByItem['item-1'].quantity, 15);
+    assert.deepEqual(stockByItem['item-9'], { name: 'Product 9', quantity: 3 });
+  });
+
+  it('never adjusts away units held for orders', () => {
+    const stockByItem = stock();
+    placeHold(stockByItem['item-2'], 'order-1', 4, now, HOUR_MS);
+
+    const rejected = applyStockChange(stockByItem, 'item-2', {
+      changeId: 'c1',
+      type: 'adjust',
+      delta: -2,
+      reason: 'Damaged',
+    });
+    applyStockChange(stockByItem, 'item-2', {
+      changeId: 'c2',
+      type: 'adjust',
+      delta: -1,
+      reason: 'Damaged',
+    });
+
+    assert.equal(rejected, 'Cannot remove 2 × item-2, only 1 available');
+    assert.deepEqual(stockLevel('item-2', stockByItem['item-2']), {
+      itemId: 'item-2',
+      name: 'Product 2',
+      available: 0,
+      reserved: 4,
+    });
+    assert.equal(isLowStock(stockLevel('item-2', stockByItem['item-2']), 0), true);
+  });
+
+  it('rejects invalid quantities and adjustments of unknown products', () => {
+    const stockByItem = stock();
+
+    assert.match(
+      applyStockChange(stockByItem, 'item-1', { changeId: 'c1', type: 'restock', quantity: 1.5 }) ??
+        '',
+      /positive integer/
+    );
+    assert.equal(
+      applyStockChange(stockByItem, 'item-9', {
+        changeId: 'c2',
+        type: 'adjust',
+        delta: 2,
+        reason: 'Count',
+      }),
+      'Unknown product item-9'
+    );
+    assert.deepEqual(stockByItem, stock());
+  });
+});
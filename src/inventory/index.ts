@@ -0,0 +1,225 @@
+import type {
+  ExpiredHold,
+  FulfillmentPolicy,
+  InventoryItem,
+  InventoryShortage,
+  OrderItem,
+  ReservationLine,
+  StockChange,
+  StockLevel,
+} from '../types/index.js';
+
+/**
+ * Per-order stock holds
+ *
+ * reserveInventory moves stock from `quantity` into a hold of the order that expires after
+ * the hold TTL. The hold then ends in one of three ways:
+ * - committed when the payment capture starts, in the transaction that checks it is still
+ *   held, then settled once the order completed: the stock is sold and leaves `reserved`
+ * - released by the order's compensation: the stock goes back to `quantity`, also from a
+ *   committed hold whose capture failed
+ * - released by the sweeper once expired, if the order never completed (stuck or terminated
+ *   workflow) and its capture never started: the stock goes back to `quantity`
+ *
+ * The functions mutate the stock records they are given, call them inside an inventory
+ * transaction. `reserved` is kept equal to the sum of the holds; reconcileReserved repairs it.
+ * Free of Node.js APIs so the workflow can compute fulfilled items.
+ */
+
+/**
+ * Quantities to hold for the requested lines (one per product) under the fulfillment policy
+ * all-or-nothing and backorder hold nothing when a line is short, partial holds what is
+ * available
+ */
+export function planReservation(
+  stockByItem: Record<string, InventoryItem>,
+  requested: ReservationLine[],
+  policy: FulfillmentPolicy
+): { hold: ReservationLine[]; shortages: InventoryShortage[] } {
+  const available = (itemId: string) => Math.max(0, stockByItem[itemId]?.quantity ?? 0);
+  const shortages = requested
+    .map((line) => ({ ...line, available: available(line.itemId) }))
+    .filter((line) => line.available < line.quantity);
+  if (shortages.length > 0 && policy !== 'partial') {
+    return { hold: [], shortages };
+  }
+  const hold = requested
+    .map(({ itemId, quantity }) => ({ itemId, quantity: Math.min(quantity, available(itemId)) }))
+    .filter((line) => line.quantity > 0);
+  return { hold, shortages };
+}
+
+/**
+ * Order lines covered by the held quantities; lines of the same product are served in order
+ * and lines left with nothing are dropped
+ */
+export function fulfilledItems(items: OrderItem[], reserved: ReservationLine[]): OrderItem[] {
+  const remaining = new Map(reserved.map(({ itemId, quantity }) => [itemId, quantity]));
+  return items.flatMap((item) => {
+    const held = remaining.get(item.itemId) ?? 0;
+    const quantity = Math.min(item.quantity, held);
+    remaining.set(item.itemId, held - quantity);
+    return quantity > 0 ? [{ ...item, quantity }] : [];
+  });
+}
+
+/**
+ * Hold `quantity` units for the order, on top of what it already holds; the expiry restarts
+ */
+export function placeHold(
+  stock: InventoryItem,
+  orderId: string,
+  quantity: number,
+  now: Date,
+  ttlMs: number
+): void {
+  const previous = stock.holds?.[orderId]?.quantity ?? 0;
+  stock.quantity -= quantity;
+  stock.reserved = (stock.reserved ?? 0) + quantity;
+  stock.holds = {
+    ...stock.holds,
+    [orderId]: {
+      quantity: previous + quantity,
+      reservedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    },
+  };
+}
+
+// Remove the hold of the order, returning its quantity (0 when it holds nothing)
+function removeHold(stock: InventoryItem, orderId: string): number {
+  const quantity = stock.holds?.[orderId]?.quantity ?? 0;
+  if (quantity === 0) {
+    return 0;
+  }
+  const { [orderId]: _removed, ...holds } = stock.holds ?? {};
+  stock.holds = holds;
+  stock.reserved = Math.max(0, (stock.reserved ?? 0) - quantity);
+  return quantity;
+}
+
+/**
+ * Return the stock held by the order to the available quantity
+ * @returns the released quantity, 0 when the order holds nothing
+ */
+export function releaseHold(stock: InventoryItem, orderId: string): number {
+  const quantity = removeHold(stock, orderId);
+  stock.quantity += quantity;
+  return quantity;
+}
+
+/**
+ * Commit the hold to the order before its payment is captured, the sweeper no longer
+ * releases it even once expired
+ * @returns the committed quantity, 0 when the order holds nothing
+ */
+export function commitHold(stock: InventoryItem, orderId: string, now: Date): number {
+  const hold = stock.holds?.[orderId];
+  if (!hold) {
+    return 0;
+  }
+  hold.committedAt ??= now.toISOString();
+  return hold.quantity;
+}
+
+/**
+ * Drop the hold of a completed order: the stock is sold, it leaves `reserved` for good
+ * @returns the settled quantity, 0 when the order holds nothing
+ */
+export function settleHold(stock: InventoryItem, orderId: string): number {
+  return removeHold(stock, orderId);
+}
+
+/**
+ * Lines currently held by the order
+ */
+export function holdsOf(
+  stockByItem: Record<string, InventoryItem>,
+  orderId: string
+): ReservationLine[] {
+  return Object.entries(stockByItem).flatMap(([itemId, stock]) => {
+    const hold = stock.holds?.[orderId];
+    return hold ? [{ itemId, quantity: hold.quantity }] : [];
+  });
+}
+
+/**
+ * Holds whose expiry is at or before `now`, oldest first
+ */
+export function findExpiredHolds(
+  stockByItem: Record<string, InventoryItem>,
+  now: Date
+): ExpiredHold[] {
+  return Object.entries(stockByItem)
+    .flatMap(([itemId, stock]) =>
+      Object.entries(stock.holds ?? {}).map(([orderId, { quantity, expiresAt }]) => ({
+        itemId,
+        orderId,
+        quantity,
+        expiresAt,
+      }))
+    )
+    .filter(({ expiresAt }) => Date.parse(expiresAt) <= now.getTime())
+    .sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt));
+}
+
+/**
+ * Set `reserved` to the sum of the holds
+ * @returns true when it was out of sync
+ */
+export function reconcileReserved(stock: InventoryItem): boolean {
+  const held = Object.values(stock.holds ?? {}).reduce((sum, hold) => sum + hold.quantity, 0);
+  if ((stock.reserved ?? 0) === held) {
+    return false;
+  }
+  stock.reserved = held;
+  return true;
+}
+
+/**
+ * Apply an operator change to the stock of a product; a restock of an unknown product adds it
+ * Adjustments only touch the available quantity, the units held for orders are theirs
+ * @returns why the change was rejected, undefined once it is applied
+ */
+export function applyStockChange(
+  stockByItem: Record<string, InventoryItem>,
+  itemId: string,
+  change: StockChange
+): string | undefined {
+  const stock = stockByItem[itemId];
+  if (change.type === 'restock') {
+    if (!Number.isInteger(change.quantity) || change.quantity < 1) {
+      return `Restock quantity must be a positive integer, got ${change.quantity}`;
+    }
+    if (!stock) {
+      stockByItem[itemId] = { name: change.name || itemId, quantity: change.quantity };
+      return undefined;
+    }
+    stock.quantity += change.quantity;
+    stock.name = change.name || stock.name;
+    return undefined;
+  }
+
+  if (!Number.isInteger(change.delta) || change.delta === 0) {
+    return `Adjustment must be a non-zero integer, got ${change.delta}`;
+  }
+  if (!stock) {
+    return `Unknown product ${itemId}`;
+  }
+  if (stock.quantity + change.delta < 0) {
+    return `Cannot remove ${-change.delta} × ${itemId}, only ${stock.quantity} available`;
+  }
+  stock.quantity += change.delta;
+  return undefined;
+}
+
+/**
+ * Available and reserved quantities of a product
+ */
+export function stockLevel(itemId: string, stock: InventoryItem): StockLevel {
+  return { itemId, name: stock.name, available: stock.quantity, reserved: stock.reserved ?? 0 };
+}
+
+export function isLowStock(stock: StockLevel, threshold: number): boolean {
+  return stock.available <= threshold;
+}
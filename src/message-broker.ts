@@ -0,0 +1,28 @@
+import { loadConfig } from './config/index.js';
+import { createBrokerServer } from './outbox/index.js';
+
+/**
+ * Local message broker for OUTBOX_SINK=broker, keeps the topics in memory and prints every
+ * message published to them
+ */
+async function run(): Promise<void> {
+  const { broker } = loadConfig().outbox;
+  const server = createBrokerServer((topic, message) =>
+    console.log(`📨 ${topic}#${message.offset} ${message.key}`, JSON.stringify(message.value))
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(broker.port, resolve);
+  });
+
+  console.log(`📬 Message broker listening on http://localhost:${broker.port}`);
+  console.log(
+    `⏳ Start the outbox relay with OUTBOX_SINK=broker OUTBOX_BROKER_URL=http://localhost:${broker.port}\n`
+  );
+}
+
+run().catch((err) => {
+  console.error('❌ Error running message broker:', err);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  type ExchangeRates,
+  add,
+  convert,
+  formatMoney,
+  fromMajor,
+  isValidMoney,
+  multiply,
+  percentOf,
+  sum,
+  toMajor,
+} from './index.js';
+
+const rates: ExchangeRates = { base: 'VND', rates: { VND: 1, USD: 25_000, EUR: 27_000 } };
+
+describe('money', () => {
+  it('stores amounts as integer minor units of the currency', () => {
+    assert.deepEqual(fromMajor(19.99, 'USD'), { minor: 1999, currency: 'USD' });
+    assert.deepEqual(fromMajor(250_000, 'VND'), { minor: 250_000, currency: 'VND' });
+    assert.equal(toMajor({ minor: 1999, currency: 'USD' }), 19.99);
+
+    const total = sum([fromMajor(0.1, 'USD'), fromMajor(0.2, 'USD')], 'USD');
+    assert.deepEqual(total, fromMajor(0.3, 'USD'));
+  });
+
+  it('rounds products half away from zero to the minor unit', () => {
+    assert.deepEqual(multiply(fromMajor(0.05, 'USD'), 0.5), fromMajor(0.03, 'USD'));
+    assert.deepEqual(percentOf(fromMajor(219.99, 'USD'), 10), fromMajor(22, 'USD'));
+    assert.deepEqual(multiply(fromMajor(1.99, 'USD'), 3), fromMajor(5.97, 'USD'));
+  });
+
+  it('refuses to mix currencies or use unknown ones', () => {
+    assert.throws(() => add(fromMajor(1, 'USD'), fromMajor(1, 'EUR')), RangeError);
+    assert.throws(() => fromMajor(1, 'XYZ'), RangeError);
+    assert.equal(isValidMoney({ minor: 1.5, currency: 'USD' }), false);
+    assert.equal(isValidMoney({ minor: 150, currency: 'usd' }), false);
+    assert.equal(isValidMoney({ minor: 150, currency: 'USD' }), true);
+  });
+
+  it('converts through the base currency of the rate table', () => {
+    assert.deepEqual(convert(fromMajor(10, 'USD'), 'VND', rates), fromMajor(250_000, 'VND'));
+    assert.deepEqual(convert(fromMajor(10, 'EUR'), 'USD', rates), fromMajor(10.8, 'USD'));
+    assert.deepEqual(convert(fromMajor(30, 'VND'), 'USD', rates), fromMajor(0, 'USD'));
+    assert.throws(() => convert(fromMajor(1, 'GBP'), 'USD', rates), RangeError);
+  });
+
+  it('formats with the digits of the currency', () => {
+    assert.equal(formatMoney(fromMajor(1234.5, 'USD')), '1,234.50 USD');
+    assert.equal(formatMoney(fromMajor(250_000, 'VND')), '250,000 VND');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Money: an integer amount of minor units (cents, or dong for VND) and an ISO 4217 currency
+ *
+ * Amounts are never stored as floating point major units, so 0.1 + 0.2 stays 30 cents.
+ * Major units (e.g. 12.5 USD) only appear at the edges: configuration, logs and emails.
+ * Free of Node.js APIs so the workflow sandbox can import it.
+ *
+ * Operations on mismatched or unknown currencies are programming errors and throw a
+ * RangeError; callers validate external input first (see validation/ and pricing/).
+ */
+
+export interface Money {
+  // Integer number of minor units, e.g. 1250 for 12.50 USD
+  minor: number;
+  // ISO 4217 code, upper case
+  currency: string;
+}
+
+/**
+ * Supported currencies → number of minor unit digits
+ */
+export const CURRENCY_DIGITS: Record<string, number> = {
+  VND: 0,
+  JPY: 0,
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  SGD: 2,
+};
+
+/**
+ * Exchange rate table: rates[code] is the value of one major unit of `code` in major units
+ * of `base` (so rates[base] is 1)
+ */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+// Local table, replace it in the config file with the rates of the day
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  base: 'VND',
+  rates: { VND: 1, USD: 25_000, EUR: 27_000, GBP: 32_000, SGD: 19_000, JPY: 170 },
+};
+
+export function isSupportedCurrency(currency: unknown): currency is string {
+  return typeof currency === 'string' && CURRENCY_DIGITS[currency] !== undefined;
+}
+
+function digits(currency: string): number {
+  const value = CURRENCY_DIGITS[currency];
+  if (value === undefined) {
+    throw new RangeError(`Unsupported currency "${currency}"`);
+  }
+  return value;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new RangeError(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
+
+/**
+ * Money from an amount in major units, rounded to the currency's minor unit
+ */
+export function fromMajor(amount: number, currency: string): Money {
+  return { minor: Math.round(amount * 10 ** digits(currency)), currency };
+}
+
+/**
+ * Amount in major units, for display and search attributes only
+ */
+export function toMajor({ minor, currency }: Money): number {
+  return minor / 10 ** digits(currency);
+}
+
+export function zero(currency: string): Money {
+  return { minor: 0, currency };
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+/**
+ * Multiply by a quantity or a rate, rounding half away from zero to the minor unit
+ */
+export function multiply(money: Money, factor: number): Money {
+  const product = money.minor * factor;
+  return { minor: Math.sign(product) * Math.round(Math.abs(product)), currency: money.currency };
+}
+
+export function percentOf(money: Money, percent: number): Money {
+  return multiply(money, percent / 100);
+}
+
+export function sum(amounts: Money[], currency: string): Money {
+  return amounts.reduce(add, zero(currency));
+}
+
+export function min(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.minor <= b.minor ? a : b;
+}
+
+/**
+ * Negative, zero or positive as a is less than, equal to or greater than b
+ */
+export function compare(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+}
+
+export function isValidMoney(value: unknown): value is Money {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { minor, currency } = value as Record<string, unknown>;
+  return Number.isSafeInteger(minor) && isSupportedCurrency(currency);
+}
+
+/**
+ * Convert with the rate table, rounding to the target currency's minor unit
+ */
+export function convert(money: Money, currency: string, rates: ExchangeRates): Money {
+  if (money.currency === currency) {
+    return money;
+  }
+  const from = rates.rates[money.currency];
+  const to = rates.rates[currency];
+  if (from === undefined || to === undefined) {
+    throw new RangeError(`No exchange rate between ${money.currency} and ${currency}`);
+  }
+  return fromMajor((toMajor(money) * from) / to, currency);
+}
+
+/**
+ * e.g. "12.50 USD", "250,000 VND" ("250.000 VND" with the vi-VN locale)
+ */
+export function formatMoney(money: Money, locale = 'en-US'): string {
+  const amount = toMajor(money).toLocaleString(locale, {
+    minimumFractionDigits: digits(money.currency),
+    maximumFractionDigits: digits(money.currency),
+  });
+  return `${amount} ${money.currency}`;
+}
@@ -0,0 +1,24 @@
+import type { NotificationChannelKind, NotificationTemplateId } from '../types/index.js';
+
+/**
+ * Seam between the notifier and a delivery channel (email, SMS, webhook)
+ * send() resolves once the channel accepted the notification and throws otherwise; the
+ * notifier records either outcome, a channel failure never fails the order
+ */
+
+export interface OutgoingNotification {
+  // Email address, phone number or webhook URL of the recipient
+  to: string;
+  subject: string;
+  text: string;
+  // One line, for SMS
+  short: string;
+  template: NotificationTemplateId;
+  // Template data, posted as is by the webhook channel
+  data: unknown;
+}
+
+export interface NotificationChannel {
+  readonly kind: NotificationChannelKind;
+  send(notification: OutgoingNotification): Promise<void>;
+}
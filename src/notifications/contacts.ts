@@ -0,0 +1,69 @@
+import type { NotificationChannelKind } from '../types/index.js';
+import type { Locale } from './templates.js';
+
+/**
+ * How to reach a user, looked up by the notifier instead of guessing an address from the ID
+ */
+export interface UserContact {
+  userId: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  // Receives the notifications as JSON POSTs
+  webhookUrl?: string;
+  // Defaults to `notifications.defaultLocale`
+  locale?: Locale;
+  // Channels the user opted into
+  channels: NotificationChannelKind[];
+}
+
+// Customers of the demo orders (client.ts) and the mailbox of the low-stock alerts; users
+// without a contact are not notified
+export const CONTACTS_SEED: Record<string, UserContact> = {
+  'user-123': {
+    userId: 'user-123',
+    name: 'Nguyễn Văn An',
+    email: 'an.nguyen@example.com',
+    phone: '+84901234567',
+    locale: 'vi',
+    channels: ['email', 'sms'],
+  },
+  'user-456': {
+    userId: 'user-456',
+    name: 'Jane Smith',
+    email: 'jane.smith@example.com',
+    locale: 'en',
+    channels: ['email'],
+  },
+  'user-789': {
+    userId: 'user-789',
+    name: 'Trần Thị Bình',
+    email: 'binh.tran@example.com',
+    locale: 'vi',
+    channels: ['email'],
+  },
+  ops: {
+    userId: 'ops',
+    name: 'Purchasing',
+    email: 'purchasing@example.com',
+    locale: 'en',
+    channels: ['email'],
+  },
+};
+
+/**
+ * Address of the contact on a channel, undefined when the user has none
+ */
+export function recipientOf(
+  contact: UserContact,
+  channel: NotificationChannelKind
+): string | undefined {
+  switch (channel) {
+    case 'email':
+      return contact.email;
+    case 'sms':
+      return contact.phone;
+    case 'webhook':
+      return contact.webhookUrl;
+  }
+}
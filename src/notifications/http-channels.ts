@@ -0,0 +1,63 @@
+import type { NotificationChannel, OutgoingNotification } from './channel.js';
+
+export interface SmsGatewayOptions {
+  // Takes POST {to, text}
+  url: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+// POST a JSON body, throwing on network errors, timeouts and non-2xx answers
+async function postJson(
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  apiKey?: string
+): Promise<void> {
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  if (apiKey) {
+    headers.authorization = `Bearer ${apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    throw new Error(`${url} unreachable: ${(err as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * SMS channel sending the one-line version of the notification through an HTTP SMS gateway
+ */
+export class HttpSmsChannel implements NotificationChannel {
+  readonly kind = 'sms';
+
+  constructor(private readonly options: SmsGatewayOptions) {}
+
+  send({ to, short }: OutgoingNotification): Promise<void> {
+    const { url, apiKey, timeoutMs } = this.options;
+    return postJson(url, { to, text: short }, timeoutMs, apiKey);
+  }
+}
+
+/**
+ * Webhook channel posting {template, subject, text, data} to the URL registered by the user
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly kind = 'webhook';
+
+  constructor(private readonly options: { timeoutMs: number }) {}
+
+  send({ to, template, subject, text, data }: OutgoingNotification): Promise<void> {
+    return postJson(to, { template, subject, text, data }, this.options.timeoutMs);
+  }
+}
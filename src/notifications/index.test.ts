@@ -0,0 +1,259 @@
+import assert from 'node:assert/strict';
+import { type AddressInfo, type Server, createServer } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { fromMajor } from '../money/index.js';
+import { type StorageOptions, createStore } from '../persistence/index.js';
+import type {
+  NotificationChannelKind,
+  NotificationDelivery,
+  PriceBreakdown,
+} from '../types/index.js';
+import type { NotificationChannel, OutgoingNotification } from './channel.js';
+import type { UserContact } from './contacts.js';
+import { Notifier } from './notifier.js';
+import { SmtpEmailChannel } from './smtp-channel.js';
+import { renderNotification } from './templates.js';
+
+const vnd = (amount: number) => fromMajor(amount, 'VND');
+
+const pricing: PriceBreakdown = {
+  currency: 'VND',
+  region: 'VN',
+  lines: [
+    {
+      itemId: 'item-1',
+      name: 'Product 1',
+      quantity: 2,
+      unitPrice: vnd(150000),
+      subtotal: vnd(300000),
+      discount: vnd(0),
+      total: vnd(300000),
+    },
+  ],
+  subtotal: vnd(300000),
+  discounts: [],
+  discountTotal: vnd(0),
+  shipping: vnd(0),
+  taxRate: 0.1,
+  tax: vnd(30000),
+  total: vnd(330000),
+};
+
+const storage: StorageOptions = { driver: 'memory', dataDir: '' };
+
+// Channel recording what it sent, failing while `failing` is set
+class FakeChannel implements NotificationChannel {
+  readonly sent: OutgoingNotification[] = [];
+  failing = false;
+
+  constructor(readonly kind: NotificationChannelKind) {}
+
+  async send(notification: OutgoingNotification): Promise<void> {
+    if (this.failing) {
+      throw new Error(`${this.kind} down`);
+    }
+    this.sent.push(notification);
+  }
+}
+
+describe('renderNotification', () => {
+  it('renders the confirmation in the locale of the recipient', () => {
+    const data = { orderId: 'order-1', pricing, name: 'An' };
+
+    const en = renderNotification('orderConfirmation', 'en', data);
+    const vi = renderNotification('orderConfirmation', 'vi', data);
+
+    assert.equal(en.subject, 'Order Confirmation #order-1');
+    assert.match(en.text, /^Hello An,/);
+    assert.match(en.text, /Shipping: free/);
+    assert.match(en.text, /Total: 330,000 VND/);
+    assert.equal(vi.subject, 'Xác nhận đơn hàng #order-1');
+    assert.match(vi.text, /^Xin chào An,/);
+    assert.match(vi.text, /Phí vận chuyển: miễn phí/);
+    assert.match(vi.text, /Tổng cộng: 330\.000 VND/);
+    assert.equal(vi.short, 'Đơn hàng #order-1 đã được xác nhận, tổng 330.000 VND');
+  });
+
+  it('lists the items of a partial order that will not ship', () => {
+    const { text } = renderNotification('orderConfirmation', 'en', {
+      orderId: 'order-1',
+      pricing,
+      fulfillment: {
+        policy: 'partial',
+        status: 'partial',
+        reserved: [{ itemId: 'item-1', quantity: 2 }],
+        shortages: [{ itemId: 'item-2', quantity: 3, available: 1 }],
+      },
+      name: 'An',
+    });
+
+    assert.match(text, /not shipped and not charged:\n {2}2 × item-2$/);
+  });
+});
+
+describe('Notifier', () => {
+  const contacts: Record<string, UserContact> = {
+    'user-1': {
+      userId: 'user-1',
+      name: 'An',
+      email: 'an@example.com',
+      phone: '+84900000001',
+      locale: 'vi',
+      channels: ['email', 'sms', 'webhook'],
+    },
+  };
+  let email: FakeChannel;
+  let sms: FakeChannel;
+  let notifier: Notifier;
+
+  before(() => {
+    email = new FakeChannel('email');
+    sms = new FakeChannel('sms');
+    notifier = new Notifier(
+      [email, sms],
+      createStore(storage, 'contacts', contacts),
+      createStore<NotificationDelivery>(storage, 'notifications'),
+      'en'
+    );
+  });
+
+  const cancel = (userId: string) =>
+    notifier.notify({
+      key: `${userId}:cancel`,
+      template: 'orderCancellation',
+      userId,
+      orderId: 'order-1',
+      data: { orderId: 'order-1', reason: 'Out of stock' },
+    });
+
+  it('records a sent, failed and skipped delivery per channel', async () => {
+    sms.failing = true;
+
+    const deliveries = await cancel('user-1');
+
+    assert.deepEqual(
+      deliveries.map(({ channel, status, attempts }) => ({ channel, status, attempts })),
+      [
+        { channel: 'email', status: 'sent', attempts: 1 },
+        { channel: 'sms', status: 'failed', attempts: 1 },
+        { channel: 'webhook', status: 'skipped', attempts: 0 },
+      ]
+    );
+    assert.equal(deliveries[1].error, 'sms down');
+    assert.equal(email.sent[0].to, 'an@example.com');
+    assert.equal(email.sent[0].subject, 'Hủy đơn hàng #order-1');
+  });
+
+  it('retries only the channels that were not sent under the same key', async () => {
+    sms.failing = false;
+
+    const deliveries = await cancel('user-1');
+
+    assert.equal(email.sent.length, 1);
+    assert.equal(sms.sent.length, 1);
+    assert.equal(sms.sent[0].short, 'Đơn hàng #order-1 đã bị hủy: Out of stock');
+    assert.deepEqual(
+      deliveries.map(({ status, attempts }) => [status, attempts]),
+      [
+        ['sent', 1],
+        ['sent', 2],
+        ['skipped', 0],
+      ]
+    );
+  });
+
+  it('skips users without a contact', async () => {
+    const [delivery] = await cancel('user-unknown');
+
+    assert.equal(delivery.status, 'skipped');
+    assert.equal(delivery.channel, undefined);
+    assert.equal(delivery.error, 'No contact for user user-unknown');
+  });
+});
+
+describe('SmtpEmailChannel', () => {
+  const received: string[] = [];
+  let server: Server;
+  let channel: SmtpEmailChannel;
+
+  // Minimal SMTP server accepting every message
+  before(async () => {
+    server = createServer((socket) => {
+      let data = false;
+      let buffer = '';
+      socket.setEncoding('utf8');
+      socket.write('220 fake ESMTP\r\n');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let end = buffer.indexOf('\r\n');
+        while (end >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          received.push(line);
+          if (data) {
+            if (line === '.') {
+              data = false;
+              socket.write('250 queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-fake\r\n250 8BITMIME\r\n');
+          } else if (line === 'DATA') {
+            data = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else if (line.startsWith('RCPT TO:<nobody@')) {
+            socket.write('550 no such user\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+          end = buffer.indexOf('\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    channel = new SmtpEmailChannel({
+      host: '127.0.0.1',
+      port,
+      from: 'orders@example.com',
+      timeoutMs: 2000,
+    });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const notification = (to: string): OutgoingNotification => ({
+    to,
+    subject: 'Xác nhận đơn hàng #order-1',
+    text: 'Xin chào An,\nĐơn hàng đã được xác nhận.',
+    short: '',
+    template: 'orderConfirmation',
+    data: {},
+  });
+
+  it('sends the message with an encoded subject and body', async () => {
+    await channel.send(notification('an@example.com'));
+
+    assert.ok(received.includes('MAIL FROM:<orders@example.com>'));
+    assert.ok(received.includes('RCPT TO:<an@example.com>'));
+    const subject = received.find((line) => line.startsWith('Subject: '));
+    const encoded = subject?.match(/^Subject: =\?UTF-8\?B\?(.+)\?=$/)?.[1] ?? '';
+    assert.equal(Buffer.from(encoded, 'base64').toString('utf8'), 'Xác nhận đơn hàng #order-1');
+    const body = received.slice(received.indexOf('') + 1, received.indexOf('.')).join('');
+    assert.equal(
+      Buffer.from(body, 'base64').toString('utf8'),
+      'Xin chào An,\r\nĐơn hàng đã được xác nhận.'
+    );
+    assert.equal(received.at(-1), 'QUIT');
+  });
+
+  it('throws when the server rejects the recipient', async () => {
+    await assert.rejects(
+      channel.send(notification('nobody@example.com')),
+      /SMTP RCPT TO rejected: 550 no such user/
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import type { NotificationOptions } from '../config/index.js';
+import { type StorageOptions, createStore } from '../persistence/index.js';
+import type { NotificationDelivery } from '../types/index.js';
+import type { NotificationChannel } from './channel.js';
+import { CONTACTS_SEED, type UserContact } from './contacts.js';
+import { HttpSmsChannel, WebhookChannel } from './http-channels.js';
+import { type ChannelLogger, LogEmailChannel } from './log-channel.js';
+import { Notifier } from './notifier.js';
+import { SmtpEmailChannel } from './smtp-channel.js';
+
+export type { NotificationChannel, OutgoingNotification } from './channel.js';
+export type { UserContact } from './contacts.js';
+export { Notifier, type NotifyRequest } from './notifier.js';
+export { type Locale, LOCALES, type TemplateData, renderNotification } from './templates.js';
+
+/**
+ * Create the notifier with the channels enabled by `notifications`
+ * - email: written to the log, or sent over SMTP with emailTransport = smtp
+ * - sms: only when `notifications.sms.gatewayUrl` is set
+ * - webhook: always, to the URL of the user
+ * Contacts and delivery records are kept in the configured storage
+ */
+export function createNotifier(
+  options: NotificationOptions,
+  storage: StorageOptions,
+  logger: ChannelLogger
+): Notifier {
+  const { timeoutMs } = options;
+  const channels: NotificationChannel[] = [
+    options.emailTransport === 'smtp'
+      ? new SmtpEmailChannel({ ...options.smtp, timeoutMs })
+      : new LogEmailChannel(logger),
+    new WebhookChannel({ timeoutMs }),
+  ];
+  if (options.sms.gatewayUrl) {
+    channels.push(
+      new HttpSmsChannel({ url: options.sms.gatewayUrl, apiKey: options.sms.apiKey, timeoutMs })
+    );
+  }
+  return new Notifier(
+    channels,
+    createStore<UserContact>(storage, 'contacts', CONTACTS_SEED),
+    createStore<NotificationDelivery>(storage, 'notifications'),
+    options.defaultLocale
+  );
+}
@@ -0,0 +1,19 @@
+import type { NotificationChannel, OutgoingNotification } from './channel.js';
+
+export interface ChannelLogger {
+  info(message: string, meta?: Record<string, unknown>): void;
+}
+
+/**
+ * Email channel writing the message to the log instead of sending it, the default when no
+ * SMTP server is configured
+ */
+export class LogEmailChannel implements NotificationChannel {
+  readonly kind = 'email';
+
+  constructor(private readonly logger: ChannelLogger) {}
+
+  async send({ to, subject, text }: OutgoingNotification): Promise<void> {
+    this.logger.info('📧 Email (log transport)', { to, subject, body: text });
+  }
+}
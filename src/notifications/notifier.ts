@@ -0,0 +1,109 @@
+import type { Store } from '../persistence/index.js';
+import type {
+  NotificationChannelKind,
+  NotificationDelivery,
+  NotificationTemplateId,
+} from '../types/index.js';
+import type { NotificationChannel } from './channel.js';
+import { type UserContact, recipientOf } from './contacts.js';
+import { type Locale, type TemplateData, renderNotification } from './templates.js';
+
+export interface NotifyRequest<T extends NotificationTemplateId> {
+  // Identifies the notification across retries (idempotency key of the activity)
+  key: string;
+  template: T;
+  userId: string;
+  orderId?: string;
+  data: TemplateData[T];
+}
+
+/**
+ * Renders a template for a user and sends it over every channel the user opted into,
+ * recording one delivery per channel
+ * A channel already sent under the same key is not sent again, so retrying an activity after a
+ * partial failure only retries the channels that failed
+ */
+export class Notifier {
+  constructor(
+    private readonly channels: NotificationChannel[],
+    private readonly contacts: Store<UserContact>,
+    private readonly deliveries: Store<NotificationDelivery>,
+    private readonly defaultLocale: Locale
+  ) {}
+
+  async notify<T extends NotificationTemplateId>(
+    request: NotifyRequest<T>
+  ): Promise<NotificationDelivery[]> {
+    const { key, template, userId, orderId } = request;
+    const contact = await this.contacts.get(userId);
+    if (!contact) {
+      const delivery: NotificationDelivery = {
+        notificationId: key,
+        template,
+        userId,
+        orderId,
+        status: 'skipped',
+        error: `No contact for user ${userId}`,
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+      await this.save(delivery);
+      return [delivery];
+    }
+
+    const rendered = renderNotification(template, contact.locale ?? this.defaultLocale, {
+      ...request.data,
+      name: contact.name,
+    });
+    const results: NotificationDelivery[] = [];
+    for (const kind of contact.channels) {
+      const notificationId = `${key}:${kind}`;
+      const previous = await this.deliveries.get(notificationId);
+      if (previous?.status === 'sent') {
+        results.push(previous);
+        continue;
+      }
+
+      const delivery: NotificationDelivery = {
+        notificationId,
+        template,
+        userId,
+        orderId,
+        channel: kind,
+        recipient: recipientOf(contact, kind),
+        status: 'skipped',
+        attempts: previous?.attempts ?? 0,
+        createdAt: previous?.createdAt ?? new Date().toISOString(),
+      };
+      const channel = this.channel(kind);
+      if (!delivery.recipient) {
+        delivery.error = `User ${userId} has no ${kind} address`;
+      } else if (!channel) {
+        delivery.error = `The ${kind} channel is not configured`;
+      } else {
+        delivery.attempts += 1;
+        try {
+          await channel.send({ ...rendered, to: delivery.recipient, template, data: request.data });
+          delivery.status = 'sent';
+          delivery.sentAt = new Date().toISOString();
+        } catch (err) {
+          delivery.status = 'failed';
+          delivery.error = (err as Error).message;
+        }
+      }
+      await this.save(delivery);
+      results.push(delivery);
+    }
+    return results;
+  }
+
+  private channel(kind: NotificationChannelKind): NotificationChannel | undefined {
+    return this.channels.find((channel) => channel.kind === kind);
+  }
+
+  private save(delivery: NotificationDelivery): Promise<void> {
+    return this.deliveries.transaction((records) => {
+      records[delivery.notificationId] = delivery;
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from 'node:crypto';
+import { type Socket, connect } from 'node:net';
+import { hostname } from 'node:os';
+import type { NotificationChannel, OutgoingNotification } from './channel.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Sender address of every email
+  from: string;
+  // For the whole SMTP session
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads the replies of the server off the socket, a reply spans lines "250-..." up to "250 ..."
+class ReplyReader {
+  private buffer = '';
+  private readonly lines: string[] = [];
+  private error?: Error;
+  private wake: () => void = () => {};
+
+  constructor(socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      const lines = (this.buffer + chunk).split('\r\n');
+      this.buffer = lines.pop() ?? '';
+      this.lines.push(...lines);
+      this.wake();
+    });
+    socket.on('error', (err) => {
+      this.error = err;
+      this.wake();
+    });
+    socket.on('close', () => {
+      this.error ??= new Error('SMTP connection closed by the server');
+      this.wake();
+    });
+  }
+
+  async next(): Promise<SmtpReply> {
+    for (;;) {
+      const last = this.lines.findIndex((line) => line[3] !== '-');
+      if (last >= 0) {
+        const lines = this.lines.splice(0, last + 1);
+        return {
+          code: Number(lines[last].slice(0, 3)),
+          text: lines.map((line) => line.slice(4)).join(' '),
+        };
+      }
+      if (this.error) {
+        throw this.error;
+      }
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+  }
+}
+
+// RFC 5322 message; the subject is encoded and the body sent in base64 so any text goes through
+function formatMessage(from: string, to: string, subject: string, text: string): string {
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf8')
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: <${from}>`,
+    `To: <${to}>`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject, 'utf8').toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * Email channel speaking plain SMTP (no TLS, no authentication), meant for a local test
+ * server such as MailHog from docker-compose.yml (SMTP on 1025, web UI on 8025)
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly kind = 'email';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send({ to, subject, text }: OutgoingNotification): Promise<void> {
+    const { host, port, from, timeoutMs } = this.options;
+    const socket = connect({ host, port });
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(new Error(`SMTP server ${host}:${port} timed out after ${timeoutMs} ms`));
+    });
+    const replies = new ReplyReader(socket);
+
+    // Send a command (none for the greeting) and expect a reply of the same class (2xx, 3xx)
+    const exchange = async (step: string, expected: number, command?: string) => {
+      if (command !== undefined) {
+        socket.write(`${command}\r\n`);
+      }
+      const { code, text: reply } = await replies.next();
+      if (Math.floor(code / 100) !== Math.floor(expected / 100)) {
+        throw new Error(`SMTP ${step} rejected: ${code} ${reply}`);
+      }
+    };
+
+    try {
+      await exchange('greeting', 220);
+      await exchange('EHLO', 250, `EHLO ${hostname()}`);
+      await exchange('MAIL FROM', 250, `MAIL FROM:<${from}>`);
+      await exchange('RCPT TO', 250, `RCPT TO:<${to}>`);
+      await exchange('DATA', 354, 'DATA');
+      await exchange('message', 250, `${formatMessage(from, to, subject, text)}\r\n.`);
+      await exchange('QUIT', 221, 'QUIT');
+    } finally {
+      socket.destroy();
+    }
+  }
+}
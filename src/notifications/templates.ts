@@ -0,0 +1,145 @@
+import { type Money, formatMoney } from '../money/index.js';
+import type {
+  Fulfillment,
+  NotificationTemplateId,
+  PriceBreakdown,
+  StockLevel,
+} from '../types/index.js';
+
+/**
+ * Notification templates, one set per locale, rendered from the order data
+ */
+
+export type Locale = 'en' | 'vi';
+
+export const LOCALES: Locale[] = ['en', 'vi'];
+
+// Number formatting of each locale
+const NUMBER_LOCALES: Record<Locale, string> = { en: 'en-US', vi: 'vi-VN' };
+
+export interface TemplateData {
+  orderConfirmation: { orderId: string; pricing: PriceBreakdown; fulfillment?: Fulfillment };
+  orderCancellation: { orderId: string; reason: string };
+  lowStockAlert: { stock: StockLevel; threshold: number };
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  // One line, for SMS
+  short: string;
+}
+
+type Templates = {
+  [T in NotificationTemplateId]: (
+    data: TemplateData[T] & { name: string },
+    money: (amount: Money) => string
+  ) => RenderedNotification;
+};
+
+interface BreakdownLabels {
+  subtotal: string;
+  shipping: string;
+  free: string;
+  tax: string;
+  total: string;
+  notShipped: string;
+}
+
+const LABELS: Record<Locale, BreakdownLabels> = {
+  en: {
+    subtotal: 'Subtotal',
+    shipping: 'Shipping',
+    free: 'free',
+    tax: 'Tax',
+    total: 'Total',
+    notShipped: 'Not available, not shipped and not charged:',
+  },
+  vi: {
+    subtotal: 'Tạm tính',
+    shipping: 'Phí vận chuyển',
+    free: 'miễn phí',
+    tax: 'Thuế',
+    total: 'Tổng cộng',
+    notShipped: 'Hết hàng, không giao và không tính tiền:',
+  },
+};
+
+// Price breakdown of the confirmation, with the lines of a partial order that will not ship
+function formatBreakdown(
+  { pricing, fulfillment }: TemplateData['orderConfirmation'],
+  labels: BreakdownLabels,
+  money: (amount: Money) => string
+): string {
+  const rows = pricing.lines.map((line) => {
+    const discount = line.discount.minor > 0 ? ` (-${money(line.discount)})` : '';
+    return `${line.quantity} × ${line.name} @ ${money(line.unitPrice)}: ${money(line.subtotal)}${discount}`;
+  });
+  rows.push(`${labels.subtotal}: ${money(pricing.subtotal)}`);
+  for (const discount of pricing.discounts) {
+    rows.push(`${discount.description} (${discount.code}): -${money(discount.amount)}`);
+  }
+  const shipping = pricing.shipping.minor > 0 ? money(pricing.shipping) : labels.free;
+  rows.push(`${labels.shipping}: ${shipping}`);
+  rows.push(
+    `${labels.tax} (${pricing.region} ${Math.round(pricing.taxRate * 100)}%): ${money(pricing.tax)}`
+  );
+  rows.push(`${labels.total}: ${money(pricing.total)}`);
+
+  if (fulfillment?.status === 'partial') {
+    rows.push('', labels.notShipped);
+    for (const { itemId, quantity, available } of fulfillment.shortages) {
+      rows.push(`  ${quantity - available} × ${itemId}`);
+    }
+  }
+  return rows.join('\n');
+}
+
+const TEMPLATES: Record<Locale, Templates> = {
+  en: {
+    orderConfirmation: (data, money) => ({
+      subject: `Order Confirmation #${data.orderId}`,
+      text: `Hello ${data.name},\n\nYour order #${data.orderId} has been confirmed.\n\n${formatBreakdown(data, LABELS.en, money)}`,
+      short: `Order #${data.orderId} confirmed, total ${money(data.pricing.total)}`,
+    }),
+    orderCancellation: ({ orderId, name, reason }) => ({
+      subject: `Order Cancellation #${orderId}`,
+      text: `Hello ${name},\n\nYour order #${orderId} has been cancelled.\nReason: ${reason}\n\nAny amount held on your account is released.`,
+      short: `Order #${orderId} cancelled: ${reason}`,
+    }),
+    lowStockAlert: ({ stock, threshold }) => ({
+      subject: `Low stock: ${stock.name} (${stock.itemId})`,
+      text: `${stock.available} available (alert threshold ${threshold}), ${stock.reserved} held for orders.`,
+      short: `Low stock ${stock.itemId}: ${stock.available} left`,
+    }),
+  },
+  vi: {
+    orderConfirmation: (data, money) => ({
+      subject: `Xác nhận đơn hàng #${data.orderId}`,
+      text: `Xin chào ${data.name},\n\nĐơn hàng #${data.orderId} của bạn đã được xác nhận.\n\n${formatBreakdown(data, LABELS.vi, money)}`,
+      short: `Đơn hàng #${data.orderId} đã được xác nhận, tổng ${money(data.pricing.total)}`,
+    }),
+    orderCancellation: ({ orderId, name, reason }) => ({
+      subject: `Hủy đơn hàng #${orderId}`,
+      text: `Xin chào ${name},\n\nĐơn hàng #${orderId} của bạn đã bị hủy.\nLý do: ${reason}\n\nSố tiền đã giữ trên tài khoản của bạn được hoàn lại.`,
+      short: `Đơn hàng #${orderId} đã bị hủy: ${reason}`,
+    }),
+    lowStockAlert: ({ stock, threshold }) => ({
+      subject: `Sắp hết hàng: ${stock.name} (${stock.itemId})`,
+      text: `Còn ${stock.available} sản phẩm (ngưỡng cảnh báo ${threshold}), ${stock.reserved} đang được giữ cho đơn hàng.`,
+      short: `Sắp hết hàng ${stock.itemId}: còn ${stock.available}`,
+    }),
+  },
+};
+
+/**
+ * Render a template in the locale of the recipient
+ */
+export function renderNotification<T extends NotificationTemplateId>(
+  template: T,
+  locale: Locale,
+  data: TemplateData[T] & { name: string }
+): RenderedNotification {
+  const render = TEMPLATES[locale][template] as Templates[T];
+  return render(data, (amount) => formatMoney(amount, NUMBER_LOCALES[locale]));
+}
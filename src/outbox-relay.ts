@@ -0,0 +1,53 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { durationToMs } from './config/duration.js';
+import { loadConfig } from './config/index.js';
+import { OutboxRelay, createOutboxSink } from './outbox/index.js';
+import { createRepositories } from './persistence/index.js';
+
+/**
+ * Publishes the saga events the workers append to the outbox (outbox.json) to the configured
+ * sink, resuming after the last event published to it
+ * Needs STORAGE_DRIVER=file, like the workers, to read their outbox
+ */
+async function run(): Promise<void> {
+  const config = loadConfig();
+  if (config.storage.driver !== 'file') {
+    throw new Error(
+      'The outbox relay reads the workers outbox, start both with STORAGE_DRIVER=file'
+    );
+  }
+  const { outbox } = config;
+  const sink = createOutboxSink(outbox);
+  const relay = new OutboxRelay(createRepositories(config.storage).outbox, sink, outbox.batchSize);
+  const pollMs = durationToMs(outbox.pollInterval);
+
+  const target =
+    outbox.sink === 'broker' ? `${outbox.broker.url} (${outbox.broker.topic})` : outbox.file.path;
+  console.log(`📤 Outbox relay publishing to ${target} every ${outbox.pollInterval}\n`);
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+
+  while (!controller.signal.aborted) {
+    let published = 0;
+    try {
+      published = await relay.publishPending();
+      if (published > 0) {
+        console.log(`✅ Published ${published} event(s) to ${sink.name}`);
+      }
+    } catch (err) {
+      console.error('❌ Error publishing outbox events:', (err as Error).message);
+    }
+    // A full batch means more events are waiting
+    if (published < outbox.batchSize) {
+      await sleep(pollMs, undefined, { signal: controller.signal }).catch(() => undefined);
+    }
+  }
+  console.log('👋 Outbox relay stopped');
+}
+
+run().catch((err) => {
+  console.error('❌ Error running outbox relay:', err);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+
+/**
+ * Local stand-in for a message broker, the BrokerSink of the outbox relay publishes to it
+ *
+ * POST /topics/:topic/messages          body {id, key, value} → 201 {offset}
+ *                                       (200 with the first offset when the id was published)
+ * GET  /topics/:topic/messages?from=&limit=  → {messages: [{offset, id, key, value}]}
+ *
+ * Topics live in memory and start empty with the server
+ */
+
+export interface BrokerMessage {
+  offset: number;
+  // Producer message ID, publishing the same ID twice keeps the first message
+  id: string;
+  key: string;
+  value: unknown;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create (but do not start) the broker; call listen() on the result
+ * `onMessage` is called for every new message, e.g. to print it
+ */
+export function createBrokerServer(
+  onMessage?: (topic: string, message: BrokerMessage) => void
+): Server {
+  const topics = new Map<string, BrokerMessage[]>();
+
+  return createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const match = /^\/topics\/([^/]+)\/messages$/.exec(url.pathname);
+      if (!match) {
+        send(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+        return;
+      }
+      let topic: string;
+      try {
+        topic = decodeURIComponent(match[1]);
+      } catch {
+        send(res, 400, { error: `Topic "${match[1]}" is not valid URL encoding` });
+        return;
+      }
+      const messages = topics.get(topic) ?? [];
+      topics.set(topic, messages);
+
+      if (req.method === 'GET') {
+        const from = Number(url.searchParams.get('from') ?? 0);
+        const limit = Number(url.searchParams.get('limit') ?? 100);
+        send(res, 200, { messages: messages.slice(from, from + limit) });
+        return;
+      }
+      if (req.method !== 'POST') {
+        send(res, 405, { error: 'Only GET and POST are accepted' });
+        return;
+      }
+
+      const { id, key, value } = ((await readJson(req)) ?? {}) as Partial<BrokerMessage>;
+      if (typeof id !== 'string' || typeof key !== 'string' || value === undefined) {
+        send(res, 400, { error: 'Expected {id, key, value}' });
+        return;
+      }
+      const published = messages.find((message) => message.id === id);
+      if (published) {
+        send(res, 200, { offset: published.offset });
+        return;
+      }
+      const message: BrokerMessage = { offset: messages.length, id, key, value };
+      messages.push(message);
+      onMessage?.(topic, message);
+      send(res, 201, { offset: message.offset });
+    } catch (err) {
+      console.error(`❌ Broker ${req.method} ${req.url} failed:`, err);
+      send(res, 500, { error: 'Internal error' });
+    }
+  });
+}
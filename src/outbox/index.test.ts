@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createStore } from '../persistence/index.js';
+import { StoreOutboxRepository } from '../persistence/repositories.js';
+import type { OutboxCursor, OutboxRecord, SagaEvent } from '../types/index.js';
+import { createBrokerServer } from './broker.js';
+import { OutboxRelay } from './relay.js';
+import { BrokerSink, FileSink, type OutboxSink } from './sinks.js';
+
+const storage = { driver: 'memory' as const, dataDir: '' };
+
+function newOutbox(events = createStore<OutboxRecord>(storage, 'outbox')): StoreOutboxRepository {
+  return new StoreOutboxRepository(events, createStore<OutboxCursor>(storage, 'outbox-cursors'));
+}
+
+function sagaEvent(orderId: string, step: string, type: SagaEvent['type']) {
+  return {
+    eventId: `order-workflow-${orderId}:${step}:${type}`,
+    type,
+    orderId,
+    workflowId: `order-workflow-${orderId}`,
+    step,
+    data: { orderId },
+    occurredAt: '2024-01-01T00:00:00Z',
+  };
+}
+
+// Keeps what it gets, failing on the events listed in `failOn`
+class RecordingSink implements OutboxSink {
+  readonly name = 'recording';
+  readonly published: string[] = [];
+  readonly failOn = new Set<string>();
+
+  async publish(event: SagaEvent): Promise<void> {
+    if (this.failOn.has(event.eventId)) {
+      throw new Error(`${event.eventId} rejected`);
+    }
+    this.published.push(event.eventId);
+  }
+}
+
+describe('outbox', () => {
+  it('appends an event once per eventId, in sequence order', async () => {
+    const outbox = newOutbox();
+    const created = await outbox.append(sagaEvent('order-1', 'createOrder', 'order.created'));
+    await outbox.append(sagaEvent('order-2', 'createOrder', 'order.created'));
+    const again = await outbox.append(sagaEvent('order-1', 'createOrder', 'order.created'));
+    await outbox.append(sagaEvent('order-1', 'reserveInventory', 'inventory.reserved'));
+
+    assert.equal(created.sequence, 1);
+    assert.deepEqual(again, created);
+    assert.deepEqual(
+      (await outbox.findByOrder('order-1')).map(({ sequence, type }) => [sequence, type]),
+      [
+        [1, 'order.created'],
+        [3, 'inventory.reserved'],
+      ]
+    );
+  });
+
+  it('never hands out a sequence number twice, even once events left the store', async () => {
+    const events = createStore<OutboxRecord>(storage, 'outbox');
+    const outbox = newOutbox(events);
+    const first = sagaEvent('order-1', 'createOrder', 'order.created');
+    await outbox.append(first);
+    await outbox.append(sagaEvent('order-1', 'reserveInventory', 'inventory.reserved'));
+    // e.g. archived once every sink published it
+    await events.transaction((records) => {
+      delete records[first.eventId];
+    });
+
+    const next = await outbox.append(
+      sagaEvent('order-1', 'authorizePayment', 'payment.authorized')
+    );
+
+    assert.equal(next.sequence, 3);
+    assert.deepEqual(
+      (await outbox.listAfter(0, 10)).map(({ sequence }) => sequence),
+      [2, 3]
+    );
+  });
+
+  it('continues after the last event of an outbox without a sequence counter', async () => {
+    const events = createStore<OutboxRecord>(storage, 'outbox');
+    const legacy = sagaEvent('order-1', 'createOrder', 'order.created');
+    await events.transaction((records) => {
+      records[legacy.eventId] = { ...legacy, sequence: 7 };
+    });
+
+    const next = await newOutbox(events).append(
+      sagaEvent('order-1', 'reserveInventory', 'inventory.reserved')
+    );
+
+    assert.equal(next.sequence, 8);
+  });
+
+  it('relays each event once, resuming after the last published one', async () => {
+    const outbox = newOutbox();
+    const sink = new RecordingSink();
+    const relay = new OutboxRelay(outbox, sink, 2);
+    const events = [
+      sagaEvent('order-1', 'createOrder', 'order.created'),
+      sagaEvent('order-1', 'reserveInventory', 'inventory.reserved'),
+      sagaEvent('order-1', 'authorizePayment', 'payment.authorized'),
+    ];
+    for (const event of events) {
+      await outbox.append(event);
+    }
+    sink.failOn.add(events[1].eventId);
+
+    await assert.rejects(relay.publishPending(), /rejected/);
+    assert.equal(await outbox.getCursor('recording'), 1);
+
+    sink.failOn.clear();
+    assert.equal(await relay.publishPending(), 2);
+    assert.equal(await relay.publishPending(), 0);
+    assert.deepEqual(
+      sink.published,
+      events.map(({ eventId }) => eventId)
+    );
+  });
+
+  it('appends the events to a JSON lines file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'outbox-'));
+    const outbox = newOutbox();
+    await outbox.append(sagaEvent('order-1', 'createOrder', 'order.created'));
+    await outbox.append(sagaEvent('order-1', 'cancelOrder', 'order.cancelled'));
+
+    try {
+      const path = join(dir, 'events', 'order-events.jsonl');
+      await new OutboxRelay(outbox, new FileSink(path), 10).publishPending();
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n');
+      assert.deepEqual(
+        lines.map((line) => JSON.parse(line).type),
+        ['order.created', 'order.cancelled']
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('BrokerSink', () => {
+  const broker = createBrokerServer();
+  let url: string;
+
+  before(async () => {
+    await new Promise<void>((resolve) => broker.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(broker.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    broker.close();
+  });
+
+  it('publishes keyed by order, the broker dropping a republished event', async () => {
+    const outbox = newOutbox();
+    const event = await outbox.append(sagaEvent('order-1', 'createOrder', 'order.created'));
+    const sink = new BrokerSink({ url, topic: 'order-events', timeoutMs: 2000 });
+
+    await sink.publish(event);
+    await sink.publish(event);
+
+    const response = await fetch(`${url}/topics/order-events/messages?from=0`);
+    const { messages } = (await response.json()) as {
+      messages: Array<{ offset: number; key: string; value: SagaEvent }>;
+    };
+    assert.deepEqual(
+      messages.map(({ offset, key, value }) => [offset, key, value.eventId]),
+      [[0, 'order-1', event.eventId]]
+    );
+  });
+
+  it('answers 400 to a malformed topic or message', async () => {
+    const badTopic = await fetch(`${url}/topics/order-%E0%A4%A/messages`);
+    const nullBody = await fetch(`${url}/topics/order-events/messages`, {
+      method: 'POST',
+      body: 'null',
+    });
+
+    assert.equal(badTopic.status, 400);
+    assert.equal(nullBody.status, 400);
+  });
+
+  it('fails when the broker is unreachable', async () => {
+    const sink = new BrokerSink({
+      url: 'http://127.0.0.1:1',
+      topic: 'order-events',
+      timeoutMs: 500,
+    });
+    const event = { ...sagaEvent('order-1', 'createOrder', 'order.created'), sequence: 1 };
+
+    await assert.rejects(sink.publish(event), /unreachable/);
+  });
+});
@@ -0,0 +1,19 @@
+import type { OutboxOptions } from '../config/index.js';
+import { BrokerSink, FileSink, type OutboxSink } from './sinks.js';
+
+export { type BrokerMessage, createBrokerServer } from './broker.js';
+export { OutboxRelay } from './relay.js';
+export { BrokerSink, FileSink, type OutboxSink } from './sinks.js';
+
+/**
+ * Create the sink selected by `outbox.sink`
+ * - file: JSON lines appended to `outbox.file.path`
+ * - broker: topic `outbox.broker.topic` of the local message broker (npm run start:broker)
+ */
+export function createOutboxSink(options: OutboxOptions): OutboxSink {
+  if (options.sink === 'broker') {
+    const { url, topic } = options.broker;
+    return new BrokerSink({ url, topic, timeoutMs: options.timeoutMs });
+  }
+  return new FileSink(options.file.path);
+}
@@ -0,0 +1,29 @@
+import type { OutboxRepository } from '../persistence/index.js';
+import type { OutboxSink } from './sinks.js';
+
+/**
+ * Publishes the outbox to a sink in sequence order, at least once
+ * The cursor of the sink moves after each published event, so a relay stopped (or failing)
+ * halfway through a batch resumes at the first event the sink did not get
+ */
+export class OutboxRelay {
+  constructor(
+    private readonly outbox: OutboxRepository,
+    private readonly sink: OutboxSink,
+    private readonly batchSize: number
+  ) {}
+
+  /**
+   * Publish up to one batch of the events appended since the last published one
+   * @returns the number of events published
+   */
+  async publishPending(): Promise<number> {
+    const cursor = await this.outbox.getCursor(this.sink.name);
+    const events = await this.outbox.listAfter(cursor, this.batchSize);
+    for (const event of events) {
+      await this.sink.publish(event);
+      await this.outbox.saveCursor(this.sink.name, event.sequence);
+    }
+    return events.length;
+  }
+}
@@ -0,0 +1,67 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { SagaEvent } from '../types/index.js';
+
+/**
+ * Destination of the outbox relay
+ * publish() resolves once the sink has the event and throws otherwise; the relay retries the
+ * same event on its next pass, so a sink may see an event twice (deduplicate on eventId)
+ */
+export interface OutboxSink {
+  // Key of the relay cursor, one cursor per sink
+  readonly name: string;
+  publish(event: SagaEvent): Promise<void>;
+}
+
+/**
+ * Appends every event as one JSON line to a file
+ */
+export class FileSink implements OutboxSink {
+  readonly name = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async publish(event: SagaEvent): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(event)}\n`);
+  }
+}
+
+export interface BrokerSinkOptions {
+  // Base URL of the message broker (npm run start:broker)
+  url: string;
+  topic: string;
+  timeoutMs: number;
+}
+
+/**
+ * Publishes every event to a topic of the local message broker, keyed by order so a
+ * consumer gets the events of an order in order
+ */
+export class BrokerSink implements OutboxSink {
+  readonly name: string;
+
+  constructor(private readonly options: BrokerSinkOptions) {
+    this.name = `broker:${options.topic}`;
+  }
+
+  async publish(event: SagaEvent): Promise<void> {
+    const { url, topic, timeoutMs } = this.options;
+    const target = new URL(`/topics/${encodeURIComponent(topic)}/messages`, url);
+    let response: Response;
+    try {
+      response = await fetch(target, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ id: event.eventId, key: event.orderId, value: event }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      throw new Error(`Message broker ${url} unreachable: ${(err as Error).message}`);
+    }
+    await response.body?.cancel();
+    if (!response.ok) {
+      throw new Error(`Message broker answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
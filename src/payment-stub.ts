@@ -0,0 +1,24 @@
+import { loadConfig } from './config/index.js';
+import { createPaymentStubServer } from './payments/stub-server.js';
+
+/**
+ * Local payment service provider stub for PAYMENT_PROVIDER=http
+ * Answers with the failure mix of the simulator profile (PAYMENT_SIMULATOR_SEED applies)
+ */
+async function run(): Promise<void> {
+  const { payments } = loadConfig();
+  const server = createPaymentStubServer(payments.simulator);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(payments.stub.port, resolve);
+  });
+
+  console.log(`💳 Payment stub listening on http://localhost:${payments.stub.port}`);
+  console.log('⏳ Start the worker with PAYMENT_PROVIDER=http to use it\n');
+}
+
+run().catch((err) => {
+  console.error('❌ Error running payment stub:', err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  DEFAULT_SCENARIO_PROFILE,
+  type GatewayOutcome,
+  PaymentGatewaySimulator,
+  type ScenarioProfile,
+} from './gateway-simulator.js';
+
+const request = { orderId: 'order-1', userId: 'user-1', amount: 100, attempt: 1 };
+
+function outcomes(simulator: PaymentGatewaySimulator, count: number): GatewayOutcome[] {
+  return Array.from(
+    { length: count },
+    (_, i) => simulator.simulate({ ...request, orderId: `order-${i}` }).outcome
+  );
+}
+
+describe('PaymentGatewaySimulator', () => {
+  it('replays the same outcomes for the same seed', () => {
+    const profile: ScenarioProfile = { ...DEFAULT_SCENARIO_PROFILE, seed: 'bug-1234' };
+
+    const first = outcomes(new PaymentGatewaySimulator(profile), 50);
+    const second = outcomes(new PaymentGatewaySimulator(profile), 50);
+
+    assert.deepEqual(first, second);
+    assert.notDeepEqual(
+      first,
+      outcomes(new PaymentGatewaySimulator({ ...profile, seed: 'another-seed' }), 50)
+    );
+  });
+
+  it('gives each retry attempt its own outcome', () => {
+    const simulator = new PaymentGatewaySimulator({ ...DEFAULT_SCENARIO_PROFILE, seed: 'retry' });
+
+    const attempts = [1, 2, 3, 4, 5, 6, 7, 8].map(
+      (attempt) => simulator.simulate({ ...request, attempt }).latencyMs
+    );
+
+    assert.equal(new Set(attempts).size, attempts.length);
+  });
+
+  it('follows the configured probabilities', () => {
+    const simulator = new PaymentGatewaySimulator({
+      ...DEFAULT_SCENARIO_PROFILE,
+      seed: 'distribution',
+      probabilities: { timeout: 0.5, serverError: 0, badRequest: 0, unauthorized: 0 },
+    });
+
+    const results = outcomes(simulator, 2000);
+    const timeouts = results.filter((outcome) => outcome === 'timeout').length;
+
+    assert.ok(timeouts > 900 && timeouts < 1100, `expected ~1000 timeouts, got ${timeouts}`);
+    assert.ok(results.every((outcome) => outcome === 'timeout' || outcome === 'success'));
+  });
+
+  it('forces outcomes by userId and magic amount', () => {
+    const simulator = new PaymentGatewaySimulator({
+      ...DEFAULT_SCENARIO_PROFILE,
+      probabilities: { timeout: 0, serverError: 0, badRequest: 0, unauthorized: 0 },
+      forcedOutcomes: [
+        { match: { userId: 'user-401' }, outcome: 'unauthorized' },
+        { match: { amount: 666 }, outcome: 'timeout', attempts: 2 },
+      ],
+    });
+
+    assert.equal(simulator.simulate({ ...request, userId: 'user-401' }).outcome, 'unauthorized');
+    assert.equal(simulator.simulate({ ...request, amount: 666, attempt: 1 }).outcome, 'timeout');
+    assert.equal(simulator.simulate({ ...request, amount: 666, attempt: 2 }).outcome, 'timeout');
+    assert.equal(simulator.simulate({ ...request, amount: 666, attempt: 3 }).outcome, 'success');
+    assert.equal(simulator.simulate(request).outcome, 'success');
+  });
+
+  it('rejects probabilities adding up to more than 1', () => {
+    assert.throws(
+      () =>
+        new PaymentGatewaySimulator({
+          ...DEFAULT_SCENARIO_PROFILE,
+          probabilities: { timeout: 0.6, serverError: 0.6, badRequest: 0, unauthorized: 0 },
+        }),
+      /add up to/
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Deterministic payment gateway simulator
+ *
+ * Picks the outcome of a payment API call from a scenario profile. With a seed, the
+ * outcome depends only on (seed, orderId, attempt), so a failure mix can be replayed
+ * exactly across runs and across worker processes. Without a seed it uses Math.random().
+ */
+
+export type GatewayOutcome = 'success' | 'timeout' | 'serverError' | 'badRequest' | 'unauthorized';
+
+export type FailureOutcome = Exclude<GatewayOutcome, 'success'>;
+
+export interface PaymentRequest {
+  orderId: string;
+  userId: string;
+  // Minor units, whatever the currency
+  amount: number;
+  attempt: number;
+}
+
+/**
+ * Force an outcome for matching payments, e.g. every order of a user or a magic amount
+ */
+export interface ForcedOutcomeRule {
+  match: {
+    orderId?: string;
+    userId?: string;
+    amount?: number;
+  };
+  outcome: GatewayOutcome;
+  // Only force the first N attempts, later attempts fall back to the profile (e.g. 2 timeouts then success)
+  attempts?: number;
+}
+
+export interface ScenarioProfile {
+  seed?: string;
+  // Probability (0-1) of each failure, the remainder is success
+  probabilities: Record<FailureOutcome, number>;
+  forcedOutcomes: ForcedOutcomeRule[];
+  latencyMs: { min: number; max: number };
+}
+
+export const DEFAULT_SCENARIO_PROFILE: ScenarioProfile = {
+  probabilities: {
+    timeout: 0.15, // Network/Timeout - will retry
+    serverError: 0.1, // Server error 500 - will retry
+    badRequest: 0.05, // Client error 400 - no retry
+    unauthorized: 0.03, // Client error 401 - no retry
+  },
+  forcedOutcomes: [],
+  latencyMs: { min: 1000, max: 2000 },
+};
+
+const FAILURE_OUTCOMES: FailureOutcome[] = ['timeout', 'serverError', 'badRequest', 'unauthorized'];
+
+// FNV-1a hash, turns the seed and request into a 32-bit PRNG state
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32 PRNG, returns a generator of floats in [0, 1)
+function mulberry32(state: number): () => number {
+  let a = state;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class PaymentGatewaySimulator {
+  constructor(private readonly profile: ScenarioProfile = DEFAULT_SCENARIO_PROFILE) {
+    const total = FAILURE_OUTCOMES.reduce((sum, key) => sum + profile.probabilities[key], 0);
+    if (total > 1) {
+      throw new Error(`Scenario probabilities add up to ${total}, expected at most 1`);
+    }
+  }
+
+  /**
+   * Decide the outcome and simulated latency of one payment API call
+   */
+  simulate(request: PaymentRequest): { outcome: GatewayOutcome; latencyMs: number } {
+    const random = this.random(request);
+    const { min, max } = this.profile.latencyMs;
+    const latencyMs = min + random() * (max - min);
+
+    const forced = this.profile.forcedOutcomes.find(
+      (rule) =>
+        (rule.match.orderId === undefined || rule.match.orderId === request.orderId) &&
+        (rule.match.userId === undefined || rule.match.userId === request.userId) &&
+        (rule.match.amount === undefined || rule.match.amount === request.amount) &&
+        (rule.attempts === undefined || request.attempt <= rule.attempts)
+    );
+    if (forced) {
+      return { outcome: forced.outcome, latencyMs };
+    }
+
+    let roll = random();
+    for (const outcome of FAILURE_OUTCOMES) {
+      roll -= this.profile.probabilities[outcome];
+      if (roll < 0) {
+        return { outcome, latencyMs };
+      }
+    }
+    return { outcome: 'success', latencyMs };
+  }
+
+  private random(request: PaymentRequest): () => number {
+    if (this.profile.seed === undefined) {
+      return Math.random;
+    }
+    return mulberry32(hash(`${this.profile.seed}:${request.orderId}:${request.attempt}`));
+  }
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { ApplicationFailure } from '@temporalio/common';
+import { fromMajor } from '../money/index.js';
+import { DEFAULT_SCENARIO_PROFILE } from './gateway-simulator.js';
+import { HttpPaymentProvider } from './http-provider.js';
+import { errorForStatus, statusForError } from './http-status.js';
+import { createPaymentStubServer } from './stub-server.js';
+
+const server = createPaymentStubServer({
+  ...DEFAULT_SCENARIO_PROFILE,
+  seed: 'http-provider',
+  probabilities: { timeout: 0, serverError: 0, badRequest: 0, unauthorized: 0 },
+  forcedOutcomes: [
+    { match: { userId: 'user-401' }, outcome: 'unauthorized' },
+    // 503.00 USD
+    { match: { amount: 50_300 }, outcome: 'serverError', attempts: 1 },
+  ],
+  latencyMs: { min: 0, max: 0 },
+});
+let provider: HttpPaymentProvider;
+
+function authorize(userId: string, amount: number, idempotencyKey = `${userId}:${amount}`) {
+  return provider.authorize({
+    orderId: `order-${amount}`,
+    userId,
+    amount: fromMajor(amount, 'USD'),
+    idempotencyKey,
+  });
+}
+
+describe('http status mapping', () => {
+  it('retries timeouts and server errors only', () => {
+    const cases: Array<[number, string, boolean]> = [
+      [400, 'PaymentValidationError', true],
+      [401, 'PaymentAuthError', true],
+      [402, 'PaymentDeclinedError', true],
+      [403, 'PaymentAuthError', true],
+      [404, 'PaymentNotFoundError', true],
+      [408, 'GatewayTimeoutError', false],
+      [422, 'PaymentValidationError', true],
+      [429, 'GatewayServerError', false],
+      [500, 'GatewayServerError', false],
+      [503, 'GatewayServerError', false],
+      [504, 'GatewayTimeoutError', false],
+    ];
+
+    for (const [status, type, nonRetryable] of cases) {
+      const error = errorForStatus(status);
+      assert.equal(error.type, type, `status ${status}`);
+      assert.equal(error.nonRetryable, nonRetryable, `status ${status}`);
+    }
+  });
+
+  it('maps errors back to the status they came from', () => {
+    for (const status of [400, 401, 402, 404, 500, 504]) {
+      assert.equal(statusForError(errorForStatus(status)), status);
+    }
+    assert.equal(statusForError(new Error('boom')), 500);
+  });
+});
+
+describe('HttpPaymentProvider against the stub server', () => {
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = new HttpPaymentProvider({ baseUrl: `http://localhost:${port}`, timeoutMs: 2000 });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('authorizes, captures and refunds a payment', async () => {
+    const authorization = await authorize('user-1', 100);
+    assert.equal(authorization.status, 'authorized');
+
+    const { paymentId, amount } = await provider.capture(authorization.authorizationId);
+    assert.deepEqual(amount, fromMajor(100, 'USD'));
+    assert.equal(await provider.getStatus(paymentId), 'captured');
+
+    await provider.refund(paymentId);
+    assert.equal(await provider.getStatus(paymentId), 'refunded');
+  });
+
+  it('captures part of an authorization, never more than authorized', async () => {
+    const { authorizationId } = await authorize('user-5', 500);
+
+    await assert.rejects(provider.capture(authorizationId, fromMajor(501, 'USD')), {
+      type: 'PaymentValidationError',
+    });
+    const { amount } = await provider.capture(authorizationId, fromMajor(320.5, 'USD'));
+    assert.deepEqual(amount, fromMajor(320.5, 'USD'));
+  });
+
+  it('voids an authorization that was never captured', async () => {
+    const { authorizationId } = await authorize('user-4', 400);
+
+    await provider.void(authorizationId);
+    assert.equal(await provider.getStatus(authorizationId), 'voided');
+    await assert.rejects(provider.capture(authorizationId), { type: 'PaymentValidationError' });
+  });
+
+  it('returns the same authorization for the same idempotency key', async () => {
+    const first = await authorize('user-2', 200);
+    const second = await authorize('user-2', 200);
+
+    assert.equal(second.authorizationId, first.authorizationId);
+  });
+
+  it('surfaces non-retryable and retryable failures as typed errors', async () => {
+    await assert.rejects(authorize('user-401', 100), (err: unknown) => {
+      assert.ok(err instanceof ApplicationFailure);
+      assert.equal(err.type, 'PaymentAuthError');
+      assert.equal(err.nonRetryable, true);
+      return true;
+    });
+
+    // Forced to fail on the first attempt only: the retry with the same key succeeds
+    await assert.rejects(authorize('user-3', 503), { type: 'GatewayServerError' });
+    assert.equal((await authorize('user-3', 503)).status, 'authorized');
+
+    await assert.rejects(provider.getStatus('payment-unknown'), { type: 'PaymentNotFoundError' });
+  });
+
+  it('treats an unreachable API as a retryable timeout', async () => {
+    const offline = new HttpPaymentProvider({ baseUrl: 'http://127.0.0.1:1', timeoutMs: 500 });
+
+    await assert.rejects(offline.getStatus('payment-1'), {
+      type: 'GatewayTimeoutError',
+      nonRetryable: false,
+    });
+  });
+});
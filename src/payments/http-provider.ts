@@ -0,0 +1,92 @@
+import { GatewayTimeoutError } from '../errors/index.js';
+import type { Money } from '../money/index.js';
+import { errorForStatus } from './http-status.js';
+import type {
+  Authorization,
+  AuthorizeRequest,
+  Capture,
+  GatewayPaymentStatus,
+  PaymentProvider,
+} from './provider.js';
+
+export interface HttpProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  // Per request, an aborted request counts as a gateway timeout and is retried
+  timeoutMs: number;
+}
+
+/**
+ * Payment provider talking to a PSP over HTTP (the local stub server by default)
+ * Non-2xx responses are mapped to payment errors by http-status.ts
+ */
+export class HttpPaymentProvider implements PaymentProvider {
+  constructor(private readonly options: HttpProviderOptions) {}
+
+  authorize({ idempotencyKey, ...body }: AuthorizeRequest): Promise<Authorization> {
+    return this.request('POST', '/v1/authorizations', body, idempotencyKey);
+  }
+
+  capture(authorizationId: string, amount?: Money): Promise<Capture> {
+    return this.request(
+      'POST',
+      `/v1/authorizations/${encodeURIComponent(authorizationId)}/capture`,
+      amount && { amount }
+    );
+  }
+
+  async void(authorizationId: string): Promise<void> {
+    await this.request('POST', `/v1/authorizations/${encodeURIComponent(authorizationId)}/void`);
+  }
+
+  async refund(paymentId: string): Promise<void> {
+    await this.request('POST', `/v1/payments/${encodeURIComponent(paymentId)}/refund`);
+  }
+
+  async getStatus(paymentId: string): Promise<GatewayPaymentStatus> {
+    const payment = await this.request<{ status: GatewayPaymentStatus }>(
+      'GET',
+      `/v1/payments/${encodeURIComponent(paymentId)}`
+    );
+    return payment.status;
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    idempotencyKey?: string
+  ): Promise<T> {
+    const { baseUrl, apiKey, timeoutMs } = this.options;
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (apiKey) {
+      headers.authorization = `Bearer ${apiKey}`;
+    }
+    if (idempotencyKey) {
+      headers['idempotency-key'] = idempotencyKey;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL(path, baseUrl), {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      // Timeouts and connection failures never reached the PSP's business logic: retry them
+      throw new GatewayTimeoutError(
+        `Payment API unreachable - ${method} ${path}: ${(err as Error).message}`
+      );
+    }
+
+    const payload = (await response.json().catch(() => undefined)) as
+      | { error?: { message?: string } }
+      | undefined;
+    if (!response.ok) {
+      throw errorForStatus(response.status, payload?.error?.message);
+    }
+    return payload as T;
+  }
+}
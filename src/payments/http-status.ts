@@ -0,0 +1,59 @@
+import { ApplicationFailure } from '@temporalio/common';
+import {
+  GatewayServerError,
+  GatewayTimeoutError,
+  PaymentAuthError,
+  PaymentDeclinedError,
+  type PaymentError,
+  PaymentNotFoundError,
+  PaymentValidationError,
+} from '../errors/index.js';
+
+/**
+ * Mapping between PSP HTTP status codes and payment errors
+ * Used by the HTTP provider (status → error) and the local stub server (error → status)
+ *
+ * | Status            | Error                  | Retried |
+ * |-------------------|------------------------|---------|
+ * | 408, 504          | GatewayTimeoutError    | yes     |
+ * | 429, 5xx          | GatewayServerError     | yes     |
+ * | 401, 403          | PaymentAuthError       | no      |
+ * | 402               | PaymentDeclinedError   | no      |
+ * | 404               | PaymentNotFoundError   | no      |
+ * | other 4xx         | PaymentValidationError | no      |
+ */
+
+const STATUS_BY_ERROR_TYPE: Record<string, number> = {
+  GatewayTimeoutError: 504,
+  GatewayServerError: 500,
+  PaymentValidationError: 400,
+  PaymentAuthError: 401,
+  PaymentDeclinedError: 402,
+  PaymentNotFoundError: 404,
+};
+
+export function errorForStatus(status: number, message?: string): PaymentError {
+  if (status === 408 || status === 504) {
+    return new GatewayTimeoutError(message);
+  }
+  if (status === 429 || status >= 500) {
+    return new GatewayServerError(message);
+  }
+  if (status === 401 || status === 403) {
+    return new PaymentAuthError(message);
+  }
+  if (status === 402) {
+    return new PaymentDeclinedError(message);
+  }
+  if (status === 404) {
+    return new PaymentNotFoundError(message);
+  }
+  return new PaymentValidationError(message);
+}
+
+export function statusForError(error: unknown): number {
+  if (error instanceof ApplicationFailure && error.type) {
+    return STATUS_BY_ERROR_TYPE[error.type] ?? 500;
+  }
+  return 500;
+}
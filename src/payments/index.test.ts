@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { loadConfig } from '../config/index.js';
+import { DEFAULT_EXCHANGE_RATES, compare, convert, fromMajor } from '../money/index.js';
+import { paymentLimit } from './index.js';
+
+describe('paymentLimit', () => {
+  const { limits } = loadConfig({}).payments;
+
+  it('reads the default limits in minor units of each currency', () => {
+    assert.deepEqual(paymentLimit(limits, 'VND'), fromMajor(25_000_000, 'VND'));
+    assert.deepEqual(paymentLimit(limits, 'USD'), fromMajor(1000, 'USD'));
+    assert.deepEqual(paymentLimit(limits, 'EUR'), fromMajor(1000, 'EUR'));
+    assert.equal(paymentLimit(limits, 'SGD'), undefined);
+  });
+
+  it('limits a VND payment to about the USD limit', () => {
+    const usdLimit = paymentLimit(limits, 'USD');
+    const vndLimit = paymentLimit(limits, 'VND');
+    assert.ok(usdLimit && vndLimit);
+
+    assert.deepEqual(convert(usdLimit, 'VND', DEFAULT_EXCHANGE_RATES), vndLimit);
+    // About 80 USD, far from the limit it would have exceeded in major units
+    assert.ok(compare(fromMajor(2_000_000, 'VND'), vndLimit) < 0);
+  });
+});
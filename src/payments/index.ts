@@ -0,0 +1,44 @@
+import type { PaymentOptions } from '../config/index.js';
+import type { Money } from '../money/index.js';
+import { type StorageOptions, createStore } from '../persistence/index.js';
+import { PaymentGatewaySimulator } from './gateway-simulator.js';
+import { HttpPaymentProvider } from './http-provider.js';
+import type { PaymentProvider } from './provider.js';
+import { type GatewayTransaction, SimulatedPaymentProvider } from './simulated-provider.js';
+
+export type {
+  AuthorizeRequest,
+  Authorization,
+  Capture,
+  GatewayPaymentStatus,
+  PaymentProvider,
+} from './provider.js';
+
+/**
+ * Create the payment provider selected by `payments.provider`
+ * - simulated: in-process simulator, transactions kept in the configured storage
+ * - http: PSP REST API at `payments.http.baseUrl` (start the stub with npm run start:payment-stub)
+ */
+export function createPaymentProvider(
+  payments: PaymentOptions,
+  storage: StorageOptions
+): PaymentProvider {
+  if (payments.provider === 'http') {
+    return new HttpPaymentProvider(payments.http);
+  }
+  return new SimulatedPaymentProvider(
+    new PaymentGatewaySimulator(payments.simulator),
+    createStore<GatewayTransaction>(storage, 'gateway-transactions')
+  );
+}
+
+/**
+ * Largest single payment in the currency, undefined when `payments.limits` has none
+ */
+export function paymentLimit(
+  limits: PaymentOptions['limits'],
+  currency: string
+): Money | undefined {
+  const minor = limits[currency];
+  return minor === undefined ? undefined : { minor, currency };
+}
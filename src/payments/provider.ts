@@ -0,0 +1,39 @@
+import type { Money } from '../money/index.js';
+
+/**
+ * Seam between the payment activities and a payment service provider (PSP)
+ * Implementations throw the PaymentError subclasses from errors/index.ts so that
+ * Temporal retries transient failures and stops on client/business failures
+ */
+
+export type GatewayPaymentStatus = 'authorized' | 'captured' | 'voided' | 'refunded';
+
+export interface AuthorizeRequest {
+  orderId: string;
+  userId: string;
+  amount: Money;
+  // Same key on every retry: the provider returns the existing authorization
+  idempotencyKey: string;
+}
+
+export interface Authorization {
+  authorizationId: string;
+  amount: Money;
+  status: GatewayPaymentStatus;
+}
+
+export interface Capture {
+  paymentId: string;
+  amount: Money;
+}
+
+export interface PaymentProvider {
+  authorize(request: AuthorizeRequest): Promise<Authorization>;
+  // Charge `amount` (at most the authorized amount, all of it by default); the rest of the
+  // hold is released
+  capture(authorizationId: string, amount?: Money): Promise<Capture>;
+  // Release the held funds of an authorization that was never captured
+  void(authorizationId: string): Promise<void>;
+  refund(paymentId: string): Promise<void>;
+  getStatus(paymentId: string): Promise<GatewayPaymentStatus>;
+}
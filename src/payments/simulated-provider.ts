@@ -0,0 +1,170 @@
+import {
+  GatewayServerError,
+  GatewayTimeoutError,
+  PaymentAuthError,
+  PaymentNotFoundError,
+  PaymentValidationError,
+} from '../errors/index.js';
+import { type Money, compare, formatMoney } from '../money/index.js';
+import type { Store } from '../persistence/index.js';
+import type { GatewayOutcome, PaymentGatewaySimulator } from './gateway-simulator.js';
+import type {
+  Authorization,
+  AuthorizeRequest,
+  Capture,
+  GatewayPaymentStatus,
+  PaymentProvider,
+} from './provider.js';
+
+/**
+ * Provider-side record of a payment, keyed by the idempotency key of the authorization
+ */
+export interface GatewayTransaction {
+  idempotencyKey: string;
+  orderId: string;
+  userId: string;
+  amount: Money;
+  // Charged amount, at most the authorized one
+  capturedAmount?: Money;
+  // Authorization calls received for this key, used as the simulator attempt number
+  attempts: number;
+  authorizationId?: string;
+  paymentId?: string;
+  status?: GatewayPaymentStatus;
+}
+
+function throwForOutcome(outcome: GatewayOutcome): void {
+  switch (outcome) {
+    case 'timeout':
+      throw new GatewayTimeoutError();
+    case 'serverError':
+      throw new GatewayServerError();
+    case 'badRequest':
+      throw new PaymentValidationError();
+    case 'unauthorized':
+      throw new PaymentAuthError();
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+}
+
+/**
+ * Payment provider backed by the gateway simulator
+ * Only authorizations go through the simulator; capture, refund and status are reliable
+ */
+export class SimulatedPaymentProvider implements PaymentProvider {
+  constructor(
+    private readonly simulator: PaymentGatewaySimulator,
+    private readonly transactions: Store<GatewayTransaction>
+  ) {}
+
+  async authorize({
+    orderId,
+    userId,
+    amount,
+    idempotencyKey,
+  }: AuthorizeRequest): Promise<Authorization> {
+    const transaction = await this.transactions.transaction((records) => {
+      const record = records[idempotencyKey] ?? {
+        idempotencyKey,
+        orderId,
+        userId,
+        amount,
+        attempts: 0,
+      };
+      record.attempts += 1;
+      records[idempotencyKey] = record;
+      return { ...record };
+    });
+
+    if (transaction.authorizationId && transaction.status) {
+      return {
+        authorizationId: transaction.authorizationId,
+        amount: transaction.amount,
+        status: transaction.status,
+      };
+    }
+
+    const { outcome, latencyMs } = this.simulator.simulate({
+      orderId,
+      userId,
+      amount: amount.minor,
+      attempt: transaction.attempts,
+    });
+    await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    throwForOutcome(outcome);
+
+    const authorizationId = generateId('auth');
+    await this.transactions.transaction((records) => {
+      records[idempotencyKey].authorizationId = authorizationId;
+      records[idempotencyKey].status = 'authorized';
+    });
+    return { authorizationId, amount, status: 'authorized' };
+  }
+
+  async capture(authorizationId: string, amount?: Money): Promise<Capture> {
+    return this.transactions.transaction((records) => {
+      const record = Object.values(records).find((tx) => tx.authorizationId === authorizationId);
+      if (!record) {
+        throw new PaymentNotFoundError(`Authorization ${authorizationId} not found`);
+      }
+      if (record.status === 'voided' || record.status === 'refunded') {
+        throw new PaymentValidationError(
+          `Authorization ${authorizationId} was already ${record.status}`
+        );
+      }
+      // Capturing twice returns the original capture
+      if (record.paymentId && record.capturedAmount) {
+        return { paymentId: record.paymentId, amount: record.capturedAmount };
+      }
+      const captured = amount ?? record.amount;
+      if (captured.currency !== record.amount.currency || compare(captured, record.amount) > 0) {
+        throw new PaymentValidationError(
+          `Cannot capture ${formatMoney(captured)}, ${formatMoney(record.amount)} authorized`
+        );
+      }
+      record.paymentId = generateId('payment');
+      record.capturedAmount = captured;
+      record.status = 'captured';
+      return { paymentId: record.paymentId, amount: captured };
+    });
+  }
+
+  async void(authorizationId: string): Promise<void> {
+    await this.transactions.transaction((records) => {
+      const record = Object.values(records).find((tx) => tx.authorizationId === authorizationId);
+      if (!record) {
+        throw new PaymentNotFoundError(`Authorization ${authorizationId} not found`);
+      }
+      if (record.status === 'captured' || record.status === 'refunded') {
+        throw new PaymentValidationError(
+          `Authorization ${authorizationId} was already captured, refund it instead`
+        );
+      }
+      record.status = 'voided';
+    });
+  }
+
+  async refund(paymentId: string): Promise<void> {
+    await this.transactions.transaction((records) => {
+      const record = Object.values(records).find((tx) => tx.paymentId === paymentId);
+      if (!record) {
+        throw new PaymentNotFoundError(`Payment ${paymentId} not found`);
+      }
+      record.status = 'refunded';
+    });
+  }
+
+  async getStatus(paymentId: string): Promise<GatewayPaymentStatus> {
+    const records = await this.transactions.transaction((records) => Object.values(records));
+    const record = records.find(
+      (tx) => tx.paymentId === paymentId || tx.authorizationId === paymentId
+    );
+    if (!record?.status) {
+      throw new PaymentNotFoundError(`Payment ${paymentId} not found`);
+    }
+    return record.status;
+  }
+}
@@ -0,0 +1,136 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import { PaymentValidationError } from '../errors/index.js';
+import { isValidMoney } from '../money/index.js';
+import { MemoryStore } from '../persistence/memory-store.js';
+import { PaymentGatewaySimulator, type ScenarioProfile } from './gateway-simulator.js';
+import { statusForError } from './http-status.js';
+import { type GatewayTransaction, SimulatedPaymentProvider } from './simulated-provider.js';
+
+/**
+ * Local stand-in for a PSP REST API, used by HttpPaymentProvider in development
+ *
+ * POST /v1/authorizations                  body {orderId, userId, amount: {minor, currency}},
+ *                                          Idempotency-Key header
+ * POST /v1/authorizations/:id/capture      body {amount?} (partial capture) → {paymentId, amount}
+ * POST /v1/authorizations/:id/void         → {authorizationId, status}
+ * POST /v1/payments/:id/refund             → {paymentId, status}
+ * GET  /v1/payments/:id                    → {paymentId, status}
+ *
+ * Authorizations fail according to the simulator profile, failures are answered with the
+ * status code of the matching payment error (see http-status.ts) and {error: {type, message}}
+ */
+
+const ROUTES: Array<{
+  method: string;
+  pattern: RegExp;
+  handle: (
+    provider: SimulatedPaymentProvider,
+    id: string,
+    req: IncomingMessage,
+    body: unknown
+  ) => Promise<[number, unknown]>;
+}> = [
+  {
+    method: 'POST',
+    pattern: /^\/v1\/authorizations$/,
+    handle: async (provider, _id, req, body) => {
+      const idempotencyKey = req.headers['idempotency-key'];
+      const { orderId, userId, amount } = (body ?? {}) as Record<string, unknown>;
+      if (
+        typeof idempotencyKey !== 'string' ||
+        typeof orderId !== 'string' ||
+        typeof userId !== 'string' ||
+        !isValidMoney(amount)
+      ) {
+        throw new PaymentValidationError(
+          'Expected {orderId, userId, amount: {minor, currency}} and an Idempotency-Key header'
+        );
+      }
+      return [201, await provider.authorize({ orderId, userId, amount, idempotencyKey })];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/v1\/authorizations\/([^/]+)\/capture$/,
+    handle: async (provider, id, _req, body) => {
+      const { amount } = (body ?? {}) as Record<string, unknown>;
+      if (amount !== undefined && !isValidMoney(amount)) {
+        throw new PaymentValidationError('Expected amount: {minor, currency}');
+      }
+      return [201, await provider.capture(id, amount)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/v1\/authorizations\/([^/]+)\/void$/,
+    handle: async (provider, id) => {
+      await provider.void(id);
+      return [200, { authorizationId: id, status: 'voided' }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/v1\/payments\/([^/]+)\/refund$/,
+    handle: async (provider, id) => {
+      await provider.refund(id);
+      return [200, { paymentId: id, status: 'refunded' }];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/v1\/payments\/([^/]+)$/,
+    handle: async (provider, id) => [200, { paymentId: id, status: await provider.getStatus(id) }],
+  },
+];
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new PaymentValidationError('Request body is not valid JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create (but do not start) the stub server; call listen() on the result
+ */
+export function createPaymentStubServer(profile: ScenarioProfile): Server {
+  const provider = new SimulatedPaymentProvider(
+    new PaymentGatewaySimulator(profile),
+    new MemoryStore<GatewayTransaction>()
+  );
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = ROUTES.find(
+      ({ method, pattern }) => method === req.method && pattern.test(url.pathname)
+    );
+    if (!route) {
+      send(res, 404, {
+        error: { type: 'NotFound', message: `No route for ${req.method} ${url.pathname}` },
+      });
+      return;
+    }
+
+    try {
+      const id = decodeURIComponent(route.pattern.exec(url.pathname)?.[1] ?? '');
+      const [status, body] = await route.handle(provider, id, req, await readJson(req));
+      send(res, status, body);
+    } catch (err) {
+      const { name, type, message } = err as Error & { type?: string };
+      send(res, statusForError(err), { error: { type: type ?? name, message } });
+    }
+  });
+}
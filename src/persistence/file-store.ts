@@ -0,0 +1,102 @@
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { Store } from './store.js';
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5000;
+// A lock older than this was left behind by a crashed process
+const LOCK_STALE_MS = 10000;
+
+/**
+ * File store: records are kept in one JSON file shared by every worker process
+ * Transactions take a lock directory next to the file, then read, mutate and
+ * atomically replace the file (write to a temp file + rename) when the records changed
+ */
+export class FileStore<T> implements Store<T> {
+  private readonly lockPath: string;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seed: Record<string, T> = {}
+  ) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const records = this.parse(await this.read());
+    return records[key];
+  }
+
+  async transaction<R>(fn: (records: Record<string, T>) => R): Promise<R> {
+    await this.acquireLock();
+    try {
+      const text = await this.read();
+      const records = this.parse(text);
+      const result = fn(records);
+      // Read-only transactions leave the file (and its mtime) alone
+      const updated = JSON.stringify(records, null, 2);
+      if (updated !== (text ?? JSON.stringify(this.seed, null, 2))) {
+        await this.write(updated);
+      }
+      return result;
+    } finally {
+      await rm(this.lockPath, { recursive: true, force: true });
+    }
+  }
+
+  // Content of the file, undefined before the first write
+  private async read(): Promise<string | undefined> {
+    try {
+      return await readFile(this.filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  private parse(text: string | undefined): Record<string, T> {
+    return text === undefined ? structuredClone(this.seed) : JSON.parse(text);
+  }
+
+  private async write(text: string): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, text);
+    await rename(tempPath, this.filePath);
+  }
+
+  private async acquireLock(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        // mkdir is atomic: exactly one process succeeds in creating the lock
+        await mkdir(this.lockPath);
+        return;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw err;
+        }
+      }
+
+      await this.removeStaleLock();
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on ${this.filePath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private async removeStaleLock(): Promise<void> {
+    try {
+      const { mtimeMs } = await stat(this.lockPath);
+      if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+        await rm(this.lockPath, { recursive: true, force: true });
+      }
+    } catch {
+      // Lock was released in the meantime
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { join } from 'node:path';
+import type {
+  IdempotencyRecord,
+  InventoryItem,
+  Order,
+  OutboxCursor,
+  OutboxRecord,
+  Payment,
+} from '../types/index.js';
+import { FileStore } from './file-store.js';
+import { MemoryStore } from './memory-store.js';
+import {
+  type IdempotencyRepository,
+  type InventoryRepository,
+  type OrderRepository,
+  type OutboxRepository,
+  type PaymentRepository,
+  StoreIdempotencyRepository,
+  StoreInventoryRepository,
+  StoreOrderRepository,
+  StoreOutboxRepository,
+  StorePaymentRepository,
+} from './repositories.js';
+import type { Store } from './store.js';
+
+export type { Store } from './store.js';
+
+export type {
+  IdempotencyRepository,
+  InventoryRepository,
+  OrderRepository,
+  OutboxRepository,
+  PaymentRepository,
+} from './repositories.js';
+
+export type StorageDriver = 'memory' | 'file';
+
+export interface StorageOptions {
+  driver: StorageDriver;
+  // Directory holding the JSON files of the file driver
+  dataDir: string;
+}
+
+export interface Repositories {
+  orders: OrderRepository;
+  inventory: InventoryRepository;
+  payments: PaymentRepository;
+  idempotency: IdempotencyRepository;
+  outbox: OutboxRepository;
+}
+
+// Initial stock, used until the store holds its own copy
+const INVENTORY_SEED: Record<string, InventoryItem> = {
+  'item-1': { name: 'Product 1', quantity: 10 },
+  'item-2': { name: 'Product 2', quantity: 5 },
+  'item-3': { name: 'Product 3', quantity: 8 },
+};
+
+/**
+ * Create the order, inventory, payment and outbox repositories for the selected driver
+ * Use the file driver when running several workers so they share one inventory
+ */
+export function createRepositories(options: StorageOptions): Repositories {
+  return {
+    orders: new StoreOrderRepository(createStore<Order>(options, 'orders')),
+    inventory: new StoreInventoryRepository(createStore(options, 'inventory', INVENTORY_SEED)),
+    payments: new StorePaymentRepository(createStore<Payment>(options, 'payments')),
+    idempotency: new StoreIdempotencyRepository(
+      createStore<IdempotencyRecord>(options, 'idempotency')
+    ),
+    outbox: new StoreOutboxRepository(
+      createStore<OutboxRecord>(options, 'outbox'),
+      createStore<OutboxCursor>(options, 'outbox-cursors')
+    ),
+  };
+}
+
+/**
+ * Create a named store for the selected driver (one JSON file per name with the file driver)
+ */
+export function createStore<T>(
+  options: StorageOptions,
+  name: string,
+  seed: Record<string, T> = {}
+): Store<T> {
+  return options.driver === 'file'
+    ? new FileStore(join(options.dataDir, `${name}.json`), seed)
+    : new MemoryStore(seed);
+}
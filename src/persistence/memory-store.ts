@@ -0,0 +1,20 @@
+import type { Store } from './store.js';
+
+/**
+ * In-memory store: state lives in the worker process and is lost on restart
+ */
+export class MemoryStore<T> implements Store<T> {
+  private readonly records: Record<string, T>;
+
+  constructor(seed: Record<string, T> = {}) {
+    this.records = structuredClone(seed);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return this.records[key];
+  }
+
+  async transaction<R>(fn: (records: Record<string, T>) => R): Promise<R> {
+    return fn(this.records);
+  }
+}
@@ -0,0 +1,196 @@
+import type {
+  IdempotencyRecord,
+  InventoryItem,
+  Order,
+  OutboxCursor,
+  OutboxRecord,
+  OutboxSequence,
+  Payment,
+  SagaEvent,
+} from '../types/index.js';
+import type { Store } from './store.js';
+
+export interface OrderRepository {
+  get(orderId: string): Promise<Order | undefined>;
+  save(order: Order): Promise<void>;
+  update(orderId: string, fn: (order: Order) => void): Promise<Order | undefined>;
+  findByUser(userId: string): Promise<Order[]>;
+  /**
+   * Open orders waiting for a restock of the item
+   */
+  findBackordered(itemId: string): Promise<Order[]>;
+}
+
+export interface InventoryRepository {
+  get(itemId: string): Promise<InventoryItem | undefined>;
+  /**
+   * Atomically read and modify the stock of several items at once
+   */
+  transaction<R>(fn: (stock: Record<string, InventoryItem>) => R): Promise<R>;
+}
+
+export interface PaymentRepository {
+  get(paymentId: string): Promise<Payment | undefined>;
+  save(payment: Payment): Promise<void>;
+  update(paymentId: string, fn: (payment: Payment) => void): Promise<Payment | undefined>;
+}
+
+export interface IdempotencyRepository {
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  save(record: IdempotencyRecord): Promise<void>;
+}
+
+/**
+ * Append-only log of the saga events, read by the outbox relay
+ */
+export interface OutboxRepository {
+  /**
+   * Append an event with the next sequence number; an event whose eventId is already in the
+   * outbox is not appended again, the stored one is returned
+   */
+  append(event: Omit<SagaEvent, 'sequence'>): Promise<SagaEvent>;
+  // Events after the sequence number, oldest first
+  listAfter(sequence: number, limit: number): Promise<SagaEvent[]>;
+  findByOrder(orderId: string): Promise<SagaEvent[]>;
+  // 0 until the sink published its first event
+  getCursor(sink: string): Promise<number>;
+  saveCursor(sink: string, sequence: number): Promise<void>;
+}
+
+/**
+ * Store-backed implementation shared by the entity repositories
+ */
+class StoreRepository<T> {
+  constructor(
+    protected readonly store: Store<T>,
+    private readonly keyOf: (entity: T) => string
+  ) {}
+
+  get(key: string): Promise<T | undefined> {
+    return this.store.get(key);
+  }
+
+  save(entity: T): Promise<void> {
+    return this.store.transaction((records) => {
+      records[this.keyOf(entity)] = entity;
+    });
+  }
+
+  update(key: string, fn: (entity: T) => void): Promise<T | undefined> {
+    return this.store.transaction((records) => {
+      const entity = records[key];
+      if (entity) {
+        fn(entity);
+      }
+      return entity;
+    });
+  }
+}
+
+export class StoreOrderRepository extends StoreRepository<Order> implements OrderRepository {
+  constructor(store: Store<Order>) {
+    super(store, (order) => order.orderId);
+  }
+
+  findByUser(userId: string): Promise<Order[]> {
+    return this.store.transaction((records) =>
+      Object.values(records).filter((order) => order.userId === userId)
+    );
+  }
+
+  findBackordered(itemId: string): Promise<Order[]> {
+    return this.store.transaction((records) =>
+      Object.values(records).filter(
+        ({ status, fulfillment }) =>
+          status === 'created' &&
+          fulfillment?.status === 'backordered' &&
+          fulfillment.shortages.some((shortage) => shortage.itemId === itemId)
+      )
+    );
+  }
+}
+
+export class StorePaymentRepository extends StoreRepository<Payment> implements PaymentRepository {
+  constructor(store: Store<Payment>) {
+    super(store, (payment) => payment.paymentId);
+  }
+}
+
+export class StoreIdempotencyRepository
+  extends StoreRepository<IdempotencyRecord>
+  implements IdempotencyRepository
+{
+  constructor(store: Store<IdempotencyRecord>) {
+    super(store, (record) => record.key);
+  }
+}
+
+export class StoreInventoryRepository implements InventoryRepository {
+  constructor(private readonly store: Store<InventoryItem>) {}
+
+  get(itemId: string): Promise<InventoryItem | undefined> {
+    return this.store.get(itemId);
+  }
+
+  transaction<R>(fn: (stock: Record<string, InventoryItem>) => R): Promise<R> {
+    return this.store.transaction(fn);
+  }
+}
+
+// Key of the sequence counter in the outbox store, never an event ID (those contain ':')
+const OUTBOX_SEQUENCE_KEY = 'sequence';
+
+function eventsOf(records: Record<string, OutboxRecord>): SagaEvent[] {
+  return Object.values(records).filter((record): record is SagaEvent => 'eventId' in record);
+}
+
+export class StoreOutboxRepository implements OutboxRepository {
+  constructor(
+    private readonly events: Store<OutboxRecord>,
+    private readonly cursors: Store<OutboxCursor>
+  ) {}
+
+  append(event: Omit<SagaEvent, 'sequence'>): Promise<SagaEvent> {
+    return this.events.transaction((records) => {
+      const stored = records[event.eventId];
+      if (stored) {
+        return stored as SagaEvent;
+      }
+      // An outbox written before the counter existed continues after its last event
+      const counter = (records[OUTBOX_SEQUENCE_KEY] as OutboxSequence | undefined) ?? {
+        lastSequence: Math.max(0, ...eventsOf(records).map(({ sequence }) => sequence)),
+      };
+      const appended = { ...event, sequence: counter.lastSequence + 1 };
+      records[event.eventId] = appended;
+      records[OUTBOX_SEQUENCE_KEY] = { lastSequence: appended.sequence };
+      return appended;
+    });
+  }
+
+  listAfter(sequence: number, limit: number): Promise<SagaEvent[]> {
+    return this.events.transaction((records) =>
+      eventsOf(records)
+        .filter((event) => event.sequence > sequence)
+        .sort((a, b) => a.sequence - b.sequence)
+        .slice(0, limit)
+    );
+  }
+
+  findByOrder(orderId: string): Promise<SagaEvent[]> {
+    return this.events.transaction((records) =>
+      eventsOf(records)
+        .filter((event) => event.orderId === orderId)
+        .sort((a, b) => a.sequence - b.sequence)
+    );
+  }
+
+  async getCursor(sink: string): Promise<number> {
+    return (await this.cursors.get(sink))?.sequence ?? 0;
+  }
+
+  saveCursor(sink: string, sequence: number): Promise<void> {
+    return this.cursors.transaction((records) => {
+      records[sink] = { sink, sequence, updatedAt: new Date().toISOString() };
+    });
+  }
+}
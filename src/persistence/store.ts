@@ -0,0 +1,9 @@
+/**
+ * Key/value collection backing a repository
+ * Every mutation goes through `transaction`, which is atomic for the backend
+ * (single process for memory, across worker processes for file)
+ */
+export interface Store<T> {
+  get(key: string): Promise<T | undefined>;
+  transaction<R>(fn: (records: Record<string, T>) => R): Promise<R>;
+}
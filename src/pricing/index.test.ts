@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ApplicationFailure } from '@temporalio/common';
+import { type ExchangeRates, fromMajor } from '../money/index.js';
+import type { OrderItem } from '../types/index.js';
+import {
+  DEFAULT_PRICING_RULES,
+  type PricingRules,
+  formatPriceBreakdown,
+  priceOrder,
+  repriceOrder,
+} from './index.js';
+
+const usd = (amount: number) => fromMajor(amount, 'USD');
+const eur = (amount: number) => fromMajor(amount, 'EUR');
+
+const rules: PricingRules = {
+  ...DEFAULT_PRICING_RULES,
+  currency: 'USD',
+  taxRates: { VN: 0.1, US: 0 },
+  shipping: { flatFee: 3_000, freeShippingThreshold: 50_000 },
+  promotions: [
+    {
+      id: 'BULK',
+      description: '10% off 5 or more',
+      itemId: 'item-1',
+      minQuantity: 5,
+      percentOff: 10,
+    },
+  ],
+  coupons: {
+    WELCOME10: { description: '10% off', percentOff: 10 },
+    SAVE50: { description: '50 off', amountOff: 5_000, minSubtotal: 30_000 },
+    FREESHIP: { description: 'Free shipping', freeShipping: true },
+  },
+};
+
+const items: OrderItem[] = [
+  { itemId: 'item-1', name: 'Product 1', quantity: 2, price: usd(100) },
+  { itemId: 'item-2', name: 'Product 2', quantity: 1, price: usd(19.99) },
+];
+
+const rates: ExchangeRates = { base: 'USD', rates: { USD: 1, EUR: 1.25 } };
+
+function rejectsWith(type: string, fn: () => unknown): void {
+  assert.throws(fn, (err: unknown) => err instanceof ApplicationFailure && err.type === type);
+}
+
+describe('priceOrder', () => {
+  it('adds shipping and tax to the subtotal', () => {
+    const pricing = priceOrder({ items }, rules);
+
+    assert.deepEqual(pricing.subtotal, usd(219.99));
+    assert.deepEqual(pricing.discountTotal, usd(0));
+    assert.deepEqual(pricing.shipping, usd(30));
+    // 21.999 rounded to the cent
+    assert.deepEqual(pricing.tax, usd(22));
+    assert.deepEqual(pricing.total, usd(271.99));
+    assert.deepEqual(
+      pricing.lines.map((line) => line.total),
+      [usd(200), usd(19.99)]
+    );
+  });
+
+  it('applies line promotions before the coupon', () => {
+    const pricing = priceOrder(
+      { items: [{ ...items[0], quantity: 5 }], couponCode: 'welcome10' },
+      rules
+    );
+
+    assert.deepEqual(pricing.lines[0].discount, usd(50));
+    assert.deepEqual(
+      pricing.discounts.map(({ code, amount }) => [code, amount]),
+      [
+        ['BULK', usd(50)],
+        ['WELCOME10', usd(45)],
+      ]
+    );
+    assert.deepEqual(pricing.discountTotal, usd(95));
+    // 405 after discounts: free shipping below 500 does not apply
+    assert.deepEqual(pricing.shipping, usd(30));
+    assert.deepEqual(pricing.tax, usd(40.5));
+    assert.deepEqual(pricing.total, usd(475.5));
+  });
+
+  it('uses the tax rate of the region and free shipping coupons', () => {
+    const pricing = priceOrder({ items, couponCode: 'FREESHIP', region: 'us' }, rules);
+
+    assert.equal(pricing.region, 'US');
+    assert.deepEqual(pricing.tax, usd(0));
+    assert.deepEqual(pricing.shipping, usd(0));
+    assert.deepEqual(pricing.total, usd(219.99));
+  });
+
+  it('prices in the order currency, converting the fixed amounts of the rules', () => {
+    const euroItems = [{ ...items[0], price: eur(100) }];
+
+    const pricing = priceOrder({ items: euroItems }, rules, rates);
+
+    assert.equal(pricing.currency, 'EUR');
+    // 30 USD flat fee at 1.25 USD per EUR
+    assert.deepEqual(pricing.shipping, eur(24));
+    assert.deepEqual(pricing.total, eur(244));
+    // 300 USD minimum is 240 EUR
+    rejectsWith('InvalidCouponError', () =>
+      priceOrder({ items: euroItems, couponCode: 'SAVE50' }, rules, rates)
+    );
+  });
+
+  it('ships default fees of the same value whatever the order currency', () => {
+    const vndOrder = priceOrder({ items: [{ ...items[0], price: fromMajor(100_000, 'VND') }] });
+    const usdOrder = priceOrder({ items: [{ ...items[0], price: usd(4) }] });
+
+    assert.deepEqual(vndOrder.shipping, fromMajor(30_000, 'VND'));
+    // 30,000 VND at 25,000 VND per USD
+    assert.deepEqual(usdOrder.shipping, usd(1.2));
+  });
+
+  it('rejects unknown coupons, unmet coupon conditions, regions and currencies', () => {
+    rejectsWith('InvalidCouponError', () => priceOrder({ items, couponCode: 'NOPE' }, rules));
+    rejectsWith('InvalidCouponError', () => priceOrder({ items, couponCode: 'SAVE50' }, rules));
+    rejectsWith('UnsupportedRegionError', () => priceOrder({ items, region: 'FR' }, rules));
+    rejectsWith('UnsupportedCurrencyError', () =>
+      priceOrder({ items: [{ ...items[0], price: fromMajor(100, 'JPY') }] }, rules, rates)
+    );
+  });
+
+  it('drops a coupon that no longer applies when repricing the lines that ship', () => {
+    const bigOrder = [{ ...items[0], quantity: 3 }];
+    const accepted = priceOrder({ items: bigOrder, couponCode: 'SAVE50' }, rules);
+    assert.deepEqual(accepted.discountTotal, usd(50));
+
+    // 100 USD left, below the 300 USD minimum of SAVE50
+    const { pricing, droppedCoupon } = repriceOrder(
+      { items: [{ ...items[0], quantity: 1 }], couponCode: 'SAVE50' },
+      rules
+    );
+    assert.deepEqual(pricing.discounts, []);
+    assert.deepEqual(pricing.total, usd(140));
+    assert.match(droppedCoupon ?? '', /Coupon SAVE50: requires a subtotal of at least 300\.00 USD/);
+
+    const kept = repriceOrder({ items: bigOrder, couponCode: 'SAVE50' }, rules);
+    assert.deepEqual(kept, { pricing: accepted });
+    rejectsWith('UnsupportedRegionError', () => repriceOrder({ items, region: 'FR' }, rules));
+  });
+
+  it('renders the breakdown for emails', () => {
+    const text = formatPriceBreakdown(priceOrder({ items, couponCode: 'WELCOME10' }, rules));
+
+    assert.match(text, /2 × Product 1 @ 100\.00 USD: 200\.00 USD/);
+    assert.match(text, /10% off \(WELCOME10\): -22\.00 USD/);
+    assert.match(text, /Total: 247\.79 USD$/);
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  InvalidCouponError,
+  UnsupportedCurrencyError,
+  UnsupportedRegionError,
+} from '../errors/index.js';
+import {
+  DEFAULT_EXCHANGE_RATES,
+  type ExchangeRates,
+  type Money,
+  add,
+  compare,
+  convert,
+  formatMoney,
+  min,
+  multiply,
+  percentOf,
+  subtract,
+  sum,
+  zero,
+} from '../money/index.js';
+import type { AppliedDiscount, OrderItem, PriceBreakdown, PricedLine } from '../types/index.js';
+
+/**
+ * Pricing engine: turns order items into a line-by-line price breakdown
+ *
+ * 1. Line subtotals (unit price × quantity)
+ * 2. Automatic promotions, per line (e.g. 10% off 5 or more of a product)
+ * 3. Coupon on the discounted subtotal (percentage, fixed amount or free shipping)
+ * 4. Shipping fee, free above a threshold
+ * 5. Tax by region on the discounted subtotal
+ *
+ * Amounts are Money in the currency of the order's items, rounded to its minor unit once
+ * per line / per order. Fixed amounts of the rules (shipping fee, coupon amounts and
+ * minimums) are minor units of the rules currency, converted with the exchange rate table.
+ */
+
+export interface Promotion {
+  id: string;
+  description: string;
+  // Only lines of this product, every line when omitted
+  itemId?: string;
+  minQuantity?: number;
+  percentOff: number;
+}
+
+export interface Coupon {
+  description: string;
+  percentOff?: number;
+  amountOff?: number;
+  freeShipping?: boolean;
+  // Discounted subtotal the order must reach for the coupon to apply
+  minSubtotal?: number;
+}
+
+export interface PricingRules {
+  // Currency of the fixed amounts below, which are in its minor units
+  currency: string;
+  defaultRegion: string;
+  // Region → tax rate (0-1)
+  taxRates: Record<string, number>;
+  shipping: { flatFee: number; freeShippingThreshold?: number };
+  promotions: Promotion[];
+  // Coupon code (upper case) → coupon
+  coupons: Record<string, Coupon>;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  currency: 'VND',
+  defaultRegion: 'VN',
+  taxRates: { VN: 0.1, SG: 0.09, US: 0 },
+  shipping: { flatFee: 30_000, freeShippingThreshold: 500_000 },
+  promotions: [
+    {
+      id: 'BULK-ITEM-1',
+      description: '10% off 5 or more Product 1',
+      itemId: 'item-1',
+      minQuantity: 5,
+      percentOff: 10,
+    },
+  ],
+  coupons: {
+    WELCOME10: { description: '10% off your order', percentOff: 10 },
+    SAVE50: {
+      description: '50,000 VND off orders of 300,000 VND or more',
+      amountOff: 50_000,
+      minSubtotal: 300_000,
+    },
+    FREESHIP: { description: 'Free shipping', freeShipping: true },
+  },
+};
+
+export interface PricingInput {
+  items: OrderItem[];
+  couponCode?: string;
+  region?: string;
+}
+
+/**
+ * Price an order with the given rules, in the currency of its items
+ * @throws InvalidCouponError for an unknown coupon or one whose conditions are not met
+ * @throws UnsupportedRegionError when no tax rate is configured for the region
+ * @throws UnsupportedCurrencyError when the order currency cannot be converted from the
+ *   currency of the rules
+ */
+export function priceOrder(
+  { items, couponCode, region: requestedRegion }: PricingInput,
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  exchangeRates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): PriceBreakdown {
+  const region = (requestedRegion ?? rules.defaultRegion).toUpperCase();
+  const taxRate = rules.taxRates[region];
+  if (taxRate === undefined) {
+    throw new UnsupportedRegionError(region);
+  }
+
+  const { currency } = items[0].price;
+  if (
+    currency !== rules.currency &&
+    (exchangeRates.rates[currency] === undefined ||
+      exchangeRates.rates[rules.currency] === undefined)
+  ) {
+    throw new UnsupportedCurrencyError(currency, `no exchange rate from ${rules.currency}`);
+  }
+  // Fixed amounts of the rules are in minor units of the rules currency
+  const ruleAmount = (minor: number): Money =>
+    convert({ minor, currency: rules.currency }, currency, exchangeRates);
+
+  const discountsByCode = new Map<string, AppliedDiscount>();
+  function applyDiscount(code: string, description: string, amount: Money): void {
+    const applied = discountsByCode.get(code) ?? { code, description, amount: zero(currency) };
+    applied.amount = add(applied.amount, amount);
+    discountsByCode.set(code, applied);
+  }
+
+  // Lines and automatic promotions
+  const lines: PricedLine[] = items.map((item) => {
+    const subtotal = multiply(item.price, item.quantity);
+    let discount = zero(currency);
+    for (const promotion of rules.promotions) {
+      const applies =
+        (promotion.itemId === undefined || promotion.itemId === item.itemId) &&
+        item.quantity >= (promotion.minQuantity ?? 1);
+      if (!applies) {
+        continue;
+      }
+      const amount = min(percentOf(subtotal, promotion.percentOff), subtract(subtotal, discount));
+      discount = add(discount, amount);
+      applyDiscount(promotion.id, promotion.description, amount);
+    }
+    return {
+      itemId: item.itemId,
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      subtotal,
+      discount,
+      total: subtract(subtotal, discount),
+    };
+  });
+
+  const subtotal = sum(
+    lines.map((line) => line.subtotal),
+    currency
+  );
+  let discounted = sum(
+    lines.map((line) => line.total),
+    currency
+  );
+
+  // Coupon on the order
+  let freeShipping = false;
+  if (couponCode) {
+    const code = couponCode.trim().toUpperCase();
+    const coupon = rules.coupons[code];
+    if (!coupon) {
+      throw new InvalidCouponError(code, 'unknown coupon');
+    }
+    if (coupon.minSubtotal !== undefined) {
+      const minSubtotal = ruleAmount(coupon.minSubtotal);
+      if (compare(discounted, minSubtotal) < 0) {
+        throw new InvalidCouponError(
+          code,
+          `requires a subtotal of at least ${formatMoney(minSubtotal)}`
+        );
+      }
+    }
+    const amount = min(
+      add(
+        coupon.percentOff ? percentOf(discounted, coupon.percentOff) : zero(currency),
+        ruleAmount(coupon.amountOff ?? 0)
+      ),
+      discounted
+    );
+    discounted = subtract(discounted, amount);
+    freeShipping = coupon.freeShipping === true;
+    if (amount.minor > 0) {
+      applyDiscount(code, coupon.description, amount);
+    }
+  }
+
+  // Shipping and tax
+  const { flatFee, freeShippingThreshold } = rules.shipping;
+  const shipping =
+    freeShipping ||
+    (freeShippingThreshold !== undefined &&
+      compare(discounted, ruleAmount(freeShippingThreshold)) >= 0)
+      ? zero(currency)
+      : ruleAmount(flatFee);
+  const tax = multiply(discounted, taxRate);
+
+  return {
+    currency,
+    region,
+    lines,
+    subtotal,
+    discounts: [...discountsByCode.values()],
+    discountTotal: subtract(subtotal, discounted),
+    shipping,
+    taxRate,
+    tax,
+    total: sum([discounted, shipping, tax], currency),
+  };
+}
+
+export interface RepricedOrder {
+  pricing: PriceBreakdown;
+  // Why the coupon was dropped, e.g. its minimum is no longer reached
+  droppedCoupon?: string;
+}
+
+/**
+ * Price the lines of an order that ship, after its payment was authorized for all of them
+ * A coupon accepted for the whole order may no longer apply to fewer lines: its discount is
+ * dropped instead of failing the order
+ * @throws UnsupportedRegionError, UnsupportedCurrencyError like priceOrder
+ */
+export function repriceOrder(
+  input: PricingInput,
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  exchangeRates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): RepricedOrder {
+  try {
+    return { pricing: priceOrder(input, rules, exchangeRates) };
+  } catch (error) {
+    if (!(error instanceof InvalidCouponError)) {
+      throw error;
+    }
+    return {
+      pricing: priceOrder({ ...input, couponCode: undefined }, rules, exchangeRates),
+      droppedCoupon: error.message,
+    };
+  }
+}
+
+/**
+ * Plain text rendering of a breakdown, e.g. for the confirmation email
+ */
+export function formatPriceBreakdown(pricing: PriceBreakdown): string {
+  const rows = pricing.lines.map((line) => {
+    const discount = line.discount.minor > 0 ? ` (-${formatMoney(line.discount)})` : '';
+    return `${line.quantity} × ${line.name} @ ${formatMoney(line.unitPrice)}: ${formatMoney(line.subtotal)}${discount}`;
+  });
+  rows.push(`Subtotal: ${formatMoney(pricing.subtotal)}`);
+  for (const discount of pricing.discounts) {
+    rows.push(`${discount.description} (${discount.code}): -${formatMoney(discount.amount)}`);
+  }
+  rows.push(`Shipping: ${pricing.shipping.minor > 0 ? formatMoney(pricing.shipping) : 'free'}`);
+  rows.push(
+    `Tax (${pricing.region} ${Math.round(pricing.taxRate * 100)}%): ${formatMoney(pricing.tax)}`
+  );
+  rows.push(`Total: ${formatMoney(pricing.total)}`);
+  return rows.join('\n');
+}
@@ -0,0 +1,55 @@
+import { userInfo } from 'node:os';
+import { Client, Connection } from '@temporalio/client';
+import { ApiError } from './api/errors.js';
+import { OrderService, type ReviewDecision } from './api/orders.js';
+import { connectionOptions, loadConfig } from './config/index.js';
+import { formatMoney } from './money/index.js';
+import { formatRiskMatches } from './risk/index.js';
+
+/**
+ * Work the manual review queue from the command line
+ *
+ *   npm run review -- list
+ *   npm run review -- approve <orderId> [note]
+ *   npm run review -- reject <orderId> [note]
+ *
+ * Decisions are signed with REVIEWER, or the OS user name when it is not set
+ */
+
+const USAGE = 'Usage: npm run review -- list | approve <orderId> [note] | reject <orderId> [note]';
+
+async function run(): Promise<void> {
+  const [command, orderId, ...noteWords] = process.argv.slice(2);
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
+  const client = new Client({ connection, namespace: config.temporal.namespace });
+  const orders = new OrderService(client, config);
+
+  try {
+    if (command === 'list') {
+      const reviews = await orders.listPendingReviews(100);
+      console.log(`🧑‍⚖️ ${reviews.length} order(s) waiting for a review\n`);
+      for (const { orderId: id, userId, totalAmount, review } of reviews) {
+        const total = totalAmount ? formatMoney(totalAmount) : '?';
+        console.log(`${id}  user=${userId ?? '?'}  total=${total}`);
+        console.log(`   since ${review.requestedAt} (timeout ${review.timeout})`);
+        console.log(`   ${formatRiskMatches(review.matchedRules)}`);
+      }
+    } else if ((command === 'approve' || command === 'reject') && orderId) {
+      const reviewer = process.env.REVIEWER || userInfo().username;
+      const note = noteWords.join(' ') || undefined;
+      await orders.review(orderId, command as ReviewDecision, { reviewer, note });
+      console.log(`✅ Sent ${command} for ${orderId} as ${reviewer}`);
+    } else {
+      console.error(USAGE);
+      process.exitCode = 1;
+    }
+  } finally {
+    await connection.close();
+  }
+}
+
+run().catch((err) => {
+  console.error(`❌ ${err instanceof ApiError ? err.message : err}`);
+  process.exit(1);
+});
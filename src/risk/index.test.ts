@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_EXCHANGE_RATES, fromMajor } from '../money/index.js';
+import type { Order } from '../types/index.js';
+import { DEFAULT_RISK_RULES, type RiskInput, type RiskRules, assessRisk } from './index.js';
+
+const usd = (amount: number) => fromMajor(amount, 'USD');
+
+const rules: RiskRules = {
+  blocklist: { userIds: ['user-banned'], action: 'reject' },
+  itemQuantityCaps: { caps: { 'item-1': 3 }, action: 'reject' },
+  velocity: { maxOrders: 2, windowMinutes: 60, action: 'review' },
+  dailySpend: { limits: { USD: 50_000 }, action: 'review' },
+  highValue: { thresholds: { USD: 30_000 }, action: 'review' },
+};
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+const input: RiskInput = {
+  orderId: 'order-new',
+  userId: 'user-1',
+  items: [{ itemId: 'item-1', name: 'Product 1', quantity: 2, price: usd(50) }],
+  total: usd(100),
+};
+
+function previousOrder(orderId: string, minutesAgo: number, total: number): Order {
+  return {
+    orderId,
+    userId: 'user-1',
+    items: [],
+    totalAmount: usd(total),
+    status: 'created',
+    createdAt: new Date(now.getTime() - minutesAgo * 60_000).toISOString(),
+  };
+}
+
+function assess(overrides: Partial<RiskInput> = {}, history: Order[] = []) {
+  return assessRisk({ ...input, ...overrides }, history, rules, DEFAULT_EXCHANGE_RATES, now);
+}
+
+describe('assessRisk', () => {
+  it('approves an ordinary order', () => {
+    assert.deepEqual(assess(), {
+      decision: 'approve',
+      matchedRules: [],
+      assessedAt: now.toISOString(),
+    });
+  });
+
+  it('rejects blocklisted users and quantities above the cap of a product', () => {
+    const assessment = assess({
+      userId: 'user-banned',
+      items: [input.items[0], { ...input.items[0], quantity: 2 }],
+    });
+
+    assert.equal(assessment.decision, 'reject');
+    assert.deepEqual(
+      assessment.matchedRules.map(({ rule }) => rule),
+      ['blocklist', 'itemQuantityCap']
+    );
+    assert.match(assessment.matchedRules[1].message, /4 × item-1 exceeds the cap of 3/);
+  });
+
+  it('flags bursts of orders within the velocity window', () => {
+    const recent = [previousOrder('order-1', 10, 10), previousOrder('order-2', 30, 10)];
+
+    assert.equal(assess({}, recent).matchedRules[0]?.rule, 'velocity');
+    // Older orders and the order itself do not count
+    const spread = [previousOrder('order-1', 90, 10), previousOrder('order-new', 1, 100)];
+    assert.equal(assess({}, spread).decision, 'approve');
+  });
+
+  it('adds the orders of the last 24 hours to the daily spend, except cancelled ones', () => {
+    const history = [
+      previousOrder('order-1', 120, 250),
+      { ...previousOrder('order-2', 180, 400), status: 'cancelled' as const },
+      previousOrder('order-3', 25 * 60, 400),
+    ];
+
+    assert.equal(assess({}, history).decision, 'approve');
+
+    const [match] = assess({}, [...history, previousOrder('order-4', 240, 200)]).matchedRules;
+    assert.equal(match.rule, 'dailySpend');
+    assert.match(match.message, /550\.00 USD spent in 24 hours/);
+  });
+
+  it('routes high-value orders to review, per currency', () => {
+    const assessment = assess({ total: usd(300.01) });
+
+    assert.equal(assessment.decision, 'review');
+    assert.deepEqual(
+      assessment.matchedRules.map(({ rule, action }) => [rule, action]),
+      [['highValue', 'review']]
+    );
+    assert.equal(assess({ total: fromMajor(300_000, 'VND') }).decision, 'approve');
+  });
+
+  it('ships default rules of about the same value in every currency', () => {
+    const assessDefault = (total: RiskInput['total']) =>
+      assessRisk({ ...input, total }, [], DEFAULT_RISK_RULES, DEFAULT_EXCHANGE_RATES, now);
+
+    // About 80 USD
+    assert.equal(assessDefault(fromMajor(2_000_000, 'VND')).decision, 'approve');
+    assert.equal(assessDefault(usd(80)).decision, 'approve');
+    // About 1,000 USD
+    assert.equal(assessDefault(fromMajor(25_000_000, 'VND')).matchedRules[0]?.rule, 'highValue');
+    assert.equal(assessDefault(usd(1000)).matchedRules[0]?.rule, 'highValue');
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  type ExchangeRates,
+  type Money,
+  add,
+  compare,
+  convert,
+  formatMoney,
+} from '../money/index.js';
+import type {
+  Order,
+  OrderItem,
+  RiskAction,
+  RiskAssessment,
+  RiskRuleMatch,
+} from '../types/index.js';
+
+/**
+ * Fraud / risk assessment of an order, run before any payment is attempted
+ *
+ * Every rule that matches contributes its configured action; the decision is the most
+ * severe one (reject > review > approve) and every matched rule is kept on the order.
+ *
+ * - blocklist: the user is not allowed to order
+ * - itemQuantityCaps: more units of a product than allowed in one order
+ * - velocity: too many orders from the user in a short window
+ * - dailySpend: the user's orders of the last 24 hours, this one included, add up to more
+ *   than the limit of the order currency
+ * - highValue: the order total is above the threshold of its currency
+ */
+
+export interface RiskRules {
+  blocklist: { userIds: string[]; action: RiskAction };
+  // itemId → maximum quantity in one order
+  itemQuantityCaps: { caps: Record<string, number>; action: RiskAction };
+  velocity: { maxOrders: number; windowMinutes: number; action: RiskAction };
+  // Currency → maximum spend of a user over 24 hours, in minor units of the currency
+  dailySpend: { limits: Record<string, number>; action: RiskAction };
+  // Currency → totals above this amount are flagged, in minor units of the currency
+  highValue: { thresholds: Record<string, number>; action: RiskAction };
+}
+
+export const DEFAULT_RISK_RULES: RiskRules = {
+  blocklist: { userIds: ['user-blocked'], action: 'reject' },
+  itemQuantityCaps: { caps: {}, action: 'reject' },
+  velocity: { maxOrders: 5, windowMinutes: 60, action: 'review' },
+  // About the same value in every currency: 125,000,000 VND, 5,000.00 USD and EUR
+  dailySpend: {
+    limits: { VND: 125_000_000, USD: 500_000, EUR: 500_000 },
+    action: 'review',
+  },
+  // 20,000,000 VND, 800.00 USD and EUR
+  highValue: { thresholds: { VND: 20_000_000, USD: 80_000, EUR: 80_000 }, action: 'review' },
+};
+
+export interface RiskInput {
+  orderId: string;
+  userId: string;
+  items: OrderItem[];
+  // Priced total, the amount that will be charged
+  total: Money;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Amount charged for a previous order, in the currency of the order being assessed
+function chargedAmount(order: Order, currency: string, rates: ExchangeRates): Money | undefined {
+  const amount = order.pricing?.total ?? order.totalAmount;
+  const convertible =
+    rates.rates[amount.currency] !== undefined && rates.rates[currency] !== undefined;
+  if (amount.currency !== currency && !convertible) {
+    return undefined;
+  }
+  return convert(amount, currency, rates);
+}
+
+/**
+ * Assess an order against the rules
+ * @param history previous orders of the same user (the order itself is ignored if present)
+ */
+export function assessRisk(
+  { orderId, userId, items, total }: RiskInput,
+  history: Order[],
+  rules: RiskRules,
+  exchangeRates: ExchangeRates,
+  now: Date
+): RiskAssessment {
+  const matches: RiskRuleMatch[] = [];
+  const previous = history.filter((order) => order.orderId !== orderId);
+  const { currency } = total;
+
+  if (rules.blocklist.userIds.includes(userId)) {
+    matches.push({
+      rule: 'blocklist',
+      action: rules.blocklist.action,
+      message: `User ${userId} is blocklisted`,
+    });
+  }
+
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.itemId, (quantities.get(item.itemId) ?? 0) + item.quantity);
+  }
+  for (const [itemId, quantity] of quantities) {
+    const cap = rules.itemQuantityCaps.caps[itemId];
+    if (cap !== undefined && quantity > cap) {
+      matches.push({
+        rule: 'itemQuantityCap',
+        action: rules.itemQuantityCaps.action,
+        message: `${quantity} × ${itemId} exceeds the cap of ${cap} per order`,
+      });
+    }
+  }
+
+  const { maxOrders, windowMinutes } = rules.velocity;
+  const windowStart = now.getTime() - windowMinutes * 60 * 1000;
+  const ordersInWindow =
+    previous.filter((order) => Date.parse(order.createdAt) >= windowStart).length + 1;
+  if (ordersInWindow > maxOrders) {
+    matches.push({
+      rule: 'velocity',
+      action: rules.velocity.action,
+      message: `${ordersInWindow} orders in ${windowMinutes} min, at most ${maxOrders} allowed`,
+    });
+  }
+
+  const dailyLimit = rules.dailySpend.limits[currency];
+  if (dailyLimit !== undefined) {
+    // Cancelled orders were never charged (or were refunded)
+    const spent = previous
+      .filter(
+        (order) =>
+          order.status !== 'cancelled' && Date.parse(order.createdAt) >= now.getTime() - DAY_MS
+      )
+      .map((order) => chargedAmount(order, currency, exchangeRates))
+      .reduce<Money>((sum, amount) => (amount ? add(sum, amount) : sum), total);
+    const limit: Money = { minor: dailyLimit, currency };
+    if (compare(spent, limit) > 0) {
+      matches.push({
+        rule: 'dailySpend',
+        action: rules.dailySpend.action,
+        message: `${formatMoney(spent)} spent in 24 hours with this order, limit ${formatMoney(limit)}`,
+      });
+    }
+  }
+
+  const thresholdMinor = rules.highValue.thresholds[currency];
+  const threshold: Money | undefined =
+    thresholdMinor === undefined ? undefined : { minor: thresholdMinor, currency };
+  if (threshold && compare(total, threshold) > 0) {
+    matches.push({
+      rule: 'highValue',
+      action: rules.highValue.action,
+      message: `Total ${formatMoney(total)} is above ${formatMoney(threshold)}`,
+    });
+  }
+
+  const decision = matches.some((match) => match.action === 'reject')
+    ? 'reject'
+    : matches.length > 0
+      ? 'review'
+      : 'approve';
+  return { decision, matchedRules: matches, assessedAt: now.toISOString() };
+}
+
+/**
+ * One line per matched rule, for error messages and logs
+ */
+export function formatRiskMatches(matches: RiskRuleMatch[]): string {
+  return matches.map(({ rule, message }) => `${rule}: ${message}`).join('; ');
+}
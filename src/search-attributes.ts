@@ -0,0 +1,38 @@
+import { type SearchAttributeType, defineSearchAttributeKey } from '@temporalio/common';
+
+/**
+ * Custom search attributes for filtering orders in the Temporal UI
+ * Shared by the workflow (upsert) and the worker (namespace registration)
+ */
+
+export const ORDER_STATUS = defineSearchAttributeKey('OrderStatus', 'KEYWORD');
+
+// Values of ORDER_STATUS, from PROCESSING to one of the final values
+export const ORDER_STATUS_VALUES = [
+  'PROCESSING',
+  'PENDING_REVIEW',
+  'BACKORDERED',
+  'COMPENSATING',
+  // A compensation failed, waiting for an operator (retryCompensation / markResolved)
+  'NEEDS_ATTENTION',
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+] as const;
+export type OrderStatusValue = (typeof ORDER_STATUS_VALUES)[number];
+
+export const USER_ID = defineSearchAttributeKey('UserId', 'KEYWORD');
+// Major units of the order currency (CURRENCY)
+export const TOTAL_AMOUNT = defineSearchAttributeKey('TotalAmount', 'DOUBLE');
+export const CURRENCY = defineSearchAttributeKey('Currency', 'KEYWORD');
+export const CURRENT_STEP = defineSearchAttributeKey('CurrentStep', 'KEYWORD');
+export const FAILURE_REASON = defineSearchAttributeKey('FailureReason', 'TEXT');
+
+export const ORDER_SEARCH_ATTRIBUTES: Array<{ name: string; type: SearchAttributeType }> = [
+  ORDER_STATUS,
+  USER_ID,
+  TOTAL_AMOUNT,
+  CURRENCY,
+  CURRENT_STEP,
+  FAILURE_REASON,
+];
@@ -0,0 +1,47 @@
+import { Client, Connection, ScheduleAlreadyRunning } from '@temporalio/client';
+import { connectionOptions, loadConfig } from './config/index.js';
+import { inventorySweeperWorkflow } from './workflows/index.js';
+
+const SCHEDULE_ID = 'inventory-hold-sweeper';
+
+/**
+ * Create (or update) the schedule that runs inventorySweeperWorkflow every
+ * `inventory.sweepInterval`, releasing the stock held by orders that never completed
+ */
+async function run(): Promise<void> {
+  const config = loadConfig();
+  const connection = await Connection.connect(connectionOptions(config.temporal));
+  const client = new Client({ connection, namespace: config.temporal.namespace });
+  const { sweepInterval } = config.inventory;
+
+  try {
+    await client.schedule.create({
+      scheduleId: SCHEDULE_ID,
+      spec: { intervals: [{ every: sweepInterval }] },
+      action: {
+        type: 'startWorkflow',
+        workflowType: inventorySweeperWorkflow,
+        taskQueue: config.temporal.taskQueue,
+      },
+      // A slow sweep is never run twice at once
+      policies: { overlap: 'SKIP' },
+    });
+    console.log(`🧹 Created schedule ${SCHEDULE_ID}, sweeping every ${sweepInterval}`);
+  } catch (err) {
+    if (!(err instanceof ScheduleAlreadyRunning)) {
+      throw err;
+    }
+    await client.schedule.getHandle(SCHEDULE_ID).update((schedule) => ({
+      ...schedule,
+      spec: { intervals: [{ every: sweepInterval }] },
+    }));
+    console.log(`🧹 Updated schedule ${SCHEDULE_ID}, sweeping every ${sweepInterval}`);
+  } finally {
+    await connection.close();
+  }
+}
+
+run().catch((err) => {
+  console.error('❌ Error creating the sweeper schedule:', err);
+  process.exit(1);
+});
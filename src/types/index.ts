@@ -2,72 +2,498 @@
  * Type definitions for the Temporal order service
  */
 
+import type { Duration } from '@temporalio/common';
+import type { Money } from '../money/index.js';
+
+export type { Money } from '../money/index.js';
+
 export interface OrderItem {
   itemId: string;
   name: string;
   quantity: number;
-  price: number;
+  // Unit price, every line of an order uses the same currency
+  price: Money;
 }
 
 export interface OrderData {
   orderId: string;
   userId: string;
   items: OrderItem[];
-  totalAmount: number;
+  // Items subtotal (Σ price × quantity) in the order currency, the amount charged comes
+  // from the pricing step
+  totalAmount: Money;
+  couponCode?: string;
+  // Tax region, e.g. "VN" (defaults to the pricing rules' default region)
+  region?: string;
+  // What to do when an item is short (defaults to all-or-nothing)
+  fulfillmentPolicy?: FulfillmentPolicy;
+}
+
+/**
+ * - all-or-nothing: the order fails when any line is short
+ * - partial: ship and charge the available quantities, drop the rest
+ * - backorder: wait for the missing items to be restocked, then ship everything
+ */
+export type FulfillmentPolicy = 'all-or-nothing' | 'partial' | 'backorder';
+
+export interface PricedLine {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  // unitPrice × quantity, before discounts
+  subtotal: Money;
+  discount: Money;
+  total: Money;
+}
+
+export interface AppliedDiscount {
+  // Promotion ID or coupon code
+  code: string;
+  description: string;
+  amount: Money;
+}
+
+/**
+ * Result of the pricing step, stored on the order and used for the payment and emails
+ */
+export interface PriceBreakdown {
+  // Order currency, every amount of the breakdown uses it
+  currency: string;
+  region: string;
+  lines: PricedLine[];
+  subtotal: Money;
+  discounts: AppliedDiscount[];
+  discountTotal: Money;
+  shipping: Money;
+  taxRate: number;
+  tax: Money;
+  // subtotal - discountTotal + shipping + tax, the amount charged
+  total: Money;
+}
+
+export type RiskDecision = 'approve' | 'review' | 'reject';
+
+// What a matched risk rule asks for
+export type RiskAction = Exclude<RiskDecision, 'approve'>;
+
+export type RiskRuleId = 'blocklist' | 'itemQuantityCap' | 'velocity' | 'dailySpend' | 'highValue';
+
+export interface RiskRuleMatch {
+  rule: RiskRuleId;
+  action: RiskAction;
+  message: string;
+}
+
+/**
+ * Result of the risk check, recorded on the order before any payment is attempted
+ */
+export interface RiskAssessment {
+  // Most severe action of the matched rules, approve when none matched
+  decision: RiskDecision;
+  matchedRules: RiskRuleMatch[];
+  assessedAt: string;
+}
+
+export interface ReviewRequest {
+  // Operator who made the decision
+  reviewer: string;
+  note?: string;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * Manual review of an order flagged by the risk check, decided by an operator signal
+ * (approveOrder / rejectOrder) or expired after `timeout`
+ */
+export interface ManualReview {
+  status: ReviewStatus;
+  matchedRules: RiskRuleMatch[];
+  requestedAt: string;
+  timeout: Duration;
+  reviewer?: string;
+  note?: string;
+  decidedAt?: string;
 }
 
 export interface Order {
   orderId: string;
   userId: string;
   items: OrderItem[];
-  totalAmount: number;
-  status: 'created' | 'cancelled';
+  totalAmount: Money;
+  // completed once the payment is captured
+  status: 'created' | 'completed' | 'cancelled';
+  pricing?: PriceBreakdown;
+  risk?: RiskAssessment;
+  fulfillment?: Fulfillment;
   createdAt: string;
+  completedAt?: string;
   cancelledAt?: string;
 }
 
+/**
+ * Stock held for one order, from reserveInventory until the payment is captured (the hold
+ * is committed), the order is compensated or the hold expires (released by the sweeper)
+ */
+export interface InventoryHold {
+  quantity: number;
+  reservedAt: string;
+  expiresAt: string;
+  // Set when the payment capture starts, the sweeper no longer releases the hold
+  committedAt?: string;
+}
+
 export interface InventoryItem {
   name: string;
+  // Available for new reservations
   quantity: number;
+  // Sum of the hold quantities
   reserved?: number;
+  holds?: Record<string, InventoryHold>;
+}
+
+export interface ReservationLine {
+  itemId: string;
+  quantity: number;
 }
 
 export interface Payment {
   paymentId: string;
+  // Authorization the payment was captured from
+  authorizationId?: string;
   orderId: string;
   userId: string;
-  amount: number;
+  amount: Money;
   status: 'completed' | 'refunded';
   processedAt: string;
   refundedAt?: string;
 }
 
+/**
+ * Result of an activity execution, recorded under its idempotency key
+ */
+export interface IdempotencyRecord {
+  key: string;
+  // Order the step belongs to (the item, for stock changes)
+  orderId: string;
+  step: string;
+  result: unknown;
+  attempt: number;
+  recordedAt: string;
+}
+
+export type SagaEventType =
+  | 'order.created'
+  | 'inventory.reserved'
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'order.completed'
+  | 'compensation.executed'
+  | 'compensation.failed'
+  // An operator marked a failed compensation as handled by hand
+  | 'compensation.resolved'
+  | 'order.cancelled';
+
+/**
+ * Outbox entry: one state transition of an order saga, never modified once appended
+ */
+export interface SagaEvent {
+  // Position in the outbox, assigned on append; the relay publishes in this order
+  sequence: number;
+  // <workflowId>:<runId>:<step>:<type>, the same when a retried activity appends it again;
+  // transitions that repeat (a compensation failing again) end with :<attempt>
+  eventId: string;
+  type: SagaEventType;
+  orderId: string;
+  workflowId: string;
+  // Forward or compensation step that made the transition
+  step: string;
+  data: Record<string, unknown>;
+  occurredAt: string;
+}
+
+/**
+ * Last sequence number handed out by the outbox, kept in the outbox store itself so that an
+ * append takes it in the same transaction
+ */
+export interface OutboxSequence {
+  lastSequence: number;
+}
+
+export type OutboxRecord = SagaEvent | OutboxSequence;
+
+/**
+ * Saga event recorded by the workflow itself, for transitions no activity records
+ */
+export interface SagaEventRequest {
+  orderId: string;
+  type: SagaEventType;
+  step: string;
+  data?: Record<string, unknown>;
+  // Attempt of a transition that can happen more than once for the step
+  attempt?: number;
+}
+
+/**
+ * Last outbox sequence published to a sink by the relay
+ */
+export interface OutboxCursor {
+  sink: string;
+  sequence: number;
+  updatedAt: string;
+}
+
 export interface ActivityResult {
   success: boolean;
   message?: string;
+  attempt?: number;
 }
 
 export interface CreateOrderResult extends ActivityResult {
   orderId?: string;
   userId?: string;
   items?: OrderItem[];
-  totalAmount?: number;
+  totalAmount?: Money;
   status?: string;
   createdAt?: string;
 }
 
+export interface PriceOrderResult extends ActivityResult {
+  pricing: PriceBreakdown;
+}
+
+export interface AssessRiskResult extends ActivityResult {
+  assessment: RiskAssessment;
+}
+
+export type InventoryShortage = ReservationLine & { available: number };
+
 export interface ReserveInventoryResult extends ActivityResult {
   message?: string;
+  reserved?: ReservationLine[];
+  // Requested quantity and what was available, for every short line
+  shortages?: InventoryShortage[];
+}
+
+/**
+ * What was actually fulfilled for the order under its policy
+ */
+export interface Fulfillment {
+  policy: FulfillmentPolicy;
+  // backordered while waiting for a restock, partial when short lines were dropped
+  status: 'fulfilled' | 'partial' | 'backordered';
+  reserved: ReservationLine[];
+  shortages: InventoryShortage[];
+  backorderedAt?: string;
+}
+
+export interface ReleaseInventoryResult extends ActivityResult {
+  message: string;
+  released: ReservationLine[];
+}
+
+export interface ExpiredHold extends ReservationLine {
+  orderId: string;
+  expiresAt: string;
+}
+
+export interface SweepInventoryResult {
+  // Expired holds of orders that never completed, returned to stock
+  released: ExpiredHold[];
+  // Holds of completed orders left behind by an interrupted capture, removed from reserved
+  committed: Array<ReservationLine & { orderId: string }>;
+  // Items whose reserved count did not match their holds and was corrected
+  corrected: string[];
+}
+
+export interface RestockRequest {
+  // Units received, added to the available quantity
+  quantity: number;
+  // Name of a new product (or a new name for an existing one)
+  name?: string;
+  requestedBy?: string;
+}
+
+export interface StockAdjustmentRequest {
+  // Correction of the available quantity, e.g. -2 for damaged units
+  delta: number;
+  reason: string;
+  requestedBy?: string;
+}
+
+/**
+ * Operator change to the stock of one product, queued and applied in order by its
+ * inventory workflow; `changeId` keys the change for idempotency
+ */
+export type StockChange = { changeId: string } & (
+  | ({ type: 'restock' } & RestockRequest)
+  | ({ type: 'adjust' } & StockAdjustmentRequest)
+);
+
+export interface StockLevel {
+  itemId: string;
+  name: string;
+  available: number;
+  reserved: number;
+}
+
+export interface ApplyStockChangeResult extends ActivityResult {
+  message: string;
+  // Stock after the change, or unchanged when it was rejected; undefined for an unknown product
+  stock?: StockLevel;
+}
+
+export interface AuthorizePaymentResult extends ActivityResult {
+  authorizationId?: string;
+  amount?: Money;
+  message?: string;
 }
 
-export interface ProcessPaymentResult extends ActivityResult {
+export interface CapturePaymentResult extends ActivityResult {
   paymentId?: string;
-  amount?: number;
+  amount?: Money;
   message?: string;
 }
 
-export interface SendEmailResult extends ActivityResult {
+export interface SendNotificationResult extends ActivityResult {
   message?: string;
+  deliveries?: NotificationDelivery[];
+}
+
+export type NotificationChannelKind = 'email' | 'sms' | 'webhook';
+
+export type NotificationTemplateId = 'orderConfirmation' | 'orderCancellation' | 'lowStockAlert';
+
+/**
+ * Delivery of a notification over one channel, recorded whether it was sent or not
+ * - skipped: the user has no contact, no address for the channel, or the channel is disabled
+ * - failed: the channel rejected it or was unreachable, a retry of the activity tries again
+ */
+export interface NotificationDelivery {
+  // <idempotency key of the activity>:<channel>, the key alone when the user has no contact
+  notificationId: string;
+  template: NotificationTemplateId;
+  userId: string;
+  orderId?: string;
+  channel?: NotificationChannelKind;
+  // Address, phone number or URL the notification was sent to
+  recipient?: string;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+  // Attempts over this channel, retries of the activity included
+  attempts: number;
+  createdAt: string;
+  sentAt?: string;
+}
+
+export interface ActivityRetryConfig {
+  initialInterval: Duration;
+  backoffCoefficient: number;
+  maximumInterval: Duration;
+  maximumAttempts: number;
+}
+
+export interface ActivityConfig {
+  scheduleToCloseTimeout: Duration;
+  retry: ActivityRetryConfig;
+}
+
+/**
+ * Per-run settings passed by the client as the second workflow argument
+ */
+export interface OrderWorkflowOptions {
+  activities?: ActivityConfig;
+  // How long a flagged order waits for an operator before it is rejected
+  reviewTimeout?: Duration;
+  backorder?: BackorderOptions;
+  // No lifecycle events are emitted without it
+  webhooks?: WebhookWorkflowOptions;
+  compensation?: CompensationWorkflowOptions;
+}
+
+/**
+ * Retry policy of the compensation activities, and what the workflow does when one of them
+ * still fails
+ */
+export interface CompensationWorkflowOptions {
+  // Total time a compensation keeps retrying before it is recorded as failed
+  timeout: Duration;
+  // maximumAttempts 0 retries until the timeout
+  retry: ActivityRetryConfig;
+  // Keep the workflow open until an operator retries or resolves its failed compensations
+  awaitOperator: boolean;
+}
+
+/**
+ * Subscribers of the order lifecycle events and the retry policy of their deliveries
+ * URLs and secrets stay in the worker configuration, only the IDs go through the workflow history
+ */
+export interface WebhookWorkflowOptions {
+  subscriptions: WebhookSubscription[];
+  // Per delivery attempt
+  timeout: Duration;
+  retry: ActivityRetryConfig;
+}
+
+export interface WebhookSubscription {
+  subscriberId: string;
+  events: OrderEventType[];
+}
+
+export interface OrderEventData {
+  'order.created': { items: OrderItem[]; total: Money };
+  'order.paid': { paymentId: string; amount: Money };
+  'order.cancelled': { reason: string; errorCode?: string };
+  'order.refunded': { paymentId: string };
+}
+
+export type OrderEventType = keyof OrderEventData;
+
+/**
+ * Order lifecycle event, the body of a webhook delivery
+ */
+export interface OrderEvent<T extends OrderEventType = OrderEventType> {
+  // <orderId>:<type>, stable across retries so receivers can drop duplicates
+  eventId: string;
+  type: T;
+  orderId: string;
+  userId: string;
+  occurredAt: string;
+  data: OrderEventData[T];
+}
+
+export interface DeliverWebhookResult extends ActivityResult {
+  // HTTP status answered by the subscriber
+  status: number;
+}
+
+/**
+ * Delivery given up after its retries were exhausted or a non-retryable answer
+ */
+export interface WebhookDeadLetter {
+  // <eventId>:<subscriberId>
+  deliveryId: string;
+  subscriberId: string;
+  event: OrderEvent;
+  error: string;
+  // Why Temporal stopped retrying, e.g. MAXIMUM_ATTEMPTS_REACHED or NON_RETRYABLE_FAILURE
+  retryState?: string;
+  deadAt: string;
+}
+
+export interface BackorderOptions {
+  // How long a backordered order waits for its missing items before it fails
+  timeout: Duration;
+  // Reservation retried this often even without a restock signal
+  recheckInterval: Duration;
+}
+
+export interface InventoryWorkflowOptions {
+  // A low-stock alert is sent when the available quantity drops to this level or below
+  lowStockThreshold: number;
+  // How often the stock is re-read to notice what orders reserved in the meantime
+  stockCheckInterval: Duration;
 }
 
 export interface WorkflowResult {
@@ -75,14 +501,118 @@ export interface WorkflowResult {
   orderId: string;
   message: string;
   paymentId?: string;
+  pricing?: PriceBreakdown;
+  risk?: RiskAssessment;
+  review?: ManualReview;
+  fulfillment?: Fulfillment;
+  notifications?: NotificationDelivery[];
+  // Compensations that failed, including those retried or resolved by an operator since
+  compensationFailures?: CompensationFailure[];
   error?: string;
+  errorCode?: string;
 }
 
+/**
+ * Undo action for a completed step
+ * voidPayment releases an authorization that was never captured, refundPayment gives back
+ * a captured payment; the workflow swaps the first for the second once it captures
+ */
 export interface CompensationStep {
-  type: 'cancelOrder' | 'releaseInventory' | 'refundPayment';
+  type: 'cancelOrder' | 'releaseInventory' | 'voidPayment' | 'refundPayment';
   data: {
     orderId: string;
-    items?: OrderItem[];
+    authorizationId?: string;
     paymentId?: string;
   };
 }
+
+export type CompensationFailureStatus = 'open' | 'compensated' | 'resolved';
+
+/**
+ * Compensation that failed after its retries, left open until an operator retries it
+ * (retryCompensation) or fixes it by hand (markResolved)
+ */
+export interface CompensationFailure {
+  step: CompensationStep;
+  status: CompensationFailureStatus;
+  error: string;
+  errorCode?: string;
+  // Runs of the compensation, one more per operator retry
+  attempts: number;
+  failedAt: string;
+  // Operator who retried or resolved it
+  operator?: string;
+  note?: string;
+  closedAt?: string;
+}
+
+export interface CompensationRequest {
+  operator: string;
+  note?: string;
+}
+
+export type OrderStep =
+  | 'priceOrder'
+  | 'createOrder'
+  | 'assessRisk'
+  | 'manualReview'
+  | 'authorizePayment'
+  | 'reserveInventory'
+  | 'repriceOrder'
+  | 'sendConfirmationEmail'
+  | 'capturePayment';
+
+export type OrderWorkflowStatus =
+  | 'running'
+  | 'compensating'
+  | 'needs-attention'
+  | 'completed'
+  | 'cancelled';
+
+export interface CancelOrderRequest {
+  reason?: string;
+  requestedBy?: string;
+}
+
+/**
+ * Snapshot of a running order saga, returned by the getOrderStatus query
+ */
+export interface OrderWorkflowState {
+  orderId: string;
+  status: OrderWorkflowStatus;
+  currentStep?: OrderStep;
+  completedSteps: OrderStep[];
+  pricing?: PriceBreakdown;
+  risk?: RiskAssessment;
+  review?: ManualReview;
+  fulfillment?: Fulfillment;
+  // Confirmation and cancellation deliveries so far
+  notifications: NotificationDelivery[];
+  pendingCompensations: CompensationStep[];
+  compensationFailures: CompensationFailure[];
+  lastError?: string;
+  lastErrorCode?: string;
+  retryAttempts: Partial<Record<OrderStep, number>>;
+  // False once the payment capture starts, a cancel from then on is too late
+  cancellable: boolean;
+  cancelRequest?: CancelOrderRequest;
+  // Cancel that arrived after the order could no longer be cancelled, it changed nothing
+  lateCancelRequest?: CancelOrderRequest;
+}
+
+/**
+ * Snapshot of the inventory workflow of a product, returned by the getStock query and
+ * carried over when the workflow continues as new
+ */
+export interface InventoryWorkflowState {
+  itemId: string;
+  // Last stock read, undefined while the product is unknown
+  stock?: StockLevel;
+  lowStockThreshold: number;
+  // Set once the low-stock alert was sent, cleared when the stock is back above the threshold
+  lowStock: boolean;
+  // Signalled changes not applied yet, oldest first
+  pendingChanges: StockChange[];
+  lastChange?: StockChange & { success: boolean; message: string; appliedAt: string };
+  checkedAt?: string;
+}
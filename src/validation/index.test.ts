@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { OrderData } from '../types/index.js';
+import { calculateTotal, normalizeOrderData, validateOrderData } from './index.js';
+
+const order: OrderData = {
+  orderId: 'order-1',
+  userId: 'user-1',
+  items: [
+    { itemId: 'item-1', name: 'Product 1', quantity: 3, price: { minor: 10, currency: 'USD' } },
+    { itemId: 'item-2', name: 'Product 2', quantity: 1, price: { minor: 1999, currency: 'USD' } },
+  ],
+  totalAmount: { minor: 2029, currency: 'USD' },
+};
+
+function fields(input: unknown): string[] {
+  return validateOrderData(input).map(({ field }) => field);
+}
+
+describe('validateOrderData', () => {
+  it('accepts a well-formed order whose total matches its items', () => {
+    assert.deepEqual(validateOrderData(order), []);
+    assert.deepEqual(validateOrderData({ ...order, totalAmount: undefined }), []);
+  });
+
+  it('lists every schema violation at once', () => {
+    assert.deepEqual(
+      fields({
+        orderId: '',
+        userId: 'user 1',
+        items: [
+          {
+            itemId: 'item-1',
+            name: 'Product 1',
+            quantity: 1.5,
+            price: { minor: -1, currency: 'XYZ' },
+          },
+          null,
+        ],
+        totalAmount: 10,
+        fulfillmentPolicy: 'ship-later',
+      }),
+      [
+        'orderId',
+        'userId',
+        'items[0].quantity',
+        'items[0].price.minor',
+        'items[0].price.currency',
+        'items[1]',
+        'totalAmount',
+        'fulfillmentPolicy',
+      ]
+    );
+    assert.deepEqual(fields('not an order'), ['']);
+  });
+
+  it('rejects empty orders, oversized lines and fractional minor units', () => {
+    assert.deepEqual(fields({ ...order, items: [] }), ['items']);
+    assert.deepEqual(fields({ ...order, items: [{ ...order.items[0], quantity: 1000 }] }), [
+      'items[0].quantity',
+    ]);
+    assert.deepEqual(
+      fields({ ...order, items: [{ ...order.items[0], price: { minor: 0.5, currency: 'USD' } }] }),
+      ['items[0].price.minor']
+    );
+    assert.deepEqual(
+      fields({
+        ...order,
+        items: [{ ...order.items[0], price: { minor: 0, currency: 'USD' } }],
+        totalAmount: undefined,
+      }),
+      ['items']
+    );
+  });
+
+  it('requires every line to use the same currency', () => {
+    const items = [order.items[0], { ...order.items[1], price: { minor: 1999, currency: 'EUR' } }];
+
+    assert.deepEqual(fields({ ...order, items }), ['items[1].price.currency']);
+  });
+
+  it('rejects a totalAmount that does not match the items', () => {
+    const [violation] = validateOrderData({
+      ...order,
+      totalAmount: { minor: 2029, currency: 'EUR' },
+    });
+
+    assert.equal(violation.field, 'totalAmount');
+    assert.match(violation.message, /is 20\.29 EUR but the items add up to 20\.29 USD/);
+  });
+});
+
+describe('normalizeOrderData', () => {
+  it('recomputes the total in minor units and drops unknown fields', () => {
+    const normalized = normalizeOrderData({
+      ...order,
+      totalAmount: { minor: 0, currency: 'USD' },
+      coupon: 'FREE',
+    } as OrderData);
+
+    assert.deepEqual(calculateTotal(order.items), { minor: 2029, currency: 'USD' });
+    assert.deepEqual(normalized, order);
+  });
+});
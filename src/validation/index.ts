@@ -0,0 +1,212 @@
+import {
+  CURRENCY_DIGITS,
+  type Money,
+  formatMoney,
+  isSupportedCurrency,
+  multiply,
+  sum,
+} from '../money/index.js';
+import type { FulfillmentPolicy, OrderData, OrderItem } from '../types/index.js';
+
+/**
+ * Validation of incoming orders, shared by the HTTP API (400 response) and the workflow
+ * (InvalidOrderError before the saga starts). Free of Node.js APIs so it runs in the
+ * workflow sandbox.
+ *
+ * Schema: field presence and types
+ * Business rules: positive integer quantities, non-negative prices in integer minor units of
+ * a supported currency, one currency per order, per-line and per-order limits, and a
+ * totalAmount matching the items
+ */
+
+export interface OrderViolation {
+  // Path of the offending field, e.g. "items[1].quantity"
+  field: string;
+  message: string;
+}
+
+export const FULFILLMENT_POLICIES: FulfillmentPolicy[] = ['all-or-nothing', 'partial', 'backorder'];
+
+export const ORDER_LIMITS = {
+  maxLines: 50,
+  maxQuantityPerLine: 100,
+  maxIdLength: 64,
+};
+
+const ID_PATTERN = /^[\w.-]+$/;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Order total computed from the items (Σ price × quantity), in the currency of the items
+ */
+export function calculateTotal(items: OrderItem[]): Money {
+  return sum(
+    items.map((item) => multiply(item.price, item.quantity)),
+    items[0].price.currency
+  );
+}
+
+function checkMoney(value: unknown, field: string, violations: OrderViolation[]): void {
+  if (typeof value !== 'object' || value === null) {
+    violations.push({ field, message: 'must be an amount {minor, currency}' });
+    return;
+  }
+  const { minor, currency } = value as Record<string, unknown>;
+  if (!Number.isSafeInteger(minor) || (minor as number) < 0) {
+    violations.push({ field: `${field}.minor`, message: 'must be an integer >= 0 (minor units)' });
+  }
+  if (!isSupportedCurrency(currency)) {
+    violations.push({
+      field: `${field}.currency`,
+      message: `must be one of ${Object.keys(CURRENCY_DIGITS).join(', ')}`,
+    });
+  }
+}
+
+function checkId(value: unknown, field: string, violations: OrderViolation[]): void {
+  if (!isNonEmptyString(value)) {
+    violations.push({ field, message: 'must be a non-empty string' });
+  } else if (value.length > ORDER_LIMITS.maxIdLength || !ID_PATTERN.test(value)) {
+    violations.push({
+      field,
+      message: `must be at most ${ORDER_LIMITS.maxIdLength} letters, digits, "_", "-" or "."`,
+    });
+  }
+}
+
+function checkItem(item: unknown, field: string, violations: OrderViolation[]): void {
+  if (typeof item !== 'object' || item === null) {
+    violations.push({ field, message: 'must be an object' });
+    return;
+  }
+  const { itemId, name, quantity, price } = item as Record<string, unknown>;
+
+  checkId(itemId, `${field}.itemId`, violations);
+  if (typeof name !== 'string') {
+    violations.push({ field: `${field}.name`, message: 'must be a string' });
+  }
+  if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+    violations.push({ field: `${field}.quantity`, message: 'must be a positive integer' });
+  } else if ((quantity as number) > ORDER_LIMITS.maxQuantityPerLine) {
+    violations.push({
+      field: `${field}.quantity`,
+      message: `must be at most ${ORDER_LIMITS.maxQuantityPerLine}`,
+    });
+  }
+  checkMoney(price, `${field}.price`, violations);
+}
+
+/**
+ * Check an order against the schema and business rules
+ * @returns every violation found, empty when the order is valid
+ */
+export function validateOrderData(input: unknown): OrderViolation[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [{ field: '', message: 'order must be an object' }];
+  }
+  const { orderId, userId, items, totalAmount, couponCode, region, fulfillmentPolicy } =
+    input as Record<string, unknown>;
+  const violations: OrderViolation[] = [];
+
+  checkId(orderId, 'orderId', violations);
+  checkId(userId, 'userId', violations);
+
+  if (!Array.isArray(items) || items.length === 0) {
+    violations.push({ field: 'items', message: 'must be a non-empty array' });
+  } else if (items.length > ORDER_LIMITS.maxLines) {
+    violations.push({
+      field: 'items',
+      message: `must have at most ${ORDER_LIMITS.maxLines} lines`,
+    });
+  } else {
+    items.forEach((item, index) => checkItem(item, `items[${index}]`, violations));
+  }
+
+  if (totalAmount !== undefined) {
+    checkMoney(totalAmount, 'totalAmount', violations);
+  }
+  if (couponCode !== undefined) {
+    checkId(couponCode, 'couponCode', violations);
+  }
+  if (region !== undefined && (typeof region !== 'string' || !/^[A-Za-z]{2}$/.test(region))) {
+    violations.push({ field: 'region', message: 'must be a 2-letter country code' });
+  }
+  if (
+    fulfillmentPolicy !== undefined &&
+    !FULFILLMENT_POLICIES.includes(fulfillmentPolicy as FulfillmentPolicy)
+  ) {
+    violations.push({
+      field: 'fulfillmentPolicy',
+      message: `must be one of ${FULFILLMENT_POLICIES.join(', ')}`,
+    });
+  }
+
+  // Business rules on the whole order, only meaningful once every line is well-formed
+  if (violations.length === 0) {
+    const lines = items as OrderItem[];
+    const { currency } = lines[0].price;
+    lines.forEach((item, index) => {
+      if (item.price.currency !== currency) {
+        violations.push({
+          field: `items[${index}].price.currency`,
+          message: `must be the order currency ${currency}`,
+        });
+      }
+    });
+    if (violations.length > 0) {
+      return violations;
+    }
+
+    const total = calculateTotal(lines);
+    if (total.minor <= 0) {
+      violations.push({ field: 'items', message: 'order total must be greater than 0' });
+    }
+    const expected = totalAmount as Money | undefined;
+    if (
+      expected !== undefined &&
+      (expected.currency !== currency || expected.minor !== total.minor)
+    ) {
+      violations.push({
+        field: 'totalAmount',
+        message: `is ${formatMoney(expected)} but the items add up to ${formatMoney(total)}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Copy of a valid order with only the known fields and the total recomputed from the items
+ */
+export function normalizeOrderData(orderData: OrderData): OrderData {
+  const items = orderData.items.map(({ itemId, name, quantity, price }) => ({
+    itemId,
+    name,
+    quantity,
+    price: { minor: price.minor, currency: price.currency },
+  }));
+  return {
+    orderId: orderData.orderId,
+    userId: orderData.userId,
+    items,
+    totalAmount: calculateTotal(items),
+    ...(orderData.couponCode !== undefined && { couponCode: orderData.couponCode }),
+    ...(orderData.region !== undefined && { region: orderData.region.toUpperCase() }),
+    ...(orderData.fulfillmentPolicy !== undefined && {
+      fulfillmentPolicy: orderData.fulfillmentPolicy,
+    }),
+  };
+}
+
+/**
+ * Human readable list of violations, e.g. for error messages and logs
+ */
+export function formatViolations(violations: OrderViolation[]): string {
+  return violations
+    .map(({ field, message }) => (field ? `${field} ${message}` : message))
+    .join('; ');
+}
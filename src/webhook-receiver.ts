@@ -0,0 +1,31 @@
+import { loadConfig } from './config/index.js';
+import { createWebhookReceiver } from './webhooks/index.js';
+
+/**
+ * Local receiver of the order webhooks, checks the signatures and prints the events
+ * Point a subscriber at it: WEBHOOK_URL=http://localhost:4020/webhooks with WEBHOOK_SECRET set
+ * to the receiver secret (WEBHOOK_RECEIVER_SECRET, local-webhook-secret by default)
+ */
+async function run(): Promise<void> {
+  const { receiver } = loadConfig().webhooks;
+  const server = createWebhookReceiver({
+    secret: receiver.secret,
+    onEvent: (event) =>
+      console.log(`📥 ${event.type} ${event.orderId}`, JSON.stringify(event.data)),
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(receiver.port, resolve);
+  });
+
+  console.log(`📡 Webhook receiver listening on http://localhost:${receiver.port}`);
+  console.log(
+    `⏳ Start the worker with WEBHOOK_URL=http://localhost:${receiver.port}/webhooks WEBHOOK_SECRET=<receiver secret>\n`
+  );
+}
+
+run().catch((err) => {
+  console.error('❌ Error running webhook receiver:', err);
+  process.exit(1);
+});
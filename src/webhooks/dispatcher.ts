@@ -0,0 +1,93 @@
+import { WebhookDeliveryError } from '../errors/index.js';
+import type { Store } from '../persistence/index.js';
+import type { OrderEvent, OrderEventType, WebhookDeadLetter } from '../types/index.js';
+import { EVENT_ID_HEADER, EVENT_TYPE_HEADER, SIGNATURE_HEADER, signPayload } from './signature.js';
+
+export const ORDER_EVENT_TYPES: OrderEventType[] = [
+  'order.created',
+  'order.paid',
+  'order.cancelled',
+  'order.refunded',
+];
+
+export interface WebhookSubscriber {
+  id: string;
+  // Receives every event as a signed JSON POST
+  url: string;
+  // Shared with the subscriber to check the signature
+  secret: string;
+  events: OrderEventType[];
+}
+
+/**
+ * Posts order events to the subscribers and keeps the dead-letter records of the deliveries
+ * that were given up
+ * Retries are left to the Temporal retry policy of the activity: deliver() makes one attempt
+ * and throws a WebhookDeliveryError telling whether it is worth retrying
+ */
+export class WebhookDispatcher {
+  constructor(
+    private readonly subscribers: WebhookSubscriber[],
+    private readonly deadLetters: Store<WebhookDeadLetter>,
+    // Per request, a timed out request is retried
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Deliver an event to a subscriber, returning the HTTP status it answered
+   * @throws WebhookDeliveryError
+   */
+  async deliver(subscriberId: string, event: OrderEvent): Promise<number> {
+    const subscriber = this.subscribers.find(({ id }) => id === subscriberId);
+    if (!subscriber) {
+      throw new WebhookDeliveryError(subscriberId, 'unknown subscriber', true);
+    }
+
+    const body = JSON.stringify(event);
+    let response: Response;
+    try {
+      response = await fetch(subscriber.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          [EVENT_ID_HEADER]: event.eventId,
+          [EVENT_TYPE_HEADER]: event.type,
+          [SIGNATURE_HEADER]: signPayload(subscriber.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (err) {
+      throw new WebhookDeliveryError(
+        subscriberId,
+        `${subscriber.url} unreachable: ${(err as Error).message}`,
+        false
+      );
+    }
+
+    const { status, statusText } = response;
+    await response.body?.cancel();
+    if (!response.ok) {
+      const retryable = status === 408 || status === 429 || status >= 500;
+      throw new WebhookDeliveryError(subscriberId, `${status} ${statusText}`, !retryable);
+    }
+    return status;
+  }
+
+  /**
+   * Record a delivery that will not be retried, replacing an earlier record of the same delivery
+   */
+  async deadLetter(
+    record: Omit<WebhookDeadLetter, 'deliveryId' | 'deadAt'>
+  ): Promise<WebhookDeadLetter> {
+    const deadLetter: WebhookDeadLetter = {
+      deliveryId: `${record.event.eventId}:${record.subscriberId}`,
+      ...record,
+      deadAt: new Date().toISOString(),
+    };
+    await this.deadLetters.transaction((records) => {
+      records[deadLetter.deliveryId] = deadLetter;
+    });
+    return deadLetter;
+  }
+}
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { ApplicationFailure } from '@temporalio/common';
+import { fromMajor } from '../money/index.js';
+import { createStore } from '../persistence/index.js';
+import type { OrderEvent, WebhookDeadLetter } from '../types/index.js';
+import { WebhookDispatcher } from './dispatcher.js';
+import { createWebhookReceiver } from './receiver.js';
+import { SIGNATURE_HEADER, signPayload, verifySignature } from './signature.js';
+
+const SECRET = 'test-secret';
+
+const event: OrderEvent<'order.paid'> = {
+  eventId: 'order-1:order.paid',
+  type: 'order.paid',
+  orderId: 'order-1',
+  userId: 'user-1',
+  occurredAt: '2024-01-01T00:00:00Z',
+  data: { paymentId: 'payment-1', amount: fromMajor(250, 'VND') },
+};
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`);
+    });
+  });
+}
+
+describe('webhook signature', () => {
+  const body = JSON.stringify(event);
+  const now = 1_700_000_000;
+
+  it('accepts the signature of the same body and secret', () => {
+    assert.ok(verifySignature(SECRET, body, signPayload(SECRET, body, now), 300, now * 1000));
+  });
+
+  it('rejects a tampered body, another secret or a stale timestamp', () => {
+    const header = signPayload(SECRET, body, now);
+
+    assert.equal(verifySignature(SECRET, `${body} `, header, 300, now * 1000), false);
+    assert.equal(verifySignature('other', body, header, 300, now * 1000), false);
+    assert.equal(verifySignature(SECRET, body, header, 300, (now + 301) * 1000), false);
+    assert.equal(verifySignature(SECRET, body, undefined), false);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  const received: OrderEvent[] = [];
+  const receiver = createWebhookReceiver({
+    secret: SECRET,
+    onEvent: (delivered) => received.push(delivered),
+  });
+  // Answers the status code of the last path segment
+  const failing = createServer((req, res) => {
+    res.writeHead(Number(req.url?.split('/').pop())).end();
+  });
+  const deadLetters = createStore<WebhookDeadLetter>(
+    { driver: 'memory', dataDir: '' },
+    'webhook-dead-letters'
+  );
+  let receiverUrl: string;
+  let dispatcher: WebhookDispatcher;
+
+  before(async () => {
+    receiverUrl = await listen(receiver);
+    const failingUrl = (await listen(failing)).replace(/\/webhooks$/, '');
+    dispatcher = new WebhookDispatcher(
+      [
+        { id: 'warehouse', url: receiverUrl, secret: SECRET, events: ['order.paid'] },
+        { id: 'wrong-secret', url: receiverUrl, secret: 'other', events: ['order.paid'] },
+        { id: 'down', url: `${failingUrl}/503`, secret: SECRET, events: ['order.paid'] },
+        { id: 'gone', url: `${failingUrl}/410`, secret: SECRET, events: ['order.paid'] },
+      ],
+      deadLetters,
+      2000
+    );
+  });
+
+  after(() => {
+    receiver.close();
+    failing.close();
+  });
+
+  it('delivers a signed event once, acknowledging a redelivery as a duplicate', async () => {
+    assert.equal(await dispatcher.deliver('warehouse', event), 200);
+    assert.equal(await dispatcher.deliver('warehouse', event), 200);
+
+    assert.deepEqual(received, [event]);
+  });
+
+  it('answers 400 to a signed body that is not an event', async () => {
+    for (const body of ['null', '{}']) {
+      const response = await fetch(receiverUrl, {
+        method: 'POST',
+        headers: { [SIGNATURE_HEADER]: signPayload(SECRET, body) },
+        body,
+      });
+      assert.equal(response.status, 400);
+    }
+    assert.deepEqual(received, [event]);
+  });
+
+  it('retries server errors only', async () => {
+    const failure = async (subscriberId: string) => {
+      try {
+        await dispatcher.deliver(subscriberId, event);
+      } catch (err) {
+        return err as ApplicationFailure;
+      }
+      assert.fail(`delivery to ${subscriberId} should fail`);
+    };
+
+    const down = await failure('down');
+    const rejected = await failure('wrong-secret');
+    const gone = await failure('gone');
+    const unknown = await failure('nobody');
+
+    assert.ok(down instanceof ApplicationFailure);
+    assert.equal(down.type, 'WebhookDeliveryError');
+    assert.equal(down.nonRetryable, false);
+    assert.match(rejected.message, /401/);
+    assert.equal(rejected.nonRetryable, true);
+    assert.equal(gone.nonRetryable, true);
+    assert.equal(unknown.nonRetryable, true);
+  });
+
+  it('records dead letters by event and subscriber', async () => {
+    await dispatcher.deadLetter({ subscriberId: 'down', event, error: 'first' });
+    const deadLetter = await dispatcher.deadLetter({
+      subscriberId: 'down',
+      event,
+      error: '503 Service Unavailable',
+      retryState: 'MAXIMUM_ATTEMPTS_REACHED',
+    });
+
+    assert.equal(deadLetter.deliveryId, 'order-1:order.paid:down');
+    assert.deepEqual(await deadLetters.get('order-1:order.paid:down'), deadLetter);
+  });
+});
@@ -0,0 +1,29 @@
+import type { WebhookOptions } from '../config/index.js';
+import { type StorageOptions, createStore } from '../persistence/index.js';
+import type { WebhookDeadLetter } from '../types/index.js';
+import { WebhookDispatcher } from './dispatcher.js';
+
+export { ORDER_EVENT_TYPES, WebhookDispatcher, type WebhookSubscriber } from './dispatcher.js';
+export { type WebhookReceiverOptions, createWebhookReceiver } from './receiver.js';
+export {
+  EVENT_ID_HEADER,
+  EVENT_TYPE_HEADER,
+  SIGNATURE_HEADER,
+  signPayload,
+  verifySignature,
+} from './signature.js';
+
+/**
+ * Create the dispatcher of the configured subscribers, dead letters kept in the configured
+ * storage (webhook-dead-letters.json with the file driver)
+ */
+export function createWebhookDispatcher(
+  options: WebhookOptions,
+  storage: StorageOptions
+): WebhookDispatcher {
+  return new WebhookDispatcher(
+    options.subscribers,
+    createStore<WebhookDeadLetter>(storage, 'webhook-dead-letters'),
+    options.timeoutMs
+  );
+}
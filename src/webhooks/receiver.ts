@@ -0,0 +1,78 @@
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import type { OrderEvent } from '../types/index.js';
+import { DEFAULT_TOLERANCE_SECONDS, SIGNATURE_HEADER, verifySignature } from './signature.js';
+
+export interface WebhookReceiverOptions {
+  secret: string;
+  toleranceSeconds?: number;
+  // Called once per event, duplicates are acknowledged without calling it again
+  onEvent?: (event: OrderEvent) => void;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create (but do not start) a receiver of the order webhooks, the way a subscriber should
+ * handle them: check the signature on the raw body, then drop events already received
+ *
+ * POST <any path>   200 {received} | 200 {duplicate} | 400 invalid JSON or event
+ *                   | 401 bad signature
+ */
+export function createWebhookReceiver({
+  secret,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+  onEvent,
+}: WebhookReceiverOptions): Server {
+  const received = new Set<string>();
+
+  return createServer(async (req, res) => {
+    try {
+      if (req.method !== 'POST') {
+        send(res, 405, { error: 'Only POST is accepted' });
+        return;
+      }
+
+      const body = await readBody(req);
+      const signature = req.headers[SIGNATURE_HEADER];
+      if (!verifySignature(secret, body, signature as string | undefined, toleranceSeconds)) {
+        send(res, 401, { error: 'Invalid or expired signature' });
+        return;
+      }
+
+      let event: OrderEvent;
+      try {
+        event = JSON.parse(body);
+      } catch {
+        send(res, 400, { error: 'Body is not valid JSON' });
+        return;
+      }
+      // Signed JSON can still be anything, e.g. null
+      if (typeof event?.eventId !== 'string') {
+        send(res, 400, { error: 'Body is not an event with an eventId' });
+        return;
+      }
+
+      if (received.has(event.eventId)) {
+        send(res, 200, { duplicate: event.eventId });
+        return;
+      }
+      received.add(event.eventId);
+      onEvent?.(event);
+      send(res, 200, { received: event.eventId });
+    } catch (err) {
+      console.error(`❌ Webhook ${req.method} ${req.url} failed:`, err);
+      send(res, 500, { error: 'Internal error' });
+    }
+  });
+}
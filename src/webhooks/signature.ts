@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * HMAC signature of the webhook deliveries
+ *
+ * X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" with the secret>
+ *
+ * The timestamp is signed with the body so a captured delivery cannot be replayed later than
+ * the tolerance of the receiver
+ */
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const EVENT_ID_HEADER = 'x-webhook-id';
+export const EVENT_TYPE_HEADER = 'x-webhook-event';
+
+// Receivers reject signatures older (or newer) than this
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Value of the signature header for a body, signed now unless a timestamp is given
+ */
+export function signPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw body, in constant time
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+  now = Date.now()
+): boolean {
+  const parts = new Map(
+    (header ?? '').split(',').map((part) => part.split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'utf8');
+  const actual = Buffer.from(signature, 'utf8');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -1,12 +1,25 @@
 import { type ChildProcess, spawn } from 'node:child_process';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { loadConfig } from './config/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Number of workers to run (can be set via env or default)
-const WORKER_COUNT = Number.parseInt(process.env.WORKER_COUNT || '4', 10);
+// Number of workers to run (WORKER_COUNT env, config file or default)
+// Loading the config here also fails fast before spawning workers with a bad setup
+const { worker, storage } = loadConfig();
+const WORKER_COUNT = worker.count;
+
+// Reservations go straight to the inventory store: with the memory driver every worker would
+// hold its own copy of the stock, overselling it and restocking a random worker's copy
+if (WORKER_COUNT > 1 && storage.driver !== 'file') {
+  console.error(
+    `❌ ${WORKER_COUNT} workers need the shared file store, set STORAGE_DRIVER=file (or WORKER_COUNT=1)`
+  );
+  process.exit(1);
+}
+
 console.log(`🚀 Starting ${WORKER_COUNT} workers...\n`);
 
 const workers: ChildProcess[] = [];
@@ -1,27 +1,84 @@
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { isGrpcServiceError } from '@temporalio/client';
+import type { SearchAttributeType } from '@temporalio/common';
+import proto, { type temporal } from '@temporalio/proto';
 import { NativeConnection, Worker } from '@temporalio/worker';
 import { activities } from './activities/index.js';
+import { connectionOptions, loadConfig } from './config/index.js';
+import { ORDER_SEARCH_ATTRIBUTES } from './search-attributes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-async function run(): Promise<void> {
-  const connection = await NativeConnection.connect({
-    address: 'localhost:7233',
+// gRPC status code returned when another worker registered the attribute first
+const GRPC_ALREADY_EXISTS = 6;
+
+// The proto package is CommonJS, its namespace is only reachable from the default export
+const { IndexedValueType } = proto.temporal.api.enums.v1;
+
+// Operator service value of each search attribute type
+const INDEXED_VALUE_TYPES: Record<SearchAttributeType, temporal.api.enums.v1.IndexedValueType> = {
+  TEXT: IndexedValueType.INDEXED_VALUE_TYPE_TEXT,
+  KEYWORD: IndexedValueType.INDEXED_VALUE_TYPE_KEYWORD,
+  INT: IndexedValueType.INDEXED_VALUE_TYPE_INT,
+  DOUBLE: IndexedValueType.INDEXED_VALUE_TYPE_DOUBLE,
+  BOOL: IndexedValueType.INDEXED_VALUE_TYPE_BOOL,
+  DATETIME: IndexedValueType.INDEXED_VALUE_TYPE_DATETIME,
+  KEYWORD_LIST: IndexedValueType.INDEXED_VALUE_TYPE_KEYWORD_LIST,
+};
+
+/**
+ * Register the order search attributes in the namespace if they are missing
+ */
+async function ensureSearchAttributes(
+  connection: NativeConnection,
+  namespace: string
+): Promise<void> {
+  const { customAttributes } = await connection.operatorService.listSearchAttributes({
+    namespace,
   });
+  const missing = ORDER_SEARCH_ATTRIBUTES.filter(({ name }) => !(name in customAttributes));
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  try {
+    await connection.operatorService.addSearchAttributes({
+      namespace,
+      searchAttributes: Object.fromEntries(
+        missing.map(({ name, type }) => [name, INDEXED_VALUE_TYPES[type]])
+      ),
+    });
+    console.log(`🔎 Registered search attributes: ${missing.map(({ name }) => name).join(', ')}`);
+  } catch (err) {
+    if (isGrpcServiceError(err) && err.code === GRPC_ALREADY_EXISTS) {
+      return;
+    }
+    throw err;
+  }
+}
+
+async function run(): Promise<void> {
+  const { temporal, worker: workerOptions } = loadConfig();
+  const connection = await NativeConnection.connect(connectionOptions(temporal));
+
+  await ensureSearchAttributes(connection, temporal.namespace);
 
   const worker = await Worker.create({
     connection,
-    namespace: 'default',
-    taskQueue: 'order-task-queue',
-    workflowsPath: join(__dirname, 'workflows', 'order-workflow.ts'),
+    namespace: temporal.namespace,
+    taskQueue: temporal.taskQueue,
+    workflowsPath: join(__dirname, 'workflows', 'index.ts'),
     activities,
+    maxConcurrentActivityTaskExecutions: workerOptions.maxConcurrentActivityTaskExecutions,
+    maxConcurrentWorkflowTaskExecutions: workerOptions.maxConcurrentWorkflowTaskExecutions,
   });
 
   const workerId = process.env.WORKER_ID || '0';
   console.log(`🚀 Temporal Worker #${workerId} started...`);
-  console.log('📋 Listening on task queue: order-task-queue');
+  console.log(`📋 Listening on task queue: ${temporal.taskQueue} (${temporal.address})`);
   console.log('⏳ Waiting for workflow execution...\n');
 
   await worker.run();
@@ -0,0 +1,6 @@
+/**
+ * Workflows registered by the worker
+ */
+export { inventorySweeperWorkflow } from './inventory-sweeper-workflow.js';
+export { inventoryWorkflow } from './inventory-workflow.js';
+export { orderWorkflow } from './order-workflow.js';
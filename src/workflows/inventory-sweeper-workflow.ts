@@ -0,0 +1,22 @@
+import { log, proxyActivities } from '@temporalio/workflow';
+import { DEFAULT_ACTIVITY_CONFIG } from '../config/defaults.js';
+import type { SweepInventoryResult } from '../types/index.js';
+
+const { sweepInventoryHolds } = proxyActivities({
+  scheduleToCloseTimeout: '1m',
+  retry: DEFAULT_ACTIVITY_CONFIG.retry,
+});
+
+/**
+ * Release the inventory holds that expired without their order completing
+ * Started every `inventory.sweepInterval` by the schedule of start-sweeper.ts
+ */
+export async function inventorySweeperWorkflow(): Promise<SweepInventoryResult> {
+  const result: SweepInventoryResult = await sweepInventoryHolds();
+  log.info('🧹 Inventory sweep completed', {
+    released: result.released.length,
+    committed: result.committed.length,
+    corrected: result.corrected.length,
+  });
+  return result;
+}
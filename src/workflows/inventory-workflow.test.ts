@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import type { WorkflowHandle } from '@temporalio/client';
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, type WorkflowBundleWithSourceMap, bundleWorkflowCode } from '@temporalio/worker';
+import { NotificationFailedError } from '../errors/index.js';
+import type {
+  InventoryWorkflowOptions,
+  InventoryWorkflowState,
+  StockChange,
+  StockLevel,
+} from '../types/index.js';
+import {
+  adjustStockSignal,
+  getStockQuery,
+  inventoryWorkflow,
+  restockSignal,
+} from './inventory-workflow.js';
+
+const TASK_QUEUE = 'inventory-workflow-test';
+
+const options: InventoryWorkflowOptions = { lowStockThreshold: 3, stockCheckInterval: '5m' };
+
+/**
+ * Activities backed by one in-memory product, recording the changes and alerts
+ */
+function createMockActivities(available: number, backordered: string[] = []) {
+  const stock: StockLevel = { itemId: 'item-1', name: 'Product 1', available, reserved: 0 };
+  const applied: string[] = [];
+  const alerts: number[] = [];
+  const activities = {
+    getStockLevel: async () => ({ ...stock }),
+    applyStockChange: async ({ change }: { change: StockChange }) => {
+      applied.push(change.type);
+      stock.available += change.type === 'restock' ? change.quantity : change.delta;
+      return { success: true, message: 'Applied', stock: { ...stock } };
+    },
+    sendLowStockAlert: async ({ stock: alerted }: { stock: StockLevel }) => {
+      alerts.push(alerted.available);
+      return { success: true };
+    },
+    findBackorderedOrders: async () => backordered,
+  };
+  return { activities, stock, applied, alerts };
+}
+
+describe('inventoryWorkflow', () => {
+  let env: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundleWithSourceMap;
+
+  before(async () => {
+    env = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: fileURLToPath(new URL('./inventory-workflow.ts', import.meta.url)),
+    });
+  });
+
+  after(async () => {
+    await env?.teardown();
+  });
+
+  // Run the workflow of item-1 for the duration of `fn`, it never completes on its own
+  async function withInventoryWorkflow(
+    activities: object,
+    fn: (handle: WorkflowHandle<typeof inventoryWorkflow>) => Promise<void>
+  ): Promise<void> {
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start(inventoryWorkflow, {
+        args: ['item-1', options],
+        taskQueue: TASK_QUEUE,
+        workflowId: `inventory-test-${Date.now()}`,
+      });
+      try {
+        await fn(handle);
+      } finally {
+        await handle.terminate();
+      }
+    });
+  }
+
+  async function waitFor(
+    handle: WorkflowHandle<typeof inventoryWorkflow>,
+    predicate: (state: InventoryWorkflowState) => boolean
+  ): Promise<InventoryWorkflowState> {
+    for (;;) {
+      const state = await handle.query(getStockQuery);
+      if (predicate(state)) {
+        return state;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  it('applies restocks and adjustments one at a time, in order', async () => {
+    const { activities, applied } = createMockActivities(10);
+
+    await withInventoryWorkflow(activities, async (handle) => {
+      await handle.signal(restockSignal, { quantity: 5, requestedBy: 'ops-1' });
+      await handle.signal(adjustStockSignal, { delta: -3, reason: 'Damaged' });
+
+      const state = await waitFor(handle, ({ lastChange }) => lastChange?.type === 'adjust');
+
+      assert.deepEqual(applied, ['restock', 'adjust']);
+      assert.equal(state.stock?.available, 12);
+      assert.deepEqual(state.pendingChanges, []);
+      assert.equal(state.lastChange?.success, true);
+    });
+  });
+
+  it('sends one low-stock alert until the stock is back above the threshold', async () => {
+    const { activities, stock, alerts } = createMockActivities(5);
+
+    await withInventoryWorkflow(activities, async (handle) => {
+      await waitFor(handle, ({ checkedAt }) => checkedAt !== undefined);
+
+      // Orders reserve between two stock checks
+      stock.available = 3;
+      await env.sleep('5m');
+      await waitFor(handle, ({ lowStock }) => lowStock);
+      stock.available = 1;
+      await env.sleep('5m');
+      await waitFor(handle, (state) => state.stock?.available === 1);
+      assert.deepEqual(alerts, [3]);
+
+      await handle.signal(restockSignal, { quantity: 10 });
+      const state = await waitFor(handle, ({ lowStock }) => !lowStock);
+      assert.equal(state.stock?.available, 11);
+      assert.deepEqual(alerts, [3]);
+    });
+  });
+
+  it('retries an undelivered low-stock alert on the next check, still applying changes', async () => {
+    const { activities, stock, applied, alerts } = createMockActivities(5);
+    let attempts = 0;
+    const failingOnce = {
+      ...activities,
+      // Fails every attempt of the first alert, the channel is down
+      sendLowStockAlert: async (input: { stock: StockLevel }) => {
+        attempts++;
+        if (attempts <= 3) {
+          throw new NotificationFailedError([
+            {
+              notificationId: 'alert-1:email',
+              template: 'lowStockAlert',
+              userId: 'ops',
+              channel: 'email',
+              status: 'failed',
+              error: 'SMTP unreachable',
+              attempts,
+              createdAt: '2024-01-01T00:00:00Z',
+            },
+          ]);
+        }
+        return activities.sendLowStockAlert(input);
+      },
+    };
+
+    await withInventoryWorkflow(failingOnce, async (handle) => {
+      await waitFor(handle, ({ checkedAt }) => checkedAt !== undefined);
+
+      stock.available = 2;
+      await env.sleep('5m');
+      await waitFor(handle, () => attempts === 3);
+      const state = await handle.query(getStockQuery);
+      assert.equal(state.lowStock, false);
+      assert.deepEqual(alerts, []);
+
+      // The next change checks the stock again and sends the alert
+      await handle.signal(adjustStockSignal, { delta: -1, reason: 'Damaged' });
+      const alerted = await waitFor(handle, ({ lowStock }) => lowStock);
+      assert.deepEqual(applied, ['adjust']);
+      assert.equal(alerted.stock?.available, 1);
+      assert.deepEqual(alerts, [1]);
+    });
+  });
+
+  it('keeps running when a backordered order cannot be notified of a restock', async () => {
+    const { activities } = createMockActivities(0, ['order-closed']);
+
+    await withInventoryWorkflow(activities, async (handle) => {
+      await handle.signal(restockSignal, { quantity: 4 });
+
+      const state = await waitFor(handle, ({ lastChange }) => lastChange?.type === 'restock');
+      assert.equal(state.stock?.available, 4);
+
+      await handle.signal(adjustStockSignal, { delta: -1, reason: 'Stock count' });
+      await waitFor(handle, ({ lastChange }) => lastChange?.type === 'adjust');
+    });
+  });
+});
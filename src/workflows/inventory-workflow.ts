@@ -0,0 +1,171 @@
+import {
+  condition,
+  continueAsNew,
+  defineQuery,
+  defineSignal,
+  getExternalWorkflowHandle,
+  log,
+  proxyActivities,
+  setHandler,
+  uuid4,
+  workflowInfo,
+} from '@temporalio/workflow';
+import { DEFAULT_ACTIVITY_CONFIG } from '../config/defaults.js';
+import { isLowStock } from '../inventory/index.js';
+import type {
+  ApplyStockChangeResult,
+  InventoryWorkflowOptions,
+  InventoryWorkflowState,
+  RestockRequest,
+  StockAdjustmentRequest,
+  StockLevel,
+} from '../types/index.js';
+import {
+  inventoryRestockedSignal,
+  undeliveredNotification,
+  workflowIdFor,
+} from './order-workflow.js';
+
+const { applyStockChange, getStockLevel, sendLowStockAlert, findBackorderedOrders } =
+  proxyActivities({
+    scheduleToCloseTimeout: '1m',
+    retry: DEFAULT_ACTIVITY_CONFIG.retry,
+  });
+
+/**
+ * Signals: units received, and corrections of the available quantity
+ */
+export const restockSignal = defineSignal<[RestockRequest]>('restock');
+export const adjustStockSignal = defineSignal<[StockAdjustmentRequest]>('adjustStock');
+
+/**
+ * Query: last known stock, pending changes and low-stock state of the product
+ */
+export const getStockQuery = defineQuery<InventoryWorkflowState>('getStock');
+
+// Changes and stock checks handled by one run before it continues as new
+const MAX_ITERATIONS = 500;
+
+/**
+ * Workflow ID of the inventory workflow of a product: one per SKU
+ */
+export function inventoryWorkflowId(itemId: string): string {
+  return `inventory-${itemId}`;
+}
+
+/**
+ * Entity workflow of one product, running until terminated
+ *
+ * Restock and adjustment signals are queued and applied one at a time. The stock lives in the
+ * inventory store, whose transactions also serialize the reservations of every orderWorkflow:
+ * an order never holds a unit another order holds or an adjustment removed. This only holds
+ * when every worker shares the store (the file driver), worker-cluster.ts refuses to start
+ * several workers without it. Reservations do not go through this workflow, so its stock is
+ * the one read at `checkedAt`: re-read after each change and every `stockCheckInterval`.
+ * After a restock the backordered orders missing the product get the inventoryRestocked
+ * signal, and an alert is sent once when the available quantity drops to `lowStockThreshold`
+ * or below.
+ */
+export async function inventoryWorkflow(
+  itemId: string,
+  options: InventoryWorkflowOptions,
+  previous?: InventoryWorkflowState
+): Promise<void> {
+  const state: InventoryWorkflowState = {
+    itemId,
+    lowStock: false,
+    pendingChanges: [],
+    ...previous,
+    lowStockThreshold: options.lowStockThreshold,
+  };
+
+  setHandler(getStockQuery, () => state);
+  setHandler(restockSignal, (request) => {
+    state.pendingChanges.push({ ...request, type: 'restock', changeId: uuid4() });
+  });
+  setHandler(adjustStockSignal, (request) => {
+    state.pendingChanges.push({ ...request, type: 'adjust', changeId: uuid4() });
+  });
+
+  async function applyNextChange(): Promise<void> {
+    // Stays pending (and visible to the query) until applied
+    const change = state.pendingChanges[0];
+    const result: ApplyStockChangeResult = await applyStockChange({ itemId, change });
+    state.pendingChanges.shift();
+    state.stock = result.stock;
+    state.checkedAt = new Date().toISOString();
+    state.lastChange = {
+      ...change,
+      success: result.success,
+      message: result.message,
+      appliedAt: new Date().toISOString(),
+    };
+    if (result.success && change.type === 'restock') {
+      await notifyBackorders();
+    }
+  }
+
+  async function notifyBackorders(): Promise<void> {
+    const orderIds: string[] = await findBackorderedOrders({ itemId });
+    for (const orderId of orderIds) {
+      try {
+        await getExternalWorkflowHandle(workflowIdFor(orderId)).signal(inventoryRestockedSignal, {
+          itemIds: [itemId],
+        });
+      } catch (err) {
+        // The order completed or was cancelled since it was listed
+        log.warn('⚠️ Backordered order not notified', { itemId, orderId, error: String(err) });
+      }
+    }
+    if (orderIds.length > 0) {
+      log.info('📦 Notified backordered orders', { itemId, orderIds });
+    }
+  }
+
+  async function checkStock(): Promise<void> {
+    const stock: StockLevel | undefined = await getStockLevel({ itemId });
+    state.stock = stock;
+    state.checkedAt = new Date().toISOString();
+  }
+
+  async function checkLowStock(): Promise<void> {
+    const { stock } = state;
+    if (!stock) {
+      return;
+    }
+    const low = isLowStock(stock, options.lowStockThreshold);
+    if (low && !state.lowStock) {
+      log.warn('📉 Low stock', { ...stock, threshold: options.lowStockThreshold });
+      try {
+        await sendLowStockAlert({
+          alertId: uuid4(),
+          stock,
+          threshold: options.lowStockThreshold,
+        });
+      } catch (error) {
+        if (!undeliveredNotification(error)) {
+          throw error;
+        }
+        // Still not low-stock for the workflow, so the next check sends the alert again
+        log.warn('📉 Low-stock alert not delivered, retrying on the next check', { itemId });
+        return;
+      }
+    }
+    state.lowStock = low;
+  }
+
+  await checkStock();
+  await checkLowStock();
+
+  for (let i = 0; i < MAX_ITERATIONS && !workflowInfo().continueAsNewSuggested; i++) {
+    if (await condition(() => state.pendingChanges.length > 0, options.stockCheckInterval)) {
+      await applyNextChange();
+    } else {
+      await checkStock();
+    }
+    await checkLowStock();
+  }
+
+  // Keep the history short; pending changes are carried over with the state
+  await continueAsNew<typeof inventoryWorkflow>(itemId, options, state);
+}
@@ -0,0 +1,919 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { WorkflowFailedError, type WorkflowHandle } from '@temporalio/client';
+import { ApplicationFailure } from '@temporalio/common';
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker, type WorkflowBundleWithSourceMap, bundleWorkflowCode } from '@temporalio/worker';
+import {
+  AmountLimitExceededError,
+  GatewayTimeoutError,
+  InvalidCouponError,
+  NotificationFailedError,
+  PaymentDeclinedError,
+} from '../errors/index.js';
+import { fromMajor } from '../money/index.js';
+import type {
+  NotificationDelivery,
+  OrderData,
+  OrderEvent,
+  OrderWorkflowOptions,
+  PriceBreakdown,
+  SagaEventRequest,
+  WorkflowResult,
+} from '../types/index.js';
+import {
+  approveOrderSignal,
+  cancelOrderSignal,
+  getOrderStatusQuery,
+  inventoryRestockedSignal,
+  markResolvedSignal,
+  orderWorkflow,
+  retryCompensationSignal,
+} from './order-workflow.js';
+
+const TASK_QUEUE = 'order-workflow-test';
+
+const vnd = (amount: number) => fromMajor(amount, 'VND');
+
+const orderData: OrderData = {
+  orderId: 'order-test',
+  userId: 'user-test',
+  items: [{ itemId: 'item-1', name: 'Product 1', quantity: 2, price: vnd(100) }],
+  totalAmount: vnd(200),
+};
+
+// Priced total differs from the items subtotal (200): shipping and tax are added
+const pricing: PriceBreakdown = {
+  currency: 'VND',
+  region: 'VN',
+  lines: [
+    {
+      itemId: 'item-1',
+      name: 'Product 1',
+      quantity: 2,
+      unitPrice: vnd(100),
+      subtotal: vnd(200),
+      discount: vnd(0),
+      total: vnd(200),
+    },
+  ],
+  subtotal: vnd(200),
+  discounts: [],
+  discountTotal: vnd(0),
+  shipping: vnd(30),
+  taxRate: 0.1,
+  tax: vnd(20),
+  total: vnd(250),
+};
+
+type MockActivities = Record<string, (...args: unknown[]) => Promise<unknown>>;
+
+const flagged = {
+  assessRisk: async () => ({
+    success: true,
+    assessment: {
+      decision: 'review',
+      matchedRules: [{ rule: 'highValue', action: 'review', message: 'Total above 800 VND' }],
+      assessedAt: '2024-01-01T00:00:00Z',
+    },
+  }),
+};
+
+/**
+ * Activities that succeed by default and record every call in order
+ */
+function createMockActivities(overrides: MockActivities = {}): {
+  activities: MockActivities;
+  calls: string[];
+} {
+  const calls: string[] = [];
+  const defaults: MockActivities = {
+    priceOrder: async () => ({ success: true, pricing }),
+    createOrder: async () => ({ success: true }),
+    assessRisk: async () => ({
+      success: true,
+      assessment: { decision: 'approve', matchedRules: [], assessedAt: '2024-01-01T00:00:00Z' },
+    }),
+    authorizePayment: async () => ({ success: true, authorizationId: 'auth-1', amount: vnd(250) }),
+    reserveInventory: async () => ({ success: true, message: 'Inventory reserved' }),
+    sendConfirmationEmail: async () => ({ success: true }),
+    capturePayment: async () => ({ success: true, paymentId: 'payment-1', amount: vnd(250) }),
+    cancelOrder: async () => ({ success: true, message: 'Order cancelled' }),
+    releaseInventory: async () => ({ success: true, message: 'Inventory released', released: [] }),
+    voidPayment: async () => ({ success: true, message: 'Payment authorization voided' }),
+    refundPayment: async () => ({ success: true, message: 'Payment refunded' }),
+    sendCancellationEmail: async () => ({ success: true, message: 'Email sent' }),
+  };
+
+  const activities: MockActivities = {};
+  for (const [name, fn] of Object.entries({ ...defaults, ...overrides })) {
+    activities[name] = async (...args) => {
+      calls.push(name);
+      return fn(...args);
+    };
+  }
+  return { activities, calls };
+}
+
+describe('orderWorkflow', () => {
+  let env: TestWorkflowEnvironment;
+  let workflowBundle: WorkflowBundleWithSourceMap;
+
+  before(async () => {
+    env = await TestWorkflowEnvironment.createTimeSkipping();
+    workflowBundle = await bundleWorkflowCode({
+      workflowsPath: fileURLToPath(new URL('./order-workflow.ts', import.meta.url)),
+    });
+  });
+
+  after(async () => {
+    await env?.teardown();
+  });
+
+  async function runOrder(
+    activities: MockActivities,
+    order: OrderData = orderData,
+    options: OrderWorkflowOptions = {}
+  ): Promise<WorkflowResult> {
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    return worker.runUntil(
+      env.client.workflow.execute(orderWorkflow, {
+        args: [order, options],
+        taskQueue: TASK_QUEUE,
+        workflowId: `order-workflow-${Date.now()}`,
+      })
+    );
+  }
+
+  it('completes the happy path without compensation', async () => {
+    const { activities, calls } = createMockActivities();
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, true);
+    assert.equal(result.paymentId, 'payment-1');
+    assert.deepEqual(calls, [
+      'priceOrder',
+      'createOrder',
+      'assessRisk',
+      'authorizePayment',
+      'reserveInventory',
+      'capturePayment',
+      'sendConfirmationEmail',
+    ]);
+  });
+
+  it('rejects an invalid order before running any step', async () => {
+    const { activities, calls } = createMockActivities();
+
+    await assert.rejects(
+      runOrder(activities, {
+        ...orderData,
+        items: [{ itemId: 'item-1', name: 'Product 1', quantity: 0, price: vnd(100) }],
+        totalAmount: vnd(999),
+      }),
+      (err: unknown) => {
+        assert.ok(err instanceof WorkflowFailedError);
+        assert.ok(err.cause instanceof ApplicationFailure);
+        assert.equal(err.cause.type, 'InvalidOrderError');
+        assert.match(err.cause.message, /items\[0\]\.quantity must be a positive integer/);
+        return true;
+      }
+    );
+    assert.deepEqual(calls, []);
+  });
+
+  it('prices the recomputed order and charges the priced total', async () => {
+    const inputs: Record<string, unknown> = {};
+    const { activities } = createMockActivities({
+      priceOrder: async (input) => {
+        inputs.priceOrder = input;
+        return { success: true, pricing };
+      },
+      authorizePayment: async (input) => {
+        inputs.authorizePayment = input;
+        return { success: true, authorizationId: 'auth-1', amount: pricing.total };
+      },
+    });
+
+    const result = await runOrder(activities, {
+      ...orderData,
+      items: [{ itemId: 'item-1', name: 'Product 1', quantity: 3, price: vnd(150) }],
+      totalAmount: vnd(450),
+      couponCode: 'WELCOME10',
+    });
+
+    assert.deepEqual((inputs.priceOrder as OrderData).totalAmount, vnd(450));
+    assert.equal((inputs.priceOrder as OrderData).couponCode, 'WELCOME10');
+    assert.deepEqual((inputs.authorizePayment as { amount: unknown }).amount, vnd(250));
+    assert.deepEqual(result.pricing, pricing);
+  });
+
+  it('fails without compensation when the coupon is rejected', async () => {
+    const { activities, calls } = createMockActivities({
+      priceOrder: async () => {
+        throw new InvalidCouponError('NOPE', 'unknown coupon');
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.errorCode, 'InvalidCouponError');
+    assert.deepEqual(calls, ['priceOrder']);
+  });
+
+  it('compensates when inventory is insufficient', async () => {
+    const { activities, calls } = createMockActivities({
+      reserveInventory: async () => ({
+        success: false,
+        message: 'Insufficient inventory for product item-1',
+      }),
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'InsufficientInventoryError');
+    assert.deepEqual(calls, [
+      'priceOrder',
+      'createOrder',
+      'assessRisk',
+      'authorizePayment',
+      'reserveInventory',
+      'releaseInventory',
+      'voidPayment',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('cancels the order without touching the payment when the risk check rejects it', async () => {
+    const matchedRules = [
+      { rule: 'blocklist', action: 'reject', message: 'User user-test is blocklisted' },
+    ];
+    const { activities, calls } = createMockActivities({
+      assessRisk: async () => ({
+        success: true,
+        assessment: { decision: 'reject', matchedRules, assessedAt: '2024-01-01T00:00:00Z' },
+      }),
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'RiskRejectedError');
+    assert.deepEqual(result.risk?.matchedRules, matchedRules);
+    assert.deepEqual(calls, [
+      'priceOrder',
+      'createOrder',
+      'assessRisk',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('holds a flagged order until an operator approves it', async () => {
+    const inputs: Record<string, unknown> = {};
+    const { activities, calls } = createMockActivities({
+      ...flagged,
+      authorizePayment: async (input) => {
+        inputs.authorizePayment = input;
+        return { success: true, authorizationId: 'auth-1', amount: pricing.total };
+      },
+    });
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    const result = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start(orderWorkflow, {
+        args: [orderData],
+        taskQueue: TASK_QUEUE,
+        workflowId: `order-workflow-review-${Date.now()}`,
+      });
+      while ((await handle.query(getOrderStatusQuery)).review?.status !== 'pending') {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      assert.deepEqual(calls, ['priceOrder', 'createOrder', 'assessRisk']);
+
+      await handle.signal(approveOrderSignal, { reviewer: 'ops-1', note: 'Known customer' });
+      return handle.result();
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.review?.status, 'approved');
+    assert.equal(result.review?.reviewer, 'ops-1');
+    assert.equal((inputs.authorizePayment as { approvedBy?: string }).approvedBy, 'ops-1');
+  });
+
+  it('rejects and compensates a flagged order when nobody reviews it in time', async () => {
+    const { activities, calls } = createMockActivities(flagged);
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'ReviewExpiredError');
+    assert.equal(result.review?.status, 'expired');
+    assert.deepEqual(calls, [
+      'priceOrder',
+      'createOrder',
+      'assessRisk',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('ships and charges only the available lines of a partial order', async () => {
+    const inputs: Array<[string, unknown]> = [];
+    const partialPricing = { ...pricing, subtotal: vnd(100), tax: vnd(10), total: vnd(140) };
+    const { activities, calls } = createMockActivities({
+      repriceOrder: async (input) => {
+        inputs.push(['repriceOrder', input]);
+        return { success: true, pricing: partialPricing };
+      },
+      reserveInventory: async () => ({
+        success: true,
+        reserved: [{ itemId: 'item-1', quantity: 1 }],
+        shortages: [{ itemId: 'item-1', quantity: 2, available: 1 }],
+      }),
+      capturePayment: async (input) => {
+        inputs.push(['capturePayment', input]);
+        return { success: true, paymentId: 'payment-1', amount: vnd(140) };
+      },
+    });
+
+    const result = await runOrder(activities, { ...orderData, fulfillmentPolicy: 'partial' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.fulfillment?.status, 'partial');
+    assert.deepEqual(result.pricing, partialPricing);
+    assert.deepEqual((inputs[0][1] as OrderData).items, [{ ...orderData.items[0], quantity: 1 }]);
+    assert.deepEqual((inputs[1][1] as { amount: unknown }).amount, vnd(140));
+    assert.deepEqual(calls.slice(-3), ['repriceOrder', 'capturePayment', 'sendConfirmationEmail']);
+  });
+
+  it('charges a partial order without the coupon its shipped lines no longer qualify for', async () => {
+    const withCoupon = {
+      ...pricing,
+      discounts: [{ code: 'SAVE50', description: '50 off', amount: vnd(50) }],
+      discountTotal: vnd(50),
+      tax: vnd(15),
+      total: vnd(195),
+    };
+    const partialPricing = { ...pricing, subtotal: vnd(100), tax: vnd(10), total: vnd(140) };
+    const captured: unknown[] = [];
+    const { activities } = createMockActivities({
+      priceOrder: async () => ({ success: true, pricing: withCoupon }),
+      repriceOrder: async () => ({
+        success: true,
+        message: 'Coupon SAVE50: requires a subtotal of at least 300.00 VND',
+        pricing: partialPricing,
+      }),
+      reserveInventory: async () => ({
+        success: true,
+        reserved: [{ itemId: 'item-1', quantity: 1 }],
+        shortages: [{ itemId: 'item-1', quantity: 2, available: 1 }],
+      }),
+      capturePayment: async (input) => {
+        captured.push((input as { amount: unknown }).amount);
+        return { success: true, paymentId: 'payment-1', amount: vnd(140) };
+      },
+    });
+
+    const result = await runOrder(activities, {
+      ...orderData,
+      couponCode: 'SAVE50',
+      fulfillmentPolicy: 'partial',
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.pricing?.discounts, []);
+    assert.deepEqual(captured, [vnd(140)]);
+  });
+
+  it('completes the order when a notification channel fails, recording the deliveries', async () => {
+    const deliveries: NotificationDelivery[] = [
+      {
+        notificationId: 'order-workflow-order-test:sendConfirmationEmail:email',
+        template: 'orderConfirmation',
+        userId: 'user-test',
+        orderId: 'order-test',
+        channel: 'email',
+        recipient: 'test@example.com',
+        status: 'sent',
+        attempts: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+        sentAt: '2024-01-01T00:00:00Z',
+      },
+      {
+        notificationId: 'order-workflow-order-test:sendConfirmationEmail:sms',
+        template: 'orderConfirmation',
+        userId: 'user-test',
+        orderId: 'order-test',
+        channel: 'sms',
+        recipient: '+84900000000',
+        status: 'failed',
+        error: 'SMS gateway unreachable',
+        attempts: 1,
+        createdAt: '2024-01-01T00:00:00Z',
+      },
+    ];
+    const { activities, calls } = createMockActivities({
+      sendConfirmationEmail: async () => {
+        throw new NotificationFailedError(deliveries);
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.notifications, deliveries);
+    // Retried under the activity policy before the order moves on
+    assert.equal(calls.filter((name) => name === 'sendConfirmationEmail').length, 3);
+    assert.equal(calls.at(-1), 'sendConfirmationEmail');
+  });
+
+  const webhooks: OrderWorkflowOptions = {
+    webhooks: {
+      subscriptions: [
+        { subscriberId: 'warehouse', events: ['order.created', 'order.cancelled'] },
+        { subscriberId: 'accounting', events: ['order.paid', 'order.refunded'] },
+      ],
+      timeout: '10s',
+      retry: {
+        initialInterval: '1s',
+        backoffCoefficient: 2,
+        maximumInterval: '1s',
+        maximumAttempts: 2,
+      },
+    },
+  };
+
+  it('emits lifecycle events to the subscribers of each event type', async () => {
+    const delivered: string[] = [];
+    const { activities, calls } = createMockActivities({
+      deliverWebhook: async (input) => {
+        const { subscriberId, event } = input as { subscriberId: string; event: OrderEvent };
+        delivered.push(`${subscriberId} ${event.eventId}`);
+        return { success: true, status: 200 };
+      },
+    });
+
+    const result = await runOrder(activities, orderData, webhooks);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(delivered, [
+      'warehouse order-test:order.created',
+      'accounting order-test:order.paid',
+    ]);
+    assert.equal(calls.includes('recordWebhookDeadLetter'), false);
+  });
+
+  it('dead-letters a delivery whose retries are exhausted without failing the order', async () => {
+    const deadLetters: unknown[] = [];
+    const { activities, calls } = createMockActivities({
+      deliverWebhook: async (input) => {
+        if ((input as { subscriberId: string }).subscriberId === 'accounting') {
+          throw ApplicationFailure.retryable('503 Service Unavailable', 'WebhookDeliveryError');
+        }
+        return { success: true, status: 200 };
+      },
+      recordWebhookDeadLetter: async (record) => {
+        deadLetters.push(record);
+        return record;
+      },
+    });
+
+    const result = await runOrder(activities, orderData, webhooks);
+
+    assert.equal(result.success, true);
+    assert.equal(calls.filter((name) => name === 'deliverWebhook').length, 3);
+    assert.equal(deadLetters.length, 1);
+    assert.deepEqual(
+      {
+        subscriberId: (deadLetters[0] as { subscriberId: string }).subscriberId,
+        retryState: (deadLetters[0] as { retryState: string }).retryState,
+      },
+      { subscriberId: 'accounting', retryState: 'MAXIMUM_ATTEMPTS_REACHED' }
+    );
+  });
+
+  it('emits a cancelled event once a created order is compensated', async () => {
+    const delivered: string[] = [];
+    const { activities } = createMockActivities({
+      deliverWebhook: async (input) => {
+        delivered.push((input as { event: OrderEvent }).event.type);
+        return { success: true, status: 200 };
+      },
+      capturePayment: async () => {
+        throw new PaymentDeclinedError();
+      },
+    });
+
+    const result = await runOrder(activities, orderData, webhooks);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(delivered, ['order.created', 'order.cancelled']);
+  });
+
+  it('waits for a restock before continuing a backordered order', async () => {
+    let stocked = false;
+    const { activities, calls } = createMockActivities({
+      reserveInventory: async () =>
+        stocked
+          ? { success: true, reserved: [{ itemId: 'item-1', quantity: 2 }], shortages: [] }
+          : {
+              success: false,
+              message: 'Insufficient inventory for product item-1',
+              shortages: [{ itemId: 'item-1', quantity: 2, available: 0 }],
+            },
+    });
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    const result = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start(orderWorkflow, {
+        args: [{ ...orderData, fulfillmentPolicy: 'backorder' }],
+        taskQueue: TASK_QUEUE,
+        workflowId: `order-workflow-backorder-${Date.now()}`,
+      });
+      while ((await handle.query(getOrderStatusQuery)).fulfillment?.status !== 'backordered') {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      stocked = true;
+      await handle.signal(inventoryRestockedSignal, { itemIds: ['item-1'] });
+      return handle.result();
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.fulfillment?.status, 'fulfilled');
+    assert.ok(result.fulfillment?.backorderedAt);
+    assert.equal(calls.filter((name) => name === 'reserveInventory').length, 2);
+  });
+
+  it('compensates a backordered order that is not restocked in time', async () => {
+    const { activities, calls } = createMockActivities({
+      reserveInventory: async () => ({
+        success: false,
+        shortages: [{ itemId: 'item-1', quantity: 2, available: 0 }],
+      }),
+    });
+
+    const result = await runOrder(
+      activities,
+      { ...orderData, fulfillmentPolicy: 'backorder' },
+      { backorder: { timeout: '3h', recheckInterval: '1h' } }
+    );
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'BackorderExpiredError');
+    assert.equal(calls.filter((name) => name === 'reserveInventory').length, 4);
+    assert.deepEqual(calls.slice(-4), [
+      'releaseInventory',
+      'voidPayment',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('does not retry a payment business failure', async () => {
+    const { activities, calls } = createMockActivities({
+      authorizePayment: async () => {
+        throw new AmountLimitExceededError(vnd(2000), vnd(1000));
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'AmountLimitExceededError');
+    assert.equal(calls.filter((name) => name === 'authorizePayment').length, 1);
+    assert.deepEqual(calls.slice(-3), ['authorizePayment', 'cancelOrder', 'sendCancellationEmail']);
+  });
+
+  it('does not retry payment error types listed as non-retryable', async () => {
+    const { activities, calls } = createMockActivities({
+      authorizePayment: async () => {
+        // Retry policy alone (nonRetryableErrorTypes) must stop the retries
+        throw ApplicationFailure.retryable('Bad request', 'PaymentValidationError');
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.errorCode, 'PaymentValidationError');
+    assert.equal(calls.filter((name) => name === 'authorizePayment').length, 1);
+  });
+
+  it('compensates after payment retries are exhausted', async () => {
+    const { activities, calls } = createMockActivities({
+      authorizePayment: async () => {
+        throw new GatewayTimeoutError();
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'GatewayTimeoutError');
+    assert.equal(calls.filter((name) => name === 'authorizePayment').length, 3);
+    assert.deepEqual(calls.slice(-3), ['authorizePayment', 'cancelOrder', 'sendCancellationEmail']);
+  });
+
+  it('runs compensations in exact reverse order of the completed steps', async () => {
+    const { activities, calls } = createMockActivities({
+      sendConfirmationEmail: async () => {
+        throw ApplicationFailure.nonRetryable('SMTP unavailable', 'EmailError');
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(calls, [
+      'priceOrder',
+      'createOrder',
+      'assessRisk',
+      'authorizePayment',
+      'reserveInventory',
+      'capturePayment',
+      'sendConfirmationEmail',
+      'releaseInventory',
+      'refundPayment',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('voids the authorization instead of refunding when the capture fails', async () => {
+    const { activities, calls } = createMockActivities({
+      capturePayment: async () => {
+        throw new PaymentDeclinedError();
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'PaymentDeclinedError');
+    assert.ok(!calls.includes('refundPayment'));
+    assert.deepEqual(calls.slice(-5), [
+      'capturePayment',
+      'releaseInventory',
+      'voidPayment',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+  });
+
+  it('continues compensating when one compensation fails', async () => {
+    const events: unknown[] = [];
+    const { activities, calls } = createMockActivities({
+      capturePayment: async () => {
+        throw new PaymentDeclinedError();
+      },
+      voidPayment: async () => {
+        throw ApplicationFailure.nonRetryable('Void rejected', 'VoidError');
+      },
+      recordSagaEvent: async (event) => {
+        events.push(event);
+      },
+    });
+
+    const result = await runOrder(activities);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(calls.slice(-5), [
+      'releaseInventory',
+      'voidPayment',
+      'recordSagaEvent',
+      'cancelOrder',
+      'sendCancellationEmail',
+    ]);
+    assert.deepEqual(events, [
+      {
+        orderId: 'order-test',
+        type: 'compensation.failed',
+        step: 'voidPayment',
+        data: { orderId: 'order-test', authorizationId: 'auth-1', error: 'Void rejected' },
+        attempt: 1,
+      },
+    ]);
+    assert.equal(result.message, 'Order cancelled, compensation failed and needs attention');
+    assert.deepEqual(
+      result.compensationFailures?.map(({ step, status, error, attempts }) => [
+        step.type,
+        status,
+        error,
+        attempts,
+      ]),
+      [['voidPayment', 'open', 'Void rejected', 1]]
+    );
+  });
+
+  describe('with awaitOperator', () => {
+    const options: OrderWorkflowOptions = {
+      compensation: {
+        timeout: '1m',
+        retry: {
+          initialInterval: '1s',
+          backoffCoefficient: 2,
+          maximumInterval: '1s',
+          maximumAttempts: 1,
+        },
+        awaitOperator: true,
+      },
+    };
+
+    // Fails the capture, then the void of the authorization on its first `failures` runs
+    function failingVoid(failures: number) {
+      let voids = 0;
+      return createMockActivities({
+        capturePayment: async () => {
+          throw new PaymentDeclinedError();
+        },
+        voidPayment: async () => {
+          voids++;
+          if (voids <= failures) {
+            throw ApplicationFailure.nonRetryable('Void rejected', 'VoidError');
+          }
+          return { success: true, message: 'Payment authorization voided' };
+        },
+        recordSagaEvent: async () => undefined,
+      });
+    }
+
+    async function parkedOrder(
+      activities: MockActivities,
+      operatorAction: (handle: WorkflowHandle<typeof orderWorkflow>) => Promise<void>
+    ): Promise<WorkflowResult> {
+      const worker = await Worker.create({
+        connection: env.nativeConnection,
+        taskQueue: TASK_QUEUE,
+        workflowBundle,
+        activities,
+      });
+
+      return worker.runUntil(async () => {
+        const handle = await env.client.workflow.start(orderWorkflow, {
+          args: [orderData, options],
+          taskQueue: TASK_QUEUE,
+          workflowId: `order-workflow-attention-${Date.now()}`,
+        });
+        // Past every checkpoint: the rollback is done and the order waits for an operator
+        await env.sleep('1h');
+        const state = await handle.query(getOrderStatusQuery);
+        assert.equal(state.status, 'needs-attention');
+        assert.deepEqual(
+          state.compensationFailures.map(({ step, status }) => [step.type, status]),
+          [['voidPayment', 'open']]
+        );
+
+        await operatorAction(handle);
+        return handle.result();
+      });
+    }
+
+    it('holds the order until a retried compensation succeeds', async () => {
+      const { activities, calls } = failingVoid(1);
+
+      const result = await parkedOrder(activities, (handle) =>
+        handle.signal(retryCompensationSignal, { operator: 'alice' })
+      );
+
+      assert.equal(result.message, 'Order cancelled and payment released');
+      assert.deepEqual(
+        result.compensationFailures?.map(({ step, status, attempts, operator }) => [
+          step.type,
+          status,
+          attempts,
+          operator,
+        ]),
+        [['voidPayment', 'compensated', 2, 'alice']]
+      );
+      assert.equal(calls.filter((name) => name === 'voidPayment').length, 2);
+    });
+
+    it('keeps waiting after a failed retry until an operator marks it resolved', async () => {
+      const { activities, calls } = failingVoid(Number.POSITIVE_INFINITY);
+      const events: SagaEventRequest[] = [];
+      activities.recordSagaEvent = async (event) => {
+        events.push(event as SagaEventRequest);
+      };
+
+      const result = await parkedOrder(activities, async (handle) => {
+        await handle.signal(retryCompensationSignal, { operator: 'alice' });
+        await env.sleep('1m');
+        assert.equal((await handle.query(getOrderStatusQuery)).status, 'needs-attention');
+        await handle.signal(markResolvedSignal, {
+          operator: 'bob',
+          note: 'Voided in the PSP dashboard',
+        });
+      });
+
+      assert.equal(result.message, 'Order cancelled and payment released');
+      assert.deepEqual(
+        result.compensationFailures?.map(({ status, attempts, operator, note }) => [
+          status,
+          attempts,
+          operator,
+          note,
+        ]),
+        [['resolved', 2, 'bob', 'Voided in the PSP dashboard']]
+      );
+      assert.equal(calls.filter((name) => name === 'voidPayment').length, 2);
+      // Every transition gets its own outbox entry, the repeated failure by its attempt
+      assert.deepEqual(
+        events.map(({ type, step, attempt, data }) => [type, step, attempt, data?.operator]),
+        [
+          ['compensation.failed', 'voidPayment', 1, undefined],
+          ['compensation.failed', 'voidPayment', 2, 'alice'],
+          ['compensation.resolved', 'voidPayment', undefined, 'bob'],
+        ]
+      );
+    });
+  });
+
+  it('cancels a running order through the cancelOrder signal', async () => {
+    const { activities, calls } = createMockActivities();
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    const result = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start(orderWorkflow, {
+        args: [orderData],
+        taskQueue: TASK_QUEUE,
+        workflowId: `order-workflow-cancel-${Date.now()}`,
+      });
+      await handle.signal(cancelOrderSignal, { reason: 'Changed my mind', requestedBy: 'test' });
+      const outcome = await handle.result();
+
+      const status = await handle.query(getOrderStatusQuery);
+      assert.equal(status.status, 'cancelled');
+      assert.deepEqual(status.pendingCompensations, []);
+      return outcome;
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'OrderCancelledError');
+    assert.deepEqual(calls, ['priceOrder', 'createOrder', 'cancelOrder', 'sendCancellationEmail']);
+  });
+
+  it('records a cancel that arrives once the payment capture has started as too late', async () => {
+    const workflowId = `order-workflow-late-cancel-${Date.now()}`;
+    const { activities, calls } = createMockActivities({
+      capturePayment: async () => {
+        await env.client.workflow
+          .getHandle(workflowId)
+          .signal(cancelOrderSignal, { reason: 'Changed my mind', requestedBy: 'test' });
+        return { success: true, paymentId: 'payment-1', amount: vnd(250) };
+      },
+    });
+    const worker = await Worker.create({
+      connection: env.nativeConnection,
+      taskQueue: TASK_QUEUE,
+      workflowBundle,
+      activities,
+    });
+
+    const result = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start(orderWorkflow, {
+        args: [orderData],
+        taskQueue: TASK_QUEUE,
+        workflowId,
+      });
+      const outcome = await handle.result();
+
+      const status = await handle.query(getOrderStatusQuery);
+      assert.equal(status.cancellable, false);
+      assert.equal(status.cancelRequest, undefined);
+      assert.deepEqual(status.lateCancelRequest, {
+        reason: 'Changed my mind',
+        requestedBy: 'test',
+      });
+      return outcome;
+    });
+
+    assert.equal(result.success, true);
+    assert.ok(!calls.includes('refundPayment'));
+  });
+});
@@ -1,141 +1,787 @@
-import { log, proxyActivities, sleep } from '@temporalio/workflow';
-import type { CompensationStep, OrderData, WorkflowResult } from '../types/index.js';
-
-const {
-  createOrder,
-  reserveInventory,
-  processPayment,
-  sendConfirmationEmail,
-  cancelOrder,
-  releaseInventory,
-  refundPayment,
-  sendCancellationEmail,
-} = proxyActivities({
-  scheduleToCloseTimeout: '30s',
-  retry: {
-    initialInterval: '1s', // Đợi 1s trước lần retry đầu tiên
-    backoffCoefficient: 2.0, // Tăng dần: 1s → 2s → 4s
-    maximumInterval: '10s', // Tối đa đợi 10s giữa các lần retry
-    maximumAttempts: 3, // Retry tối đa 3 lần
-    // nonRetryableErrorTypes: ['PaymentValidationError'], // Các lỗi không retry
-  },
-});
+import {
+  ActivityFailure,
+  ApplicationFailure,
+  condition,
+  defineQuery,
+  defineSignal,
+  log,
+  proxyActivities,
+  setHandler,
+  upsertSearchAttributes,
+} from '@temporalio/workflow';
+import {
+  DEFAULT_ACTIVITY_CONFIG,
+  DEFAULT_BACKORDER_OPTIONS,
+  DEFAULT_COMPENSATION_OPTIONS,
+  DEFAULT_REVIEW_TIMEOUT,
+} from '../config/defaults.js';
+import { durationToMs } from '../config/duration.js';
+import {
+  BackorderExpiredError,
+  InvalidOrderError,
+  NON_RETRYABLE_PAYMENT_ERRORS,
+  ReviewExpiredError,
+  ReviewRejectedError,
+  RiskRejectedError,
+} from '../errors/index.js';
+import { fulfilledItems } from '../inventory/index.js';
+import { formatMoney, toMajor } from '../money/index.js';
+import {
+  CURRENCY,
+  CURRENT_STEP,
+  FAILURE_REASON,
+  ORDER_STATUS,
+  TOTAL_AMOUNT,
+  USER_ID,
+} from '../search-attributes.js';
+import type {
+  ActivityResult,
+  CancelOrderRequest,
+  CompensationRequest,
+  CompensationStep,
+  Fulfillment,
+  ManualReview,
+  NotificationDelivery,
+  OrderData,
+  OrderEvent,
+  OrderEventData,
+  OrderEventType,
+  OrderStep,
+  OrderWorkflowOptions,
+  OrderWorkflowState,
+  ReserveInventoryResult,
+  ReviewRequest,
+  ReviewStatus,
+  RiskRuleMatch,
+  SagaEventRequest,
+  SendNotificationResult,
+  WorkflowResult,
+} from '../types/index.js';
+import { formatViolations, normalizeOrderData, validateOrderData } from '../validation/index.js';
+import { Saga, type SagaCompensation } from './saga.js';
+
+export const ORDER_WORKFLOW_ID_PREFIX = 'order-workflow-';
+
+/**
+ * Deterministic workflow ID of an order, so a resubmitted order never starts a second saga
+ */
+export function workflowIdFor(orderId: string): string {
+  return `${ORDER_WORKFLOW_ID_PREFIX}${orderId}`;
+}
+
+// Unwrap activity failures so callers get the root error code and message
+function describeError(error: unknown): { code?: string; message: string } {
+  const failure = error instanceof ActivityFailure && error.cause ? error.cause : error;
+  if (failure instanceof ApplicationFailure) {
+    return { code: failure.type ?? undefined, message: failure.message };
+  }
+  return { message: failure instanceof Error ? failure.message : 'Unknown error' };
+}
+
+/**
+ * Deliveries of a notification whose retries ran out on a failed channel, undefined for any
+ * other failure: a recipient who could not be reached does not fail the workflow
+ */
+export function undeliveredNotification(error: unknown): NotificationDelivery[] | undefined {
+  const failure = error instanceof ActivityFailure ? error.cause : undefined;
+  if (failure instanceof ApplicationFailure && failure.type === 'NotificationFailedError') {
+    const [{ deliveries }] = failure.details as [{ deliveries: NotificationDelivery[] }];
+    return deliveries;
+  }
+  return undefined;
+}
+
+/**
+ * Query: current progress of the saga (step, compensation stack, errors, retries)
+ */
+export const getOrderStatusQuery = defineQuery<OrderWorkflowState>('getOrderStatus');
+
+/**
+ * Signal: abort a running saga and roll back the steps executed so far
+ */
+export const cancelOrderSignal = defineSignal<[CancelOrderRequest]>('cancelOrder');
+
+/**
+ * Signals: operator decision on an order waiting for a manual review
+ */
+export const approveOrderSignal = defineSignal<[ReviewRequest]>('approveOrder');
+export const rejectOrderSignal = defineSignal<[ReviewRequest]>('rejectOrder');
+
+/**
+ * Signal: stock arrived for these items, a backordered order retries its reservation
+ */
+export const inventoryRestockedSignal = defineSignal<[{ itemIds: string[] }]>('inventoryRestocked');
+
+/**
+ * Signals: operator action on the failed compensations of an order that needs attention
+ * retryCompensation runs them again, markResolved closes them once they were fixed by hand
+ */
+export const retryCompensationSignal = defineSignal<[CompensationRequest]>('retryCompensation');
+export const markResolvedSignal = defineSignal<[CompensationRequest]>('markResolved');
 
 /**
  * SAGA pattern workflow for order processing and payment
  * Handles both success and failure cases with compensation
  */
-export async function orderWorkflow(orderData: OrderData): Promise<WorkflowResult> {
-  const { orderId, userId, items, totalAmount } = orderData;
-  const compensationSteps: CompensationStep[] = [];
+export async function orderWorkflow(
+  orderData: OrderData,
+  options: OrderWorkflowOptions = {}
+): Promise<WorkflowResult> {
+  // Reject malformed orders before the saga starts: nothing has to be compensated yet
+  const violations = validateOrderData(orderData);
+  if (violations.length > 0) {
+    log.error('❌ Invalid order', { orderId: orderData?.orderId, violations });
+    upsertSearchAttributes([
+      { key: ORDER_STATUS, value: 'FAILED' },
+      { key: FAILURE_REASON, value: formatViolations(violations) },
+    ]);
+    throw new InvalidOrderError(violations);
+  }
 
-  log.info('🚀 Starting order workflow', { orderId, userId, totalAmount });
+  // The total is recomputed from the items, the caller's totalAmount is never trusted
+  const order = normalizeOrderData(orderData);
+  const { orderId, userId, items } = order;
+  const activityConfig = options.activities ?? DEFAULT_ACTIVITY_CONFIG;
+  const reviewTimeout = options.reviewTimeout ?? DEFAULT_REVIEW_TIMEOUT;
+  const backorder = options.backorder ?? DEFAULT_BACKORDER_OPTIONS;
+  const policy = order.fulfillmentPolicy ?? 'all-or-nothing';
+  const compensation = options.compensation ?? DEFAULT_COMPENSATION_OPTIONS;
 
-  try {
-    // Step 1: Create order
-    log.info('📝 Step 1: Creating order...');
-    await createOrder({ orderId, userId, items, totalAmount });
-    compensationSteps.push({ type: 'cancelOrder', data: { orderId } });
+  const {
+    priceOrder,
+    createOrder,
+    assessRisk,
+    authorizePayment,
+    reserveInventory,
+    repriceOrder,
+    sendConfirmationEmail,
+    capturePayment,
+    sendCancellationEmail,
+    recordWebhookDeadLetter,
+    recordSagaEvent,
+  } = proxyActivities({
+    scheduleToCloseTimeout: activityConfig.scheduleToCloseTimeout,
+    retry: {
+      ...activityConfig.retry,
+      nonRetryableErrorTypes: NON_RETRYABLE_PAYMENT_ERRORS, // Các lỗi không retry
+    },
+  });
 
-    await sleep('2s'); // Simulate delay
+  // Compensations retry longer than the forward steps: giving up leaves money or stock behind
+  const { cancelOrder, releaseInventory, voidPayment, refundPayment } = proxyActivities({
+    scheduleToCloseTimeout: compensation.timeout,
+    retry: {
+      ...compensation.retry,
+      nonRetryableErrorTypes: NON_RETRYABLE_PAYMENT_ERRORS,
+    },
+  });
 
-    // Step 2: Reserve inventory
-    log.info('📦 Step 2: Reserving inventory...');
-    const inventoryResult = await reserveInventory({ orderId, items });
-    compensationSteps.push({ type: 'releaseInventory', data: { orderId, items } });
+  // Deliveries get their own retry policy, a failing subscriber never fails the order
+  const webhooks = options.webhooks ?? {
+    subscriptions: [],
+    timeout: activityConfig.scheduleToCloseTimeout,
+    retry: activityConfig.retry,
+  };
+  const { deliverWebhook } = proxyActivities({
+    startToCloseTimeout: webhooks.timeout,
+    retry: webhooks.retry,
+  });
 
-    if (!inventoryResult.success) {
-      throw new Error('Insufficient inventory');
+  const state: OrderWorkflowState = {
+    orderId,
+    status: 'running',
+    completedSteps: [],
+    notifications: [],
+    pendingCompensations: [],
+    compensationFailures: [],
+    retryAttempts: {},
+    cancellable: true,
+  };
+
+  // Outbox entry of a transition no activity records; failing to record it never stops the
+  // rollback or the operator actions
+  async function recordEvent(event: SagaEventRequest): Promise<void> {
+    try {
+      await recordSagaEvent(event);
+    } catch (recordError) {
+      log.error('❌ Error recording saga event', { ...describeError(recordError) });
     }
+  }
 
-    await sleep('2s');
+  // Rolled back newest first, a failed compensation is recorded and the rollback goes on
+  const saga = new Saga<CompensationStep>({
+    onCompensate: ({ name, details }) => {
+      log.info(`🔄 Compensating: ${name}`, details.data);
+      upsertSearchAttributes([{ key: CURRENT_STEP, value: name }]);
+    },
+    onCompensationError: async ({ compensation: { name, details: step }, error }) => {
+      const { code, message } = describeError(error);
+      log.error(`❌ Error during compensation ${name}`, { error: message });
+      state.compensationFailures.push({
+        step,
+        status: 'open',
+        error: message,
+        errorCode: code,
+        attempts: 1,
+        failedAt: new Date().toISOString(),
+      });
+      await recordEvent({
+        orderId,
+        type: 'compensation.failed',
+        step: name,
+        data: { ...step.data, error: message },
+        attempt: 1,
+      });
+    },
+  });
+
+  setHandler(getOrderStatusQuery, () => ({ ...state, pendingCompensations: saga.pending }));
+
+  setHandler(cancelOrderSignal, (request) => {
+    if (state.cancelRequest) {
+      return;
+    }
+    // Too late to cancel once the payment is captured or the saga is rolling back
+    if (!state.cancellable) {
+      log.warn('🛑 Cancellation requested too late, ignored', { orderId, ...request });
+      state.lateCancelRequest = request;
+      return;
+    }
+    log.warn('🛑 Cancellation requested', { orderId, ...request });
+    state.cancelRequest = request;
+  });
+
+  // Decisions only count while a review is pending, later or duplicate signals are ignored
+  function decideReview(status: ReviewStatus, { reviewer, note }: ReviewRequest): void {
+    if (state.review?.status !== 'pending') {
+      log.warn('Ignoring review decision, no review pending', { orderId, status, reviewer });
+      return;
+    }
+    log.info(`🧑‍⚖️ Order ${status} by ${reviewer}`, { orderId, note });
+    Object.assign(state.review, { status, reviewer, note, decidedAt: new Date().toISOString() });
+  }
+
+  setHandler(approveOrderSignal, (request) => decideReview('approved', request));
+  setHandler(rejectOrderSignal, (request) => decideReview('rejected', request));
 
-    // Step 3: Process payment
-    log.info('💳 Step 3: Processing payment...');
+  const openFailures = () =>
+    state.compensationFailures.filter((failure) => failure.status === 'open');
+
+  // Operator actions only count while the order needs attention
+  let retryRequest: CompensationRequest | undefined;
+  let resolveRequest: CompensationRequest | undefined;
+  setHandler(retryCompensationSignal, (request) => {
+    if (state.status !== 'needs-attention') {
+      log.warn('Ignoring compensation retry, nothing needs attention', { orderId, ...request });
+      return;
+    }
+    log.info(`🔁 Compensation retry requested by ${request.operator}`, { orderId });
+    retryRequest = request;
+  });
+  setHandler(markResolvedSignal, (request) => {
+    if (state.status !== 'needs-attention') {
+      log.warn('Ignoring resolution, nothing needs attention', { orderId, ...request });
+      return;
+    }
+    log.info(`🩹 Failed compensations resolved by ${request.operator}`, { orderId });
+    resolveRequest = request;
+  });
+
+  // Set by a restock of an item the backordered order is missing
+  let restocked = false;
+  setHandler(inventoryRestockedSignal, ({ itemIds }) => {
+    const missing = state.fulfillment?.status === 'backordered' ? state.fulfillment.shortages : [];
+    if (missing.some(({ itemId }) => itemIds.includes(itemId))) {
+      log.info('📦 Restock received', { orderId, itemIds });
+      restocked = true;
+    }
+  });
+
+  // Run a forward step, recording progress and retry attempts for the status query
+  async function runStep<T extends ActivityResult>(
+    step: OrderStep,
+    action: () => Promise<T>
+  ): Promise<T> {
+    state.currentStep = step;
+    upsertSearchAttributes([{ key: CURRENT_STEP, value: step }]);
+    try {
+      const result = await action();
+      state.retryAttempts[step] = result.attempt ?? 1;
+      if (result.success) {
+        state.completedSteps.push(step);
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof ActivityFailure && error.retryState === 'MAXIMUM_ATTEMPTS_REACHED') {
+        state.retryAttempts[step] = activityConfig.retry.maximumAttempts;
+      }
+      throw error;
+    }
+  }
+
+  // Lifecycle events are delivered alongside the saga; the workflow waits for every delivery
+  // (or its dead letter) before it returns
+  const webhookDeliveries: Promise<void>[] = [];
+
+  function emit<T extends OrderEventType>(type: T, data: OrderEventData[T]): void {
+    const event: OrderEvent<T> = {
+      eventId: `${orderId}:${type}`,
+      type,
+      orderId,
+      userId,
+      occurredAt: new Date().toISOString(),
+      data,
+    };
+    for (const { subscriberId, events } of webhooks.subscriptions) {
+      if (events.includes(type)) {
+        webhookDeliveries.push(deliverEvent(subscriberId, event));
+      }
+    }
+  }
+
+  async function deliverEvent(subscriberId: string, event: OrderEvent): Promise<void> {
+    try {
+      await deliverWebhook({ subscriberId, event });
+    } catch (error) {
+      const { message } = describeError(error);
+      log.warn('☠️ Webhook delivery given up', { subscriberId, eventId: event.eventId, message });
+      try {
+        await recordWebhookDeadLetter({
+          subscriberId,
+          event,
+          error: message,
+          retryState: error instanceof ActivityFailure ? error.retryState : undefined,
+        });
+      } catch (recordError) {
+        log.error('❌ Error recording webhook dead letter', { ...describeError(recordError) });
+      }
+    }
+  }
+
+  // Activity undoing each kind of step, for the rollback and the operator retries
+  const undo: Record<CompensationStep['type'], (data: CompensationStep['data']) => Promise<void>> =
+    {
+      cancelOrder,
+      releaseInventory,
+      voidPayment,
+      refundPayment: async (data) => {
+        await refundPayment(data);
+        if (data.paymentId) {
+          emit('order.refunded', { paymentId: data.paymentId });
+        }
+      },
+    };
+
+  function compensationOf(step: CompensationStep): SagaCompensation<CompensationStep> {
+    return { name: step.type, details: step, run: () => undo[step.type](step.data) };
+  }
+
+  // Run the open failed compensations again, newest first like the original rollback
+  async function retryFailedCompensations({ operator, note }: CompensationRequest): Promise<void> {
+    for (const failure of openFailures()) {
+      failure.attempts++;
+      try {
+        log.info(`🔁 Retrying compensation: ${failure.step.type}`, failure.step.data);
+        await compensationOf(failure.step).run();
+        Object.assign(failure, {
+          status: 'compensated',
+          operator,
+          note,
+          closedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        const { code, message } = describeError(error);
+        log.error(`❌ Compensation ${failure.step.type} failed again`, { error: message });
+        Object.assign(failure, {
+          error: message,
+          errorCode: code,
+          failedAt: new Date().toISOString(),
+        });
+        await recordEvent({
+          orderId,
+          type: 'compensation.failed',
+          step: failure.step.type,
+          data: { ...failure.step.data, error: message, operator },
+          attempt: failure.attempts,
+        });
+      }
+    }
+  }
+
+  // Close the open failed compensations, handled by the operator outside the saga
+  async function resolveFailedCompensations({
+    operator,
+    note,
+  }: CompensationRequest): Promise<void> {
+    const closedAt = new Date().toISOString();
+    for (const failure of openFailures()) {
+      Object.assign(failure, { status: 'resolved', operator, note, closedAt });
+      await recordEvent({
+        orderId,
+        type: 'compensation.resolved',
+        step: failure.step.type,
+        data: { ...failure.step.data, operator, note },
+      });
+    }
+  }
+
+  // Flag the order, then (with awaitOperator) hold it open until every failed compensation
+  // is retried successfully or resolved by hand
+  async function escalate(): Promise<void> {
+    state.status = 'needs-attention';
+    state.currentStep = undefined;
+    upsertSearchAttributes([
+      { key: ORDER_STATUS, value: 'NEEDS_ATTENTION' },
+      { key: CURRENT_STEP, value: null },
+    ]);
+    log.error('🚨 Compensation failed, order needs attention', {
+      orderId,
+      failed: openFailures().map((failure) => failure.step.type),
+    });
+    if (!compensation.awaitOperator) {
+      return;
+    }
+
+    while (openFailures().length > 0) {
+      await condition(() => retryRequest !== undefined || resolveRequest !== undefined);
+      const retry = retryRequest;
+      const resolve = resolveRequest;
+      retryRequest = undefined;
+      resolveRequest = undefined;
+      if (retry) {
+        await retryFailedCompensations(retry);
+      }
+      if (resolve) {
+        await resolveFailedCompensations(resolve);
+      }
+    }
+  }
+
+  // Simulated delay between steps; wakes up early to abort if the order is cancelled
+  async function checkpoint(): Promise<void> {
+    const cancelled = await condition(() => state.cancelRequest !== undefined, '2s');
+    if (cancelled) {
+      throw ApplicationFailure.nonRetryable(
+        `Order cancelled: ${state.cancelRequest?.reason || 'requested by user'}`,
+        'OrderCancelledError'
+      );
+    }
+  }
+
+  // Park the order until an operator approves or rejects it; rejected on timeout
+  async function awaitManualReview(matchedRules: RiskRuleMatch[]): Promise<ManualReview> {
+    const review: ManualReview = {
+      status: 'pending',
+      matchedRules,
+      requestedAt: new Date().toISOString(),
+      timeout: reviewTimeout,
+    };
+    state.review = review;
+    state.currentStep = 'manualReview';
+    upsertSearchAttributes([
+      { key: ORDER_STATUS, value: 'PENDING_REVIEW' },
+      { key: CURRENT_STEP, value: 'manualReview' },
+    ]);
+    log.warn('🧑‍⚖️ Waiting for a manual review', { orderId, timeout: reviewTimeout });
+
+    const settled = await condition(
+      () => review.status !== 'pending' || state.cancelRequest !== undefined,
+      reviewTimeout
+    );
+    if (!settled) {
+      review.status = 'expired';
+      review.decidedAt = new Date().toISOString();
+      throw new ReviewExpiredError(reviewTimeout);
+    }
+    if (review.status === 'pending') {
+      await checkpoint(); // Cancelled while waiting
+    }
+    if (review.status === 'rejected') {
+      throw new ReviewRejectedError(review.reviewer ?? 'unknown', review.note);
+    }
+
+    state.completedSteps.push('manualReview');
+    upsertSearchAttributes([{ key: ORDER_STATUS, value: 'PROCESSING' }]);
+    return review;
+  }
+
+  // Wait for the missing items, retrying the reservation on every restock signal and at
+  // least every recheckInterval; fails once the backorder timeout is over
+  async function awaitRestock(first: ReserveInventoryResult): Promise<ReserveInventoryResult> {
+    const deadline = Date.now() + durationToMs(backorder.timeout);
+    const fulfillment: Fulfillment = {
+      policy,
+      status: 'backordered',
+      reserved: [],
+      shortages: first.shortages ?? [],
+      backorderedAt: new Date().toISOString(),
+    };
+    state.fulfillment = fulfillment;
+    upsertSearchAttributes([{ key: ORDER_STATUS, value: 'BACKORDERED' }]);
+    log.warn('⏳ Order backordered', { orderId, shortages: fulfillment.shortages });
+
+    let result = first;
+    while (!result.success) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new BackorderExpiredError(fulfillment.shortages, backorder.timeout);
+      }
+      restocked = false;
+      await condition(
+        () => restocked || state.cancelRequest !== undefined,
+        Math.min(remaining, durationToMs(backorder.recheckInterval))
+      );
+      if (state.cancelRequest) {
+        await checkpoint(); // Cancelled while waiting
+      }
+      result = await runStep('reserveInventory', () =>
+        reserveInventory({ orderId, items, policy })
+      );
+      fulfillment.shortages = result.shortages ?? [];
+    }
+
+    upsertSearchAttributes([{ key: ORDER_STATUS, value: 'PROCESSING' }]);
+    return result;
+  }
+
+  log.info('🚀 Starting order workflow', {
+    orderId,
+    userId,
+    subtotal: formatMoney(order.totalAmount),
+  });
+
+  upsertSearchAttributes([
+    { key: ORDER_STATUS, value: 'PROCESSING' },
+    { key: USER_ID, value: userId },
+    { key: TOTAL_AMOUNT, value: toMajor(order.totalAmount) },
+    { key: CURRENCY, value: order.totalAmount.currency },
+  ]);
+
+  try {
+    // Step 1: Price order (promotions, coupon, shipping, tax); nothing to compensate
+    log.info('🏷️ Step 1: Pricing order...');
+    const { pricing } = await runStep('priceOrder', () => priceOrder(order));
+    state.pricing = pricing;
+    upsertSearchAttributes([{ key: TOTAL_AMOUNT, value: toMajor(pricing.total) }]);
+
+    // Step 2: Create order
+    log.info('📝 Step 2: Creating order...');
+    await saga.run({
+      name: 'createOrder',
+      action: () => runStep('createOrder', () => createOrder({ ...order, pricing })),
+      compensation: () => compensationOf({ type: 'cancelOrder', data: { orderId } }),
+    });
+    emit('order.created', { items, total: pricing.total });
+
+    await checkpoint(); // Simulate delay
+
+    // Step 3: Risk check, before any money moves
+    log.info('🕵️ Step 3: Assessing risk...');
+    const { assessment } = await runStep('assessRisk', () =>
+      assessRisk({ orderId, userId, items, total: pricing.total })
+    );
+    state.risk = assessment;
+    if (assessment.decision === 'reject') {
+      throw new RiskRejectedError(assessment.matchedRules);
+    }
+    // Flagged orders wait for an operator; an approval also waives the payment limit
+    const review =
+      assessment.decision === 'review'
+        ? await awaitManualReview(assessment.matchedRules)
+        : undefined;
+
+    // Step 4: Authorize payment for the priced total (hold the funds, nothing is charged yet)
+    log.info('💳 Step 4: Authorizing payment...');
     // Payment scenarios (random):
     // - Success (60%) → Continue workflow
-    // - Network/Server errors (25%) → Temporal auto-retry (3 attempts)
+    // - GatewayTimeoutError/GatewayServerError (25%) → Temporal auto-retry (3 attempts)
     //   → If still fail after retries → Workflow catch → Compensation
-    // - Client/Business errors (15%) → No retry → Workflow catch → Compensation
-    const paymentResult = await processPayment({ orderId, userId, amount: totalAmount });
+    // - PaymentValidationError/PaymentAuthError/AmountLimitExceededError (15%)
+    //   → Non-retryable → Workflow catch → Compensation
+    const { authorizationId } = await saga.run({
+      name: 'authorizePayment',
+      action: () =>
+        runStep('authorizePayment', () =>
+          authorizePayment({ orderId, userId, amount: pricing.total, approvedBy: review?.reviewer })
+        ),
+      // Until it is captured, undoing the payment only releases the hold
+      compensation: ({ authorizationId }) =>
+        authorizationId
+          ? compensationOf({ type: 'voidPayment', data: { orderId, authorizationId } })
+          : undefined,
+    });
 
-    if (!paymentResult.success) {
-      // Payment failed (client error or business logic) → Trigger compensation
-      log.error('❌ Payment failed, triggering compensation', {
-        orderId,
-        reason: paymentResult.message,
-      });
-      throw new Error(`Payment failed: ${paymentResult.message || 'Unknown error'}`);
+    await checkpoint();
+
+    // Step 5: Reserve inventory under the order's fulfillment policy
+    log.info('📦 Step 5: Reserving inventory...', { policy });
+    // Registered up front: the release only returns what this order actually holds,
+    // so it also covers a reservation applied before a lost response
+    saga.addCompensation(compensationOf({ type: 'releaseInventory', data: { orderId } }));
+    let inventoryResult = await runStep('reserveInventory', () =>
+      reserveInventory({ orderId, items, policy })
+    );
+    if (!inventoryResult.success && policy === 'backorder') {
+      inventoryResult = await awaitRestock(inventoryResult);
     }
 
-    // Only add compensation if payment succeeded
-    if (paymentResult.paymentId) {
-      compensationSteps.push({
-        type: 'refundPayment',
-        data: { orderId, paymentId: paymentResult.paymentId },
-      });
+    if (!inventoryResult.success) {
+      throw ApplicationFailure.nonRetryable(
+        inventoryResult.message || 'Insufficient inventory',
+        'InsufficientInventoryError'
+      );
     }
 
-    await sleep('2s');
+    const reserved = inventoryResult.reserved ?? [];
+    const shortages = inventoryResult.shortages ?? [];
+    const fulfillment: Fulfillment = {
+      ...state.fulfillment,
+      policy,
+      status: shortages.length > 0 ? 'partial' : 'fulfilled',
+      reserved,
+      shortages,
+    };
+    state.fulfillment = fulfillment;
+
+    // Partial fulfillment: price and charge only the lines that ship, without the coupon
+    // when it no longer applies to them
+    let charged = pricing;
+    if (fulfillment.status === 'partial') {
+      log.warn('✂️ Partial fulfillment, repricing the available items', { orderId, shortages });
+      const repriced = await runStep('repriceOrder', () =>
+        repriceOrder({ ...order, items: fulfilledItems(items, reserved) })
+      );
+      if (repriced.message) {
+        log.warn('🏷️ Coupon dropped from the partial order', { orderId, reason: repriced.message });
+      }
+      charged = repriced.pricing;
+      state.pricing = charged;
+    }
 
-    // Step 4: Send confirmation email
-    log.info('📧 Step 4: Sending confirmation email...');
-    await sendConfirmationEmail({ orderId, userId, totalAmount });
+    await checkpoint();
+    state.cancellable = false;
+
+    // Step 6: Capture payment before the customer is told the order is confirmed; the rest of
+    // a partial order's authorization is released
+    log.info('💰 Step 6: Capturing payment...');
+    const captureResult = await runStep('capturePayment', () =>
+      capturePayment({ orderId, userId, authorizationId, amount: charged.total })
+    );
+
+    // From here on the money has moved: undoing the payment means a refund, not a void
+    if (captureResult.paymentId) {
+      saga.replaceCompensation(
+        'voidPayment',
+        compensationOf({
+          type: 'refundPayment',
+          data: { orderId, paymentId: captureResult.paymentId },
+        })
+      );
+      emit('order.paid', {
+        paymentId: captureResult.paymentId,
+        amount: captureResult.amount ?? charged.total,
+      });
+    }
 
+    // Step 7: Send confirmation email with the price breakdown of what ships
+    log.info('📧 Step 7: Sending confirmation email...');
+    try {
+      const confirmation: SendNotificationResult = await runStep('sendConfirmationEmail', () =>
+        sendConfirmationEmail({ orderId, userId, pricing: charged, fulfillment })
+      );
+      state.notifications.push(...(confirmation.deliveries ?? []));
+    } catch (error) {
+      const deliveries = undeliveredNotification(error);
+      if (!deliveries) {
+        throw error;
+      }
+      log.warn('📧 Confirmation not delivered on every channel', { orderId });
+      state.notifications.push(...deliveries);
+    }
+
+    state.status = 'completed';
+    state.currentStep = undefined;
+    upsertSearchAttributes([
+      { key: ORDER_STATUS, value: 'COMPLETED' },
+      { key: CURRENT_STEP, value: null },
+    ]);
     log.info('✅ Order completed successfully!', { orderId });
+    await Promise.all(webhookDeliveries);
 
     return {
       success: true,
       orderId,
       message: 'Order processed successfully',
-      paymentId: paymentResult.paymentId,
+      paymentId: captureResult.paymentId,
+      pricing: charged,
+      risk: assessment,
+      review,
+      fulfillment,
+      notifications: state.notifications,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const { code: errorCode, message: errorMessage } = describeError(error);
 
-    log.error('❌ Error processing order', { error: errorMessage, orderId });
+    state.status = 'compensating';
+    state.cancellable = false;
+    state.lastError = errorMessage;
+    state.lastErrorCode = errorCode;
+    upsertSearchAttributes([
+      { key: ORDER_STATUS, value: 'COMPENSATING' },
+      { key: FAILURE_REASON, value: errorMessage },
+    ]);
+    log.error('❌ Error processing order', { error: errorMessage, errorCode, orderId });
 
-    // Execute compensation (rollback) in reverse order
+    // Execute compensation (rollback) in reverse order of the completed steps
     log.info('🔄 Starting compensation (rollback)...');
+    await saga.compensate();
 
-    for (let i = compensationSteps.length - 1; i >= 0; i--) {
-      const step = compensationSteps[i];
+    // The customer and the subscribers never heard of an order that failed before it was created
+    if (state.completedSteps.includes('createOrder')) {
       try {
-        log.info(`🔄 Compensating: ${step.type}`, step.data);
-
-        switch (step.type) {
-          case 'refundPayment':
-            await refundPayment(step.data);
-            break;
-          case 'releaseInventory':
-            await releaseInventory(step.data);
-            break;
-          case 'cancelOrder':
-            await cancelOrder(step.data);
-            break;
-        }
-
-        await sleep('1s');
-      } catch (compError) {
-        const compErrorMessage = compError instanceof Error ? compError.message : 'Unknown error';
-        log.error(`❌ Error during compensation ${step.type}`, { error: compErrorMessage });
-        // Continue compensation for other steps even if one fails
+        const cancellation: SendNotificationResult = await sendCancellationEmail({
+          orderId,
+          userId,
+          reason: errorMessage,
+        });
+        state.notifications.push(...(cancellation.deliveries ?? []));
+      } catch (emailError) {
+        state.notifications.push(...(undeliveredNotification(emailError) ?? []));
+        log.error('❌ Error sending cancellation email', { ...describeError(emailError) });
       }
+      emit('order.cancelled', { reason: errorMessage, errorCode });
     }
 
-    // Send cancellation email
-    try {
-      await sendCancellationEmail({ orderId, userId, reason: errorMessage });
-    } catch (emailError) {
-      const emailErrorMessage = emailError instanceof Error ? emailError.message : 'Unknown error';
-      log.error('❌ Error sending cancellation email', { error: emailErrorMessage });
+    if (openFailures().length > 0) {
+      await escalate();
+    }
+    // Still open when the workflow does not wait for an operator
+    const unresolved = openFailures().length > 0;
+    if (!unresolved) {
+      state.status = 'cancelled';
+      state.currentStep = undefined;
+      upsertSearchAttributes([
+        { key: ORDER_STATUS, value: state.cancelRequest ? 'CANCELLED' : 'FAILED' },
+        { key: CURRENT_STEP, value: null },
+      ]);
     }
+    await Promise.all(webhookDeliveries);
 
     return {
       success: false,
       orderId,
       error: errorMessage,
-      message: 'Order cancelled and refunded',
+      errorCode,
+      pricing: state.pricing,
+      risk: state.risk,
+      review: state.review,
+      fulfillment: state.fulfillment,
+      notifications: state.notifications,
+      compensationFailures:
+        state.compensationFailures.length > 0 ? state.compensationFailures : undefined,
+      message: unresolved
+        ? 'Order cancelled, compensation failed and needs attention'
+        : 'Order cancelled and payment released',
     };
   }
 }
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ApplicationFailure } from '@temporalio/common';
+import { Saga, type SagaCompensation } from './saga.js';
+
+/**
+ * The saga only needs a workflow context for its timeouts, these tests run it without one
+ */
+
+type Log = string[];
+
+function undo(log: Log, name: string, fails = false): SagaCompensation<string> {
+  return {
+    name,
+    details: name,
+    run: async () => {
+      log.push(`undo ${name}`);
+      if (fails) {
+        throw new Error(`${name} failed`);
+      }
+    },
+  };
+}
+
+async function runSteps(saga: Saga<string>, log: Log, names: string[]): Promise<void> {
+  for (const name of names) {
+    await saga.run({
+      name,
+      action: async () => {
+        log.push(name);
+        return name;
+      },
+      compensation: (result) => undo(log, result),
+    });
+  }
+}
+
+describe('Saga', () => {
+  it('compensates the completed steps newest first', async () => {
+    const log: Log = [];
+    const saga = new Saga<string>();
+    await runSteps(saga, log, ['create', 'authorize']);
+    await assert.rejects(
+      saga.run({
+        name: 'reserve',
+        action: async () => {
+          throw new Error('out of stock');
+        },
+        compensation: () => undo(log, 'reserve'),
+      })
+    );
+    await saga.run({ name: 'notify', action: async () => 'sent', compensation: () => undefined });
+
+    assert.deepEqual(saga.pending, ['create', 'authorize']);
+    assert.deepEqual(await saga.compensate(), []);
+    assert.deepEqual(log, ['create', 'authorize', 'undo authorize', 'undo create']);
+    assert.deepEqual(saga.pending, []);
+  });
+
+  it('replaces a pending compensation in place', async () => {
+    const log: Log = [];
+    const saga = new Saga<string>();
+    await runSteps(saga, log, ['create', 'authorize']);
+    saga.addCompensation(undo(log, 'release'));
+    saga.replaceCompensation('authorize', undo(log, 'refund'));
+
+    await saga.compensate();
+
+    assert.deepEqual(log.slice(2), ['undo release', 'undo refund', 'undo create']);
+  });
+
+  it('continues past a failed compensation and reports it', async () => {
+    const log: Log = [];
+    const reported: string[] = [];
+    const saga = new Saga<string>({
+      onCompensate: ({ name }) => reported.push(`compensating ${name}`),
+      onCompensationError: ({ compensation }) => {
+        reported.push(`failed ${compensation.name}`);
+      },
+    });
+    saga.addCompensation(undo(log, 'create'));
+    saga.addCompensation(undo(log, 'authorize', true));
+    saga.addCompensation(undo(log, 'reserve'));
+
+    const failures = await saga.compensate();
+
+    assert.deepEqual(log, ['undo reserve', 'undo authorize', 'undo create']);
+    assert.deepEqual(
+      failures.map(({ compensation, error }) => [compensation.name, (error as Error).message]),
+      [['authorize', 'authorize failed']]
+    );
+    assert.deepEqual(reported, [
+      'compensating reserve',
+      'compensating authorize',
+      'failed authorize',
+      'compensating create',
+    ]);
+    assert.deepEqual(saga.pending, []);
+  });
+
+  it('stops at the first failed compensation when failing fast', async () => {
+    const log: Log = [];
+    const saga = new Saga<string>({ continueOnCompensationError: false });
+    saga.addCompensation(undo(log, 'create'));
+    saga.addCompensation(undo(log, 'authorize', true));
+    saga.addCompensation(undo(log, 'reserve'));
+
+    await assert.rejects(saga.compensate(), (error: ApplicationFailure) => {
+      assert.equal(error.type, 'SagaCompensationError');
+      assert.match(error.message, /authorize \(authorize failed\)/);
+      return true;
+    });
+    assert.deepEqual(log, ['undo reserve', 'undo authorize']);
+    assert.deepEqual(saga.pending, ['create', 'authorize']);
+  });
+
+  it('runs every compensation at once in parallel mode', async () => {
+    const log: Log = [];
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const saga = new Saga<string>({
+      parallelCompensation: true,
+      continueOnCompensationError: false,
+    });
+    for (const name of ['create', 'authorize', 'reserve']) {
+      saga.addCompensation({
+        name,
+        details: name,
+        run: async () => {
+          log.push(`start ${name}`);
+          await gate;
+          if (name !== 'reserve') {
+            throw new Error(`${name} failed`);
+          }
+        },
+      });
+    }
+
+    const compensated = saga.compensate();
+    await Promise.resolve();
+    assert.deepEqual(log, ['start reserve', 'start authorize', 'start create']);
+    release();
+
+    await assert.rejects(compensated, /authorize \(authorize failed\), create \(create failed\)/);
+    assert.deepEqual(saga.pending, ['create', 'authorize']);
+  });
+});
@@ -0,0 +1,188 @@
+import type { Duration } from '@temporalio/common';
+import { ActivityFailure, CancellationScope, isCancellation } from '@temporalio/workflow';
+import { SagaCompensationError, SagaStepTimeoutError } from '../errors/index.js';
+
+/**
+ * Declarative saga for workflow code: each step declares its action and how to undo it, the
+ * saga keeps the compensations of the completed steps and runs them when asked
+ * Only uses workflow-safe APIs, so it runs inside any workflow (and outside one without
+ * timeouts, e.g. in unit tests)
+ */
+
+/**
+ * Undo action of a completed step
+ */
+export interface SagaCompensation<D> {
+  // Used in logs and failures, e.g. the compensating activity
+  name: string;
+  // Serializable description for queries and failure reports, e.g. the activity arguments
+  details: D;
+  run: () => Promise<unknown>;
+  // Fails the compensation with SagaStepTimeoutError when it takes longer
+  timeout?: Duration;
+}
+
+export interface SagaStep<T, D> {
+  name: string;
+  action: () => Promise<T>;
+  // Built from the result once the action succeeded; undefined when nothing has to be undone
+  compensation?: (result: T) => SagaCompensation<D> | undefined;
+  // Fails the step with SagaStepTimeoutError when the action takes longer
+  timeout?: Duration;
+}
+
+export interface SagaCompensationFailure<D> {
+  compensation: SagaCompensation<D>;
+  error: unknown;
+}
+
+export interface SagaOptions<D> {
+  // Run every compensation at once instead of one at a time, newest first
+  parallelCompensation?: boolean;
+  // true (default): run every compensation and return the failed ones
+  // false: stop at the first failure with SagaCompensationError, the rest stays pending
+  continueOnCompensationError?: boolean;
+  // Called before each compensation runs
+  onCompensate?: (compensation: SagaCompensation<D>) => void;
+  // Called for each failed compensation before the saga moves on
+  onCompensationError?: (failure: SagaCompensationFailure<D>) => Promise<void> | void;
+}
+
+// Root cause of an activity failure, the ActivityFailure message itself is generic
+function messageOf(error: unknown): string {
+  const failure = error instanceof ActivityFailure && error.cause ? error.cause : error;
+  return failure instanceof Error ? failure.message : String(failure);
+}
+
+async function withTimeout<T>(
+  name: string,
+  timeout: Duration | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (timeout === undefined) {
+    return fn();
+  }
+  try {
+    return await CancellationScope.withTimeout(timeout, fn);
+  } catch (error) {
+    // A cancellation of the workflow itself is not a timeout of the step
+    if (isCancellation(error) && !CancellationScope.current().consideredCancelled) {
+      throw new SagaStepTimeoutError(name, timeout);
+    }
+    throw error;
+  }
+}
+
+export class Saga<D> {
+  // Oldest first, compensated from the end
+  private readonly compensations: SagaCompensation<D>[] = [];
+
+  constructor(private readonly options: SagaOptions<D> = {}) {}
+
+  /**
+   * Details of the compensations still to run, oldest first
+   */
+  get pending(): D[] {
+    return this.compensations.map(({ details }) => details);
+  }
+
+  /**
+   * Run a step, registering its compensation once the action succeeded
+   * A failed action registers nothing: compensate() only undoes completed steps
+   */
+  async run<T>({ name, action, compensation, timeout }: SagaStep<T, D>): Promise<T> {
+    const result = await withTimeout(name, timeout, action);
+    const undo = compensation?.(result);
+    if (undo) {
+      this.compensations.push(undo);
+    }
+    return result;
+  }
+
+  /**
+   * Register a compensation ahead of its action, for an action whose effect may be applied
+   * even though it reports a failure (e.g. a lost response); the compensation must then be a
+   * no-op when there is nothing to undo
+   */
+  addCompensation(compensation: SagaCompensation<D>): void {
+    this.compensations.push(compensation);
+  }
+
+  /**
+   * Swap the pending compensation `name` for another one at the same position, e.g. once a
+   * later step changes how an earlier one is undone; registered last when none is pending
+   */
+  replaceCompensation(name: string, compensation: SagaCompensation<D>): void {
+    const index = this.compensations.findIndex((pending) => pending.name === name);
+    if (index === -1) {
+      this.compensations.push(compensation);
+    } else {
+      this.compensations[index] = compensation;
+    }
+  }
+
+  /**
+   * Run the pending compensations
+   * @returns the failed compensations, empty when everything was undone
+   * @throws SagaCompensationError when continueOnCompensationError is false and one failed
+   */
+  compensate(): Promise<SagaCompensationFailure<D>[]> {
+    return this.options.parallelCompensation
+      ? this.compensateInParallel()
+      : this.compensateInReverse();
+  }
+
+  private async compensateInReverse(): Promise<SagaCompensationFailure<D>[]> {
+    const failures: SagaCompensationFailure<D>[] = [];
+    while (this.compensations.length > 0) {
+      const compensation = this.compensations[this.compensations.length - 1];
+      this.options.onCompensate?.(compensation);
+      try {
+        await withTimeout(compensation.name, compensation.timeout, compensation.run);
+      } catch (error) {
+        const failure = { compensation, error };
+        failures.push(failure);
+        await this.options.onCompensationError?.(failure);
+        this.failFast(failures);
+      }
+      this.compensations.pop();
+    }
+    return failures;
+  }
+
+  private async compensateInParallel(): Promise<SagaCompensationFailure<D>[]> {
+    const compensations = this.compensations.splice(0).reverse();
+    const outcomes = await Promise.allSettled(
+      compensations.map((compensation) => {
+        this.options.onCompensate?.(compensation);
+        return withTimeout(compensation.name, compensation.timeout, compensation.run);
+      })
+    );
+
+    const failures: SagaCompensationFailure<D>[] = [];
+    for (const [index, outcome] of outcomes.entries()) {
+      if (outcome.status === 'rejected') {
+        const failure = { compensation: compensations[index], error: outcome.reason };
+        failures.push(failure);
+        await this.options.onCompensationError?.(failure);
+      }
+    }
+    if (this.options.continueOnCompensationError === false) {
+      // Only the failed ones are left to undo, oldest first like the registration order
+      this.compensations.push(...failures.map(({ compensation }) => compensation).reverse());
+    }
+    this.failFast(failures);
+    return failures;
+  }
+
+  private failFast(failures: SagaCompensationFailure<D>[]): void {
+    if (failures.length > 0 && this.options.continueOnCompensationError === false) {
+      throw new SagaCompensationError(
+        failures.map(({ compensation, error }) => ({
+          step: compensation.name,
+          message: messageOf(error),
+        }))
+      );
+    }
+  }
+}